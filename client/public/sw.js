@@ -0,0 +1,137 @@
+// Outwork service worker: caches the app shell so the app opens without a
+// connection, and keeps the last response for the API reads the Today and
+// Session pages need (today's schedule, the active session, the exercise list).
+// Mutations are never cached; offline set logging goes through the client's
+// IndexedDB queue instead.
+
+const CACHE_VERSION = "v2";
+const SHELL_CACHE = `outwork-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `outwork-data-${CACHE_VERSION}`;
+
+const SHELL_URLS = [
+  "/",
+  "/manifest.json",
+  "/favicon-32x32.png",
+  "/android-chrome-192x192.png",
+  "/android-chrome-512x512.png",
+];
+
+// GET endpoints served from cache when the network is down or too slow
+const CACHED_API_PATHS = [
+  /^\/api\/auth\/user$/,
+  /^\/api\/schedule\/\d{4}-\d{2}-\d{2}$/,
+  /^\/api\/sessions\/active$/,
+  /^\/api\/sessions\/[^/]+$/,
+  /^\/api\/sessions\/[^/]+\/last-performance$/,
+  /^\/api\/programs\/active$/,
+  /^\/api\/exercises$/,
+];
+
+// Fixed paths the session pattern above would match: the export is too big to
+// keep, and a cached auto-end notice would come back after it was dealt with
+const UNCACHED_API_PATHS = ["/api/sessions/export", "/api/sessions/auto-ended"];
+
+// Requests that change who is signed in; cached data belongs to the old user
+const AUTH_CHANGE_PATHS = ["/api/auth/login", "/api/auth/signup", "/api/auth/logout"];
+
+// Gym reception is often "connected but useless"; give up on the network early
+const NETWORK_TIMEOUT_MS = 4000;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith("outwork-") && key !== SHELL_CACHE && key !== DATA_CACHE)
+          .map((key) => caches.delete(key)),
+      ))
+      .then(() => self.clients.claim()),
+  );
+});
+
+function fetchWithTimeout(request) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Network timeout")), NETWORK_TIMEOUT_MS);
+    fetch(request).then(
+      (response) => {
+        clearTimeout(timer);
+        resolve(response);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+// Network first, falling back to the last good response for the same key
+async function networkFirst(request, cacheName, cacheKey) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetchWithTimeout(request);
+    if (response.ok) {
+      cache.put(cacheKey || request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey || request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Hashed build assets never change, so the cached copy is always good
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin && AUTH_CHANGE_PATHS.includes(url.pathname)) {
+    event.waitUntil(caches.delete(DATA_CACHE));
+    return;
+  }
+
+  if (request.method !== "GET") return;
+
+  // Every client route is the SPA shell
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith("/api/")) {
+      if (!UNCACHED_API_PATHS.includes(url.pathname) && CACHED_API_PATHS.some((pattern) => pattern.test(url.pathname))) {
+        event.respondWith(networkFirst(request, DATA_CACHE));
+      }
+      return;
+    }
+    if (url.pathname.startsWith("/assets/") || SHELL_URLS.includes(url.pathname)) {
+      event.respondWith(cacheFirst(request));
+    }
+    return;
+  }
+
+  if (url.hostname === "fonts.googleapis.com" || url.hostname === "fonts.gstatic.com") {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -17,11 +17,14 @@ import Supplements from "@/pages/supplements";
 import Settings from "@/pages/settings";
 import Exercises from "@/pages/exercises";
 import Circuits from "@/pages/circuits";
+import Programs from "@/pages/programs";
 import CircuitDetail from "@/pages/circuit-detail";
 import TemplateDetail from "@/pages/template-detail";
 import ExerciseDetail from "@/pages/exercise-detail";
 import Session from "@/pages/session";
 import SessionView from "@/pages/session-view";
+import SessionSummary from "@/pages/session-summary";
+import LogWorkout from "@/pages/log-workout";
 import Analytics from "@/pages/analytics";
 import Terms from "@/pages/terms";
 import Privacy from "@/pages/privacy";
@@ -59,15 +62,18 @@ function AuthenticatedRoutes() {
       <Route path="/" component={Today} />
       <Route path="/plan" component={Plan} />
       <Route path="/history" component={History} />
+      <Route path="/history/log" component={LogWorkout} />
       <Route path="/supplements" component={Supplements} />
       <Route path="/settings" component={Settings} />
       <Route path="/exercises" component={Exercises} />
       <Route path="/exercise/:id" component={ExerciseDetail} />
       <Route path="/circuits" component={Circuits} />
       <Route path="/circuit/:id" component={CircuitDetail} />
+      <Route path="/programs" component={Programs} />
       <Route path="/template/:id" component={TemplateDetail} />
       <Route path="/session/:id" component={Session} />
       <Route path="/session/:id/view" component={SessionView} />
+      <Route path="/session/:id/summary" component={SessionSummary} />
       <Route path="/analytics" component={Analytics} />
       <Route path="/terms" component={Terms} />
       <Route path="/privacy" component={Privacy} />
@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, Pause, Play, SkipForward, X } from "lucide-react";
+import { formatCircuitFormat } from "@/lib/utils";
+import type { Circuit } from "@shared/schema";
+
+export type CircuitTimings = Pick<
+  Circuit,
+  "format" | "intervalSeconds" | "timeCapSeconds" | "restBetweenExercisesSeconds" | "restBetweenRoundsSeconds"
+>;
+
+export interface CircuitPlayerExercise {
+  sessionExerciseId: string;
+  name: string;
+  target: string; // What to do each round, e.g. "10 reps / 45 lbs"
+}
+
+// Used when a circuit doesn't set its own timings
+const DEFAULT_EMOM_INTERVAL = 60;
+const DEFAULT_TABATA_WORK = 20;
+const DEFAULT_TABATA_REST = 10;
+const DEFAULT_TIME_CAP = 600;
+
+// Work steps without seconds last until the exercise is marked done
+type Step = { kind: "work" | "rest"; exercise: number; round: number; seconds: number | null };
+
+// The work and rest steps of a circuit with a fixed number of rounds
+function buildSteps(timings: CircuitTimings, exerciseCount: number, startRound: number, rounds: number): Step[] {
+  const steps: Step[] = [];
+  for (let round = startRound; round <= rounds; round++) {
+    for (let exercise = 0; exercise < exerciseCount; exercise++) {
+      const lastInRound = exercise === exerciseCount - 1;
+      const last = lastInRound && round === rounds;
+      if (timings.format === "emom") {
+        steps.push({ kind: "work", exercise, round, seconds: timings.intervalSeconds || DEFAULT_EMOM_INTERVAL });
+      } else if (timings.format === "tabata") {
+        steps.push({ kind: "work", exercise, round, seconds: timings.intervalSeconds || DEFAULT_TABATA_WORK });
+        if (!last) steps.push({ kind: "rest", exercise, round, seconds: timings.restBetweenExercisesSeconds ?? DEFAULT_TABATA_REST });
+      } else {
+        steps.push({ kind: "work", exercise, round, seconds: null });
+        const rest = lastInRound ? timings.restBetweenRoundsSeconds : timings.restBetweenExercisesSeconds;
+        if (!last && rest) steps.push({ kind: "rest", exercise, round, seconds: rest });
+      }
+    }
+  }
+  return steps;
+}
+
+function formatClock(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, "0")}`;
+}
+
+interface CircuitPlayerProps {
+  name: string;
+  timings: CircuitTimings;
+  exercises: CircuitPlayerExercise[];
+  rounds: number;
+  startRound?: number;
+  // Called for each finished work step with the seconds it took
+  onLogSet: (sessionExerciseId: string, seconds: number) => void;
+  onClose: () => void;
+}
+
+// Walks through a circuit's exercises and rounds with its work and rest
+// intervals. AMRAP circuits cycle through the exercises until the time cap
+export function CircuitPlayer({ name, timings, exercises, rounds, startRound = 1, onLogSet, onClose }: CircuitPlayerProps) {
+  const isAmrap = timings.format === "amrap";
+  const [steps] = useState(() => buildSteps(timings, exercises.length, startRound, rounds));
+  const timeCap = (timings.timeCapSeconds || DEFAULT_TIME_CAP) * 1000;
+
+  const [stepIndex, setStepIndex] = useState(0);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [stepStartedAt, setStepStartedAt] = useState(startedAt);
+  // When the current EMOM interval's exercise was marked done
+  const [doneAt, setDoneAt] = useState<number | null>(null);
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(startedAt);
+  const [finishedAt, setFinishedAt] = useState<number | null>(null);
+  const [workDone, setWorkDone] = useState(0);
+
+  // AMRAP steps are all untimed work, one exercise after another
+  const step: Step | undefined = isAmrap
+    ? { kind: "work", exercise: stepIndex % exercises.length, round: Math.floor(stepIndex / exercises.length) + 1, seconds: null }
+    : steps[stepIndex];
+  const nextStep = isAmrap ? null : steps.slice(stepIndex + 1).find(s => s.kind === "work");
+
+  const clock = pausedAt ?? finishedAt ?? now;
+  const stepElapsed = clock - stepStartedAt;
+  const totalElapsed = clock - startedAt;
+
+  useEffect(() => {
+    if (pausedAt !== null || finishedAt !== null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [pausedAt, finishedAt]);
+
+  const logWork = useCallback((work: Step, seconds: number) => {
+    onLogSet(exercises[work.exercise].sessionExerciseId, Math.max(1, Math.round(seconds)));
+    setWorkDone(prev => prev + 1);
+  }, [exercises, onLogSet]);
+
+  // Moves to the next step. Timed steps hand over at their scheduled end so
+  // the intervals don't drift with the tick
+  const advance = useCallback((at: number) => {
+    if (navigator.vibrate) navigator.vibrate(200);
+    setDoneAt(null);
+    if (!isAmrap && stepIndex + 1 >= steps.length) {
+      setFinishedAt(at);
+      return;
+    }
+    setStepIndex(prev => prev + 1);
+    setStepStartedAt(at);
+  }, [isAmrap, stepIndex, steps.length]);
+
+  useEffect(() => {
+    if (!step || pausedAt !== null || finishedAt !== null) return;
+    if (isAmrap && now - startedAt >= timeCap) {
+      if (navigator.vibrate) navigator.vibrate([200, 100, 200]);
+      setFinishedAt(startedAt + timeCap);
+      return;
+    }
+    if (step.seconds === null || now - stepStartedAt < step.seconds * 1000) return;
+    const end = stepStartedAt + step.seconds * 1000;
+    if (step.kind === "work") logWork(step, ((doneAt ?? end) - stepStartedAt) / 1000);
+    advance(end);
+  }, [now, step, pausedAt, finishedAt, isAmrap, startedAt, timeCap, stepStartedAt, doneAt, logWork, advance]);
+
+  const togglePause = () => {
+    if (pausedAt === null) {
+      setPausedAt(Date.now());
+      return;
+    }
+    const pausedFor = Date.now() - pausedAt;
+    setStartedAt(prev => prev + pausedFor);
+    setStepStartedAt(prev => prev + pausedFor);
+    setDoneAt(prev => prev === null ? null : prev + pausedFor);
+    setNow(Date.now());
+    setPausedAt(null);
+  };
+
+  const markDone = () => {
+    if (!step || step.kind !== "work") return;
+    const at = Date.now();
+    if (step.seconds !== null) {
+      // EMOM: the rest of the interval is rest
+      setDoneAt(at);
+      return;
+    }
+    logWork(step, (at - stepStartedAt) / 1000);
+    advance(at);
+  };
+
+  // Skipping an EMOM interval whose exercise is done still logs it
+  const skip = () => {
+    if (step?.kind === "work" && doneAt !== null) logWork(step, (doneAt - stepStartedAt) / 1000);
+    advance(Date.now());
+  };
+
+  if (finishedAt !== null || !step) {
+    const fullRounds = Math.floor(workDone / exercises.length);
+    const extra = workDone % exercises.length;
+    return (
+      <div className="fixed inset-0 z-50 bg-background flex flex-col items-center justify-center gap-6 px-6 text-center" data-testid="circuit-player-finished">
+        <p className="text-sm text-muted-foreground">{name}</p>
+        <p className="text-3xl font-bold">
+          {fullRounds} {fullRounds === 1 ? "round" : "rounds"}{extra > 0 ? ` + ${extra}` : ""}
+        </p>
+        <p className="font-mono text-xl tabular-nums text-muted-foreground">{formatClock(totalElapsed)}</p>
+        <Button className="w-full max-w-xs" onClick={onClose} data-testid="button-circuit-player-close">
+          Done
+        </Button>
+      </div>
+    );
+  }
+
+  const current = exercises[step.exercise];
+  const isWork = step.kind === "work";
+  const remaining = step.seconds !== null ? step.seconds * 1000 - stepElapsed : null;
+  const upNext = isAmrap ? exercises[(step.exercise + 1) % exercises.length] : nextStep && exercises[nextStep.exercise];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background flex flex-col" data-testid="circuit-player">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+        <span className="font-medium truncate">{name}</span>
+        <Badge variant="secondary" className="text-xs shrink-0">{formatCircuitFormat(timings.format)}</Badge>
+        <span className="ml-auto font-mono text-sm tabular-nums text-muted-foreground" data-testid="text-circuit-total">
+          {isAmrap ? `${formatClock(timeCap - totalElapsed)} left` : formatClock(totalElapsed)}
+        </span>
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClose} data-testid="button-circuit-player-exit">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {remaining !== null && (
+        <div className="h-1 bg-muted">
+          <div
+            className={`h-full transition-all duration-200 ease-linear ${isWork ? "bg-primary" : "bg-green-500"}`}
+            style={{ width: `${Math.max(0, remaining / (step.seconds! * 1000)) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-3 px-6 text-center">
+        <p className="text-sm text-muted-foreground">
+          Round {step.round}{isAmrap ? "" : ` of ${rounds}`}
+        </p>
+        <p className={`text-sm font-semibold uppercase tracking-wide ${isWork ? "text-primary" : "text-green-600 dark:text-green-400"}`}>
+          {isWork ? (doneAt !== null ? "Rest" : "Work") : "Rest"}
+        </p>
+        <p className="text-2xl font-bold" data-testid="text-circuit-exercise">
+          {isWork ? current.name : upNext ? `Next: ${upNext.name}` : "Rest"}
+        </p>
+        {isWork && current.target && <p className="text-muted-foreground">{current.target}</p>}
+        <p className="font-mono text-6xl font-bold tabular-nums" data-testid="text-circuit-clock">
+          {remaining !== null ? formatClock(remaining) : formatClock(stepElapsed)}
+        </p>
+        {isWork && upNext && (
+          <p className="text-sm text-muted-foreground">Up next: {upNext.name}</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 px-4 pb-8 pt-4 max-w-lg w-full mx-auto">
+        <Button variant="outline" size="icon" onClick={togglePause} data-testid="button-circuit-pause">
+          {pausedAt !== null ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+        </Button>
+        {isWork && doneAt === null && timings.format !== "tabata" ? (
+          <Button className="flex-1" onClick={markDone} disabled={pausedAt !== null} data-testid="button-circuit-done">
+            <Check className="h-4 w-4 mr-2" />
+            Done
+          </Button>
+        ) : (
+          <div className="flex-1" />
+        )}
+        <Button variant="outline" size="icon" onClick={skip} disabled={pausedAt !== null} data-testid="button-circuit-skip">
+          <SkipForward className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { cn } from "@/lib/utils";
+import { formatPlates, loadPlates, roundToLoadable, type EquipmentProfile } from "@shared/equipment";
+import type { EquipmentType } from "@shared/schema";
+
+interface PlateBreakdownProps {
+  weight: number;
+  equipment: EquipmentType | null | undefined;
+  profile: EquipmentProfile;
+  unit: string;
+  // Barbell lifts can be loaded on any of the profile's bars
+  barWeight?: number;
+  onNextBar?: () => void;
+  className?: string;
+  testId?: string;
+}
+
+// How to load a weight: plates a side for barbells and plate-loaded machines,
+// and the closest loadable weight when the equipment can't make it exactly
+export function PlateBreakdown({ weight, equipment, profile, unit, barWeight, onNextBar, className, testId }: PlateBreakdownProps) {
+  if (!(weight > 0)) return null;
+
+  if (equipment === "barbell" || equipment === "plate_loaded") {
+    const bar = equipment === "barbell" ? barWeight ?? profile.barWeights[0] : 0;
+    const load = loadPlates(weight, bar, profile.plates);
+    const canSwitchBar = equipment === "barbell" && profile.barWeights.length > 1 && onNextBar;
+    return (
+      <div className={cn("flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground", className)} data-testid={testId}>
+        <span>
+          {weight}{unit}: {equipment === "plate_loaded" && load.perSide.length === 0 ? "No plates" : formatPlates(load)}
+        </span>
+        {load.total !== weight && (
+          <span className="text-orange-600 dark:text-orange-400">closest {load.total}{unit}</span>
+        )}
+        {canSwitchBar && (
+          <button className="underline" onClick={onNextBar} data-testid={testId && `${testId}-bar`}>
+            {bar}{unit} bar
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const loadable = roundToLoadable(weight, equipment, profile);
+  if (loadable === weight) return null;
+  return (
+    <p className={cn("text-xs text-orange-600 dark:text-orange-400", className)} data-testid={testId}>
+      {weight}{unit} isn't loadable, closest {loadable}{unit}
+    </p>
+  );
+}
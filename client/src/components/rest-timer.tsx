@@ -1,47 +1,83 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Pause, Play, X } from "lucide-react";
+import { getRemainingSeconds, pauseRestTimer, resumeRestTimer } from "@/lib/rest-timer-store";
+import type { RestTimerState } from "@shared/schema";
+
+const WARNING_SECONDS = 10;
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (!audioContext && typeof AudioContext !== "undefined") {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+}
+
+// A short tone. Browsers only play audio once a user gesture has started the
+// context, which logging the set that starts the timer does
+function beep(frequency: number, durationMs: number) {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  if (ctx.state === "suspended") ctx.resume().catch(() => undefined);
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.frequency.value = frequency;
+  gain.gain.value = 0.2;
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+  oscillator.start();
+  oscillator.stop(ctx.currentTime + durationMs / 1000);
+}
 
 interface RestTimerProps {
-  initialSeconds: number;
+  timer: RestTimerState;
+  onChange: (timer: RestTimerState) => void;
   onComplete: () => void;
   onDismiss: () => void;
 }
 
-export function RestTimer({ initialSeconds, onComplete, onDismiss }: RestTimerProps) {
-  const [remaining, setRemaining] = useState(initialSeconds);
-  const [paused, setPaused] = useState(false);
+// Counts down to the timer's end time rather than ticking a counter, so time
+// spent in the background or on another page still counts
+export function RestTimer({ timer, onChange, onComplete, onDismiss }: RestTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const paused = !timer.endsAt;
+  const remaining = getRemainingSeconds(timer, now);
+  // Cues fire when the countdown crosses them, not for a timer resumed past them
+  const lastRemaining = useRef(remaining);
   const completedRef = useRef(false);
 
   useEffect(() => {
-    if (paused || remaining <= 0) return;
-
-    const interval = setInterval(() => {
-      setRemaining((prev) => {
-        if (prev <= 1) {
-          clearInterval(interval);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    getAudioContext();
+  }, []);
 
+  useEffect(() => {
+    if (paused) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
     return () => clearInterval(interval);
-  }, [paused, remaining]);
+  }, [paused, timer.endsAt]);
 
   useEffect(() => {
+    const previous = lastRemaining.current;
+    lastRemaining.current = remaining;
     if (remaining === 0 && !completedRef.current) {
       completedRef.current = true;
-      if (navigator.vibrate) {
-        navigator.vibrate(200);
+      if (previous > 0) {
+        beep(880, 400);
+        if (navigator.vibrate) navigator.vibrate([200, 100, 200]);
       }
       onComplete();
+    } else if (previous > WARNING_SECONDS && remaining <= WARNING_SECONDS && remaining > 0) {
+      beep(660, 150);
+      if (navigator.vibrate) navigator.vibrate(100);
     }
   }, [remaining, onComplete]);
 
   const minutes = Math.floor(remaining / 60);
   const seconds = remaining % 60;
-  const progress = remaining / initialSeconds;
+  const progress = remaining / timer.durationSeconds;
 
   return (
     <div className="fixed bottom-16 left-0 right-0 z-50 px-4 pb-2">
@@ -49,12 +85,12 @@ export function RestTimer({ initialSeconds, onComplete, onDismiss }: RestTimerPr
         <div className="h-1 bg-muted">
           <div
             className="h-full bg-primary transition-all duration-1000 ease-linear"
-            style={{ width: `${progress * 100}%` }}
+            style={{ width: `${Math.min(1, progress) * 100}%` }}
           />
         </div>
         <div className="flex items-center justify-between px-4 py-3">
           <span className="text-xs text-muted-foreground font-medium">Rest</span>
-          <span className="font-mono text-2xl font-bold tabular-nums">
+          <span className="font-mono text-2xl font-bold tabular-nums" data-testid="text-rest-timer">
             {minutes}:{seconds.toString().padStart(2, "0")}
           </span>
           <div className="flex items-center gap-2">
@@ -62,7 +98,8 @@ export function RestTimer({ initialSeconds, onComplete, onDismiss }: RestTimerPr
               size="icon"
               variant="ghost"
               className="h-8 w-8"
-              onClick={() => setPaused((p) => !p)}
+              onClick={() => onChange(paused ? resumeRestTimer(timer) : pauseRestTimer(timer))}
+              data-testid="button-rest-timer-pause"
             >
               {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
             </Button>
@@ -71,6 +108,7 @@ export function RestTimer({ initialSeconds, onComplete, onDismiss }: RestTimerPr
               variant="ghost"
               className="h-8 w-8"
               onClick={onDismiss}
+              data-testid="button-rest-timer-dismiss"
             >
               <X className="h-4 w-4" />
             </Button>
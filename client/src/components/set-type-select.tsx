@@ -0,0 +1,30 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatSetType } from "@/lib/utils";
+import { setTypes, type SetType } from "@shared/schema";
+
+interface SetTypeSelectProps {
+  value: SetType;
+  onChange: (value: SetType) => void;
+  // Drop sets need an earlier set to drop from
+  allowDrop?: boolean;
+  testId?: string;
+}
+
+export function SetTypeSelect({ value, onChange, allowDrop = true, testId }: SetTypeSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">Set type</Label>
+      <Select value={value} onValueChange={(v) => onChange(v as SetType)}>
+        <SelectTrigger data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {setTypes.filter(t => allowDrop || t !== "drop" || value === "drop").map(t => (
+            <SelectItem key={t} value={t}>{formatSetType(t)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
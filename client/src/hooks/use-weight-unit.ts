@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import type { UserSettings, WeightUnit } from "@shared/schema";
+
+// The user's preferred unit for analytics, exports and body weight. Pounds
+// until settings load
+export function useWeightUnit(): WeightUnit {
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+  });
+  return settings?.weightUnit ?? "lbs";
+}
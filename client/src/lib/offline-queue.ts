@@ -0,0 +1,194 @@
+// Offline queue for session set mutations. Each mutation is written to
+// IndexedDB before it is sent, replayed in order once the connection is back,
+// and carries an Idempotency-Key so a retry after a lost response is not
+// applied twice on the server.
+
+const DB_NAME = "outwork-offline";
+const DB_VERSION = 1;
+const STORE = "mutations";
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface QueuedMutation {
+  id?: number; // Auto-increment key, which is also the replay order
+  sessionId: string;
+  method: "POST" | "PATCH" | "DELETE";
+  url: string;
+  body?: unknown;
+  idempotencyKey: string;
+  localId?: string; // Temporary id of a set created offline (POST only)
+}
+
+export interface FlushResult {
+  synced: number;
+  rejected: QueuedMutation[]; // Dropped after a 4xx from the server
+  pending: number; // Still queued because the network or server was unavailable
+}
+
+const LOCAL_ID_PREFIX = "local-";
+
+export function createLocalId(): string {
+  return `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isLocalId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+// Server ids of offline-created sets that have synced since the page loaded.
+// The cached session can still show the local id until it refetches
+const syncedLocalIds = new Map<string, string>();
+
+export function resolveLocalId(id: string): string {
+  return syncedLocalIds.get(id) ?? id;
+}
+
+// Swaps one set id for another in a mutation's URL and body (a drop set's
+// parentSetId can name a set created offline). A null replacement clears it
+function rewriteId(mutation: QueuedMutation, from: string, to: string | null): QueuedMutation {
+  const body = mutation.body === undefined
+    ? undefined
+    : JSON.parse(JSON.stringify(mutation.body).split(JSON.stringify(from)).join(JSON.stringify(to)));
+  return { ...mutation, url: to ? mutation.url.replace(from, to) : mutation.url, body };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function enqueueMutation(mutation: Omit<QueuedMutation, "id" | "idempotencyKey">): Promise<QueuedMutation> {
+  let queued: QueuedMutation = { ...mutation, idempotencyKey: crypto.randomUUID() };
+  syncedLocalIds.forEach((serverId, localId) => {
+    queued = rewriteId(queued, localId, serverId);
+  });
+  const id = await withStore("readwrite", store => store.add(queued));
+  return { ...queued, id: id as number };
+}
+
+export async function getQueuedMutations(sessionId?: string): Promise<QueuedMutation[]> {
+  const all = await withStore<QueuedMutation[]>("readonly", store => store.getAll());
+  return sessionId ? all.filter(m => m.sessionId === sessionId) : all;
+}
+
+async function removeMutation(id: number): Promise<void> {
+  await withStore("readwrite", store => store.delete(id));
+}
+
+// Drops every queued mutation for a set that never reached the server, so
+// deleting an offline-created set doesn't need a round trip at all. Drop sets
+// that pointed at it lose their parent, as they would on the server
+export async function discardLocalSet(localId: string): Promise<void> {
+  const queue = await getQueuedMutations();
+  for (const mutation of queue) {
+    if (mutation.localId === localId || mutation.url.includes(localId)) {
+      await removeMutation(mutation.id!);
+    } else if (JSON.stringify(mutation.body ?? null).includes(localId)) {
+      await withStore("readwrite", store => store.put(rewriteId(mutation, localId, null)));
+    }
+  }
+}
+
+// Once an offline-created set has a server id, point later mutations at it
+async function replaceLocalId(localId: string, serverId: string): Promise<void> {
+  const queue = await getQueuedMutations();
+  for (const mutation of queue) {
+    if (mutation.url.includes(localId) || JSON.stringify(mutation.body ?? null).includes(localId)) {
+      await withStore("readwrite", store => store.put(rewriteId(mutation, localId, serverId)));
+    }
+  }
+}
+
+async function send(mutation: QueuedMutation): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(mutation.url, {
+      method: mutation.method,
+      headers: {
+        "Idempotency-Key": mutation.idempotencyKey,
+        ...(mutation.body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: mutation.body ? JSON.stringify(mutation.body) : undefined,
+      credentials: "include",
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function replay(): Promise<FlushResult> {
+  const queue = await getQueuedMutations();
+  const result: FlushResult = { synced: 0, rejected: [], pending: 0 };
+
+  for (let i = 0; i < queue.length; i++) {
+    const mutation = queue[i];
+    let res: Response;
+    try {
+      res = await send(mutation);
+    } catch {
+      // Offline or timed out: keep this and everything after it, in order
+      result.pending = queue.length - i;
+      return result;
+    }
+
+    // Server errors, expired logins and an earlier copy of this request still
+    // running on the server (409) are worth retrying later
+    if (res.status >= 500 || res.status === 401 || res.status === 409) {
+      result.pending = queue.length - i;
+      return result;
+    }
+
+    await removeMutation(mutation.id!);
+    if (!res.ok) {
+      result.rejected.push(mutation);
+      continue;
+    }
+
+    result.synced++;
+    if (mutation.localId) {
+      const created = await res.json() as { id: string };
+      syncedLocalIds.set(mutation.localId, created.id);
+      await replaceLocalId(mutation.localId, created.id);
+      // Later entries in this pass were read before the rewrite
+      for (let j = i + 1; j < queue.length; j++) {
+        queue[j] = rewriteId(queue[j], mutation.localId, created.id);
+      }
+    }
+  }
+
+  return result;
+}
+
+let lastFlush: Promise<unknown> = Promise.resolve();
+
+// Replays the whole queue. Passes run one at a time, and each call gets a pass
+// that starts after it, so a mutation queued mid-pass is never left behind
+export function flushQueue(): Promise<FlushResult> {
+  const pass = lastFlush.catch(() => undefined).then(replay);
+  lastFlush = pass;
+  return pass;
+}
@@ -0,0 +1,50 @@
+// Rest timers kept per session in localStorage. The timer is an absolute end
+// time, so a reload, a trip to another page or a locked phone picks the
+// countdown back up where it should be. The session page mirrors it to the
+// server for other devices.
+import type { RestTimerState } from "@shared/schema";
+
+const STORAGE_PREFIX = "outwork-rest-timer:";
+
+export function loadRestTimer(sessionId: string): RestTimerState | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + sessionId);
+    return stored ? JSON.parse(stored) as RestTimerState : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveRestTimer(sessionId: string, timer: RestTimerState | null) {
+  if (timer) {
+    localStorage.setItem(STORAGE_PREFIX + sessionId, JSON.stringify(timer));
+  } else {
+    localStorage.removeItem(STORAGE_PREFIX + sessionId);
+  }
+}
+
+export function createRestTimer(seconds: number): RestTimerState {
+  return {
+    endsAt: new Date(Date.now() + seconds * 1000).toISOString(),
+    durationSeconds: seconds,
+    pausedRemainingSeconds: null,
+  };
+}
+
+export function getRemainingSeconds(timer: RestTimerState, now = Date.now()): number {
+  if (!timer.endsAt) return timer.pausedRemainingSeconds ?? 0;
+  return Math.max(0, Math.ceil((new Date(timer.endsAt).getTime() - now) / 1000));
+}
+
+export function pauseRestTimer(timer: RestTimerState): RestTimerState {
+  return { ...timer, endsAt: null, pausedRemainingSeconds: getRemainingSeconds(timer) };
+}
+
+export function resumeRestTimer(timer: RestTimerState): RestTimerState {
+  return { ...createRestTimer(timer.pausedRemainingSeconds ?? 0), durationSeconds: timer.durationSeconds };
+}
+
+// Paused timers count as running; they still have time left
+export function isRestTimerRunning(timer: RestTimerState | null | undefined): timer is RestTimerState {
+  return !!timer && getRemainingSeconds(timer) > 0;
+}
@@ -4,3 +4,67 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// "front_delts" -> "Front Delts"
+export function formatMuscle(muscle: string) {
+  return muscle.split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ")
+}
+
+const SET_TYPE_LABELS: Record<string, string> = {
+  normal: "Normal",
+  warmup: "Warmup",
+  drop: "Drop set",
+  amrap: "AMRAP",
+  rest_pause: "Rest-pause",
+  cluster: "Cluster",
+  failure: "To failure",
+}
+
+export function formatSetType(setType: string) {
+  return SET_TYPE_LABELS[setType] ?? setType
+}
+
+const EQUIPMENT_LABELS: Record<string, string> = {
+  barbell: "Barbell",
+  plate_loaded: "Plate-loaded machine",
+  dumbbell: "Dumbbells",
+  machine: "Machine / cable stack",
+  bodyweight: "Bodyweight",
+  other: "Other",
+}
+
+export function formatEquipment(equipment: string) {
+  return EQUIPMENT_LABELS[equipment] ?? equipment
+}
+
+const CIRCUIT_FORMAT_LABELS: Record<string, string> = {
+  standard: "Standard",
+  emom: "EMOM",
+  tabata: "Tabata",
+  amrap: "AMRAP",
+}
+
+export function formatCircuitFormat(format: string) {
+  return CIRCUIT_FORMAT_LABELS[format] ?? format
+}
+
+// Times are stored in seconds and entered in the exercise's time unit
+export function toStoredSeconds(timeStr: string, unit: string): number {
+  const val = parseFloat(timeStr) || 0
+  return unit === "min" ? Math.round(val * 60) : Math.round(val)
+}
+
+export function fromStoredSeconds(seconds: number, unit: string): string {
+  if (unit === "min") {
+    const mins = seconds / 60
+    return Number.isInteger(mins) ? mins.toString() : mins.toFixed(1)
+  }
+  return seconds.toString()
+}
+
+// Mirrors the server's resolution so templates can preview percentage-based sets
+export function resolvePercentTarget(percent: string, max: { weight: string; roundingIncrement: string }): number {
+  const raw = Number(max.weight) * Number(percent) / 100
+  const increment = Number(max.roundingIncrement)
+  return increment > 0 ? Math.round(raw / increment) * increment : Math.round(raw * 100) / 100
+}
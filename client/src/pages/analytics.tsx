@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { AppLayout } from "@/components/app-layout";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,9 +7,11 @@ import { ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
   ArrowLeft, BarChart3, TrendingUp, TrendingDown, Timer, Weight,
-  Dumbbell, Search, X, Flame, Calendar, Pill, Trophy, Clock,
+  Dumbbell, Search, X, Flame, Calendar, Pill, Trophy, Clock, Target,
 } from "lucide-react";
 import { Link } from "wouter";
 import { format, parseISO, subDays, startOfDay, differenceInDays } from "date-fns";
@@ -17,7 +19,12 @@ import {
   LineChart, Line, BarChart, Bar, ComposedChart,
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend,
 } from "recharts";
-import type { Exercise, Supplement, SupplementLog, BodyWeightLog } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWeightUnit } from "@/hooks/use-weight-unit";
+import { formatMuscle } from "@/lib/utils";
+import { convertWeight, roundWeight } from "@shared/units";
+import type { Exercise, Supplement, SupplementLog, BodyWeightLog, MuscleGroup } from "@shared/schema";
 
 // ============================================================
 // Types
@@ -26,8 +33,10 @@ import type { Exercise, Supplement, SupplementLog, BodyWeightLog } from "@shared
 interface AnalyticsData {
   date: string;
   maxWeight: number | null;
+  estimated1RM: number | null;
   totalEffort: number | null;
   bestTime: number | null;
+  avgRpe: number | null;
   totalSets: number;
 }
 
@@ -37,6 +46,7 @@ interface OverviewData {
   currentStreak: number;
   avgSessionsPerWeek: number;
   weeklyVolume: { week: string; volume: number }[];
+  planAdherence: { completed: number; skipped: number; adherencePct: number | null };
 }
 
 interface VolumeData {
@@ -48,10 +58,21 @@ interface PrEntry {
   date: string;
   exerciseId: string;
   exerciseName: string;
-  metric: "weight" | "time";
+  metric: "weight" | "time" | "e1rm";
   value: number;
 }
 
+interface RepRangePr {
+  reps: number;
+  weight: number | null;
+  date: string | null;
+}
+
+interface MuscleSetsData {
+  weeks: string[];
+  muscles: { muscle: MuscleGroup; minSets: number; maxSets: number; sets: number[] }[];
+}
+
 interface CategoryVolume {
   category: string;
   volume: number;
@@ -62,7 +83,15 @@ interface SessionDuration {
   durationMin: number;
 }
 
+interface RestDiscipline {
+  date: string;
+  avgRestSeconds: number;
+  targetRestSeconds: number | null;
+  onTargetPct: number | null;
+}
+
 type TimeRange = "1mo" | "3mo" | "6mo" | "1yr" | "all";
+type OneRepMaxFormula = "epley" | "brzycki";
 type Tab = "training" | "weight" | "supplements";
 
 const TIME_RANGES: { value: TimeRange; label: string }[] = [
@@ -238,6 +267,7 @@ const CHART_STYLE = {
 // ============================================================
 
 function OverviewDashboard({ overview }: { overview: OverviewData }) {
+  const unit = useWeightUnit();
   const chartData = overview.weeklyVolume.map(w => ({
     week: format(parseISO(w.week), "MMM d"),
     volume: w.volume,
@@ -252,6 +282,15 @@ function OverviewDashboard({ overview }: { overview: OverviewData }) {
         <MetricCard title="Avg / Week" value={overview.avgSessionsPerWeek.toString()} subtitle="last 8 weeks" icon={TrendingUp} />
       </div>
 
+      {overview.planAdherence.adherencePct != null && (
+        <MetricCard
+          title="Plan Adherence"
+          value={`${overview.planAdherence.adherencePct}%`}
+          subtitle={`${overview.planAdherence.completed} done, ${overview.planAdherence.skipped} skipped (last 4 weeks)`}
+          icon={Target}
+        />
+      )}
+
       {chartData.length > 0 && (
         <Card className="p-4">
           <h3 className="font-medium mb-4">Weekly Volume (last 8 weeks)</h3>
@@ -262,7 +301,7 @@ function OverviewDashboard({ overview }: { overview: OverviewData }) {
                 <XAxis dataKey="week" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
                 <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={45}
                   tickFormatter={v => v >= 1000 ? `${(v / 1000).toFixed(0)}k` : String(v)} />
-                <Tooltip formatter={(v: number) => [v.toLocaleString(), "Volume (lbs)"]} {...CHART_STYLE} />
+                <Tooltip formatter={(v: number) => [v.toLocaleString(), `Volume (${unit})`]} {...CHART_STYLE} />
                 <Bar dataKey="volume" fill="hsl(var(--primary))" radius={[3, 3, 0, 0]} />
               </BarChart>
             </ResponsiveContainer>
@@ -278,6 +317,7 @@ function OverviewDashboard({ overview }: { overview: OverviewData }) {
 // ============================================================
 
 function PrsFeed({ prs }: { prs: PrEntry[] }) {
+  const unit = useWeightUnit();
   const [showAll, setShowAll] = useState(false);
   const today = new Date();
   const visible = showAll ? prs : prs.slice(0, 5);
@@ -307,7 +347,8 @@ function PrsFeed({ prs }: { prs: PrEntry[] }) {
                 )}
               </div>
               <span className="text-muted-foreground shrink-0 text-xs">
-                {pr.metric === "weight" ? `${pr.value} lbs` : formatTime(pr.value)}
+                {pr.metric === "weight" ? `${pr.value} ${unit}` :
+                 pr.metric === "e1rm" ? `e1RM ${pr.value} ${unit}` : formatTime(pr.value)}
               </span>
             </div>
           );
@@ -330,6 +371,7 @@ function PrsFeed({ prs }: { prs: PrEntry[] }) {
 // ============================================================
 
 function VolumeChart({ data }: { data: VolumeData[] }) {
+  const unit = useWeightUnit();
   if (data.length === 0) return null;
   const chartData = data.map(d => ({
     date: format(parseISO(d.date), "MMM d"),
@@ -345,7 +387,7 @@ function VolumeChart({ data }: { data: VolumeData[] }) {
             <XAxis dataKey="date" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
             <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={45}
               tickFormatter={v => v >= 1000 ? `${(v / 1000).toFixed(0)}k` : String(v)} />
-            <Tooltip formatter={(v: number) => [v.toLocaleString(), "Volume (lbs)"]} {...CHART_STYLE} />
+            <Tooltip formatter={(v: number) => [v.toLocaleString(), `Volume (${unit})`]} {...CHART_STYLE} />
             <Line type="monotone" dataKey="volume" stroke="hsl(var(--primary))" strokeWidth={2}
               dot={{ fill: "hsl(var(--primary))", strokeWidth: 0, r: 3 }}
               activeDot={{ r: 5, fill: "hsl(var(--primary))" }} />
@@ -356,11 +398,154 @@ function VolumeChart({ data }: { data: VolumeData[] }) {
   );
 }
 
+// ============================================================
+// Training Tab — Weekly Sets per Muscle
+// ============================================================
+
+function MuscleSetsCard({ data }: { data: MuscleSetsData }) {
+  const { toast } = useToast();
+  const [showAll, setShowAll] = useState(false);
+  const [editing, setEditing] = useState<MuscleSetsData["muscles"][number] | null>(null);
+  const [minSets, setMinSets] = useState("");
+  const [maxSets, setMaxSets] = useState("");
+
+  const saveTargetMutation = useMutation({
+    mutationFn: async ({ muscle, min, max }: { muscle: MuscleGroup; min: number; max: number }) => {
+      return await apiRequest("PUT", `/api/muscle-targets/${muscle}`, { minSets: min, maxSets: max });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/muscle-sets"] });
+      setEditing(null);
+      toast({ title: "Target saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save target", variant: "destructive" });
+    },
+  });
+
+  const resetTargetMutation = useMutation({
+    mutationFn: async (muscle: MuscleGroup) => {
+      await apiRequest("DELETE", `/api/muscle-targets/${muscle}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/muscle-sets"] });
+      setEditing(null);
+      toast({ title: "Target reset to default" });
+    },
+    onError: () => {
+      toast({ title: "Failed to reset target", variant: "destructive" });
+    },
+  });
+
+  const openEditor = (row: MuscleSetsData["muscles"][number]) => {
+    setEditing(row);
+    setMinSets(String(row.minSets));
+    setMaxSets(String(row.maxSets));
+  };
+
+  // Current week is last; muscles trained in the window come first
+  const current = data.weeks.length - 1;
+  const trained = data.muscles.filter(m => m.sets.some(s => s > 0));
+  const visible = showAll ? data.muscles : trained;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Target className="h-4 w-4 text-primary" />
+        <h3 className="font-medium">Weekly Sets per Muscle</h3>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        This week vs. target range. Secondary muscles count as half a set. Tap a muscle to change its target.
+      </p>
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No hard sets logged in the last {data.weeks.length} weeks</p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map(row => {
+            const sets = row.sets[current];
+            const average = row.sets.reduce((sum, s) => sum + s, 0) / row.sets.length;
+            const scale = Math.max(row.maxSets, sets, 1);
+            const barColor = sets < row.minSets ? "bg-amber-500" : sets > row.maxSets ? "bg-red-500" : "bg-green-500";
+            return (
+              <button
+                key={row.muscle}
+                onClick={() => openEditor(row)}
+                className="w-full text-left space-y-1"
+                data-testid={`row-muscle-${row.muscle}`}
+              >
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{formatMuscle(row.muscle)}</span>
+                  <span className="text-xs text-muted-foreground">
+                    <span className="font-semibold text-foreground">{sets}</span> / {row.minSets}–{row.maxSets}
+                    {" · "}avg {Math.round(average * 10) / 10}
+                  </span>
+                </div>
+                <div className="relative h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="absolute inset-y-0 bg-primary/20"
+                    style={{ left: `${(row.minSets / scale) * 100}%`, width: `${((row.maxSets - row.minSets) / scale) * 100}%` }}
+                  />
+                  <div className={`absolute inset-y-0 left-0 rounded-full ${barColor}`} style={{ width: `${(sets / scale) * 100}%` }} />
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {trained.length < data.muscles.length && (
+        <button onClick={() => setShowAll(v => !v)} className="text-xs text-primary hover:underline">
+          {showAll ? "Show trained muscles only" : "Show all muscles"}
+        </button>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `${formatMuscle(editing.muscle)} Target` : "Target"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Min sets / week</Label>
+                <Input type="number" value={minSets} onChange={e => setMinSets(e.target.value)} data-testid="input-muscle-min" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Max sets / week</Label>
+                <Input type="number" value={maxSets} onChange={e => setMaxSets(e.target.value)} data-testid="input-muscle-max" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => editing && resetTargetMutation.mutate(editing.muscle)}
+                disabled={resetTargetMutation.isPending}
+                data-testid="button-reset-muscle-target"
+              >
+                Reset
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => editing && saveTargetMutation.mutate({ muscle: editing.muscle, min: Number(minSets), max: Number(maxSets) })}
+                disabled={!minSets || !maxSets || Number(maxSets) < Number(minSets) || saveTargetMutation.isPending}
+                data-testid="button-save-muscle-target"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
 // ============================================================
 // Training Tab — Volume by Category (JEF-28)
 // ============================================================
 
 function CategoryVolumeChart({ data }: { data: CategoryVolume[] }) {
+  const unit = useWeightUnit();
   if (data.length === 0) return null;
   const total = data.reduce((sum, d) => sum + d.volume, 0);
   const chartData = data.map(d => ({
@@ -384,7 +569,7 @@ function CategoryVolumeChart({ data }: { data: CategoryVolume[] }) {
             <YAxis type="category" dataKey="category" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={55} />
             <Tooltip
               formatter={(v: number, _: string, entry: any) => [
-                `${v.toLocaleString()} lbs (${entry.payload.pct}%)`,
+                `${v.toLocaleString()} ${unit} (${entry.payload.pct}%)`,
                 "Volume",
               ]}
               {...CHART_STYLE}
@@ -435,30 +620,89 @@ function SessionDurationChart({ data }: { data: SessionDuration[] }) {
   );
 }
 
+// ============================================================
+// Training Tab — Rest Discipline
+// ============================================================
+
+// Actual rest between sets against the planned rest, per session
+function RestDisciplineChart({ data }: { data: RestDiscipline[] }) {
+  if (data.length === 0) return null;
+  const scored = data.filter(d => d.onTargetPct !== null);
+  const onTarget = scored.length
+    ? Math.round(scored.reduce((sum, d) => sum + d.onTargetPct!, 0) / scored.length)
+    : null;
+  const chartData = data.map(d => ({
+    date: format(parseISO(d.date), "MMM d"),
+    actual: d.avgRestSeconds,
+    target: d.targetRestSeconds,
+  }));
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium">Rest Discipline</h3>
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Timer className="h-3 w-3" />
+          <span data-testid="text-rest-on-target">{onTarget !== null ? `${onTarget}% on target` : "No planned rest"}</span>
+        </div>
+      </div>
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="date" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+            <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={40}
+              tickFormatter={v => `${v}s`} />
+            <Tooltip
+              formatter={(value: number, name: string) => [`${value}s`, name === "actual" ? "Actual rest" : "Planned rest"]}
+              {...CHART_STYLE}
+            />
+            <Legend
+              formatter={value => value === "actual" ? "Actual" : "Planned"}
+              iconType="line"
+              wrapperStyle={{ fontSize: 12 }}
+            />
+            <Line type="monotone" dataKey="actual" stroke="hsl(var(--primary))" strokeWidth={2}
+              dot={{ fill: "hsl(var(--primary))", strokeWidth: 0, r: 3 }}
+              activeDot={{ r: 5 }} />
+            <Line type="monotone" dataKey="target" stroke="hsl(var(--muted-foreground))" strokeWidth={1.5}
+              strokeDasharray="4 2" dot={false} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+}
+
 // ============================================================
 // Training Tab — Exercise Analytics (single + compare JEF-31)
 // ============================================================
 
 function ProgressChart({ data, metric }: {
   data: AnalyticsData[];
-  metric: "weight" | "effort" | "time";
+  metric: "weight" | "e1rm" | "effort" | "time" | "rpe";
 }) {
+  const unit = useWeightUnit();
   const chartData = data.map(d => ({
     date: format(parseISO(d.date), "MMM d"),
     value: metric === "weight" ? (d.maxWeight || 0) :
+           metric === "e1rm" ? (d.estimated1RM || 0) :
            metric === "effort" ? (d.totalEffort || 0) :
+           metric === "rpe" ? (d.avgRpe || 0) :
            (d.bestTime || 0),
   })).filter(d => d.value > 0);
 
   if (chartData.length === 0) return null;
 
   const title = metric === "weight" ? "Max Weight" :
-                metric === "effort" ? "Total Effort" : "Best Time";
+                metric === "e1rm" ? "Estimated 1RM" :
+                metric === "effort" ? "Total Effort" :
+                metric === "rpe" ? "Average RPE" : "Best Time";
 
   const formatTooltip = (value: number) => {
     if (metric === "time") return formatTime(value);
     if (metric === "effort") return value.toLocaleString();
-    return `${value} lbs`;
+    if (metric === "rpe") return `RPE ${value}`;
+    return `${value} ${unit}`;
   };
 
   return (
@@ -482,6 +726,50 @@ function ProgressChart({ data, metric }: {
   );
 }
 
+function FormulaToggle({ value, onChange }: { value: OneRepMaxFormula; onChange: (f: OneRepMaxFormula) => void }) {
+  return (
+    <div className="flex gap-1 rounded-lg bg-muted p-1 w-fit">
+      {(["epley", "brzycki"] as const).map(f => (
+        <button
+          key={f}
+          onClick={() => onChange(f)}
+          className={`px-3 py-1 rounded-md text-xs font-medium capitalize transition-colors ${
+            value === f
+              ? "bg-background text-foreground shadow-sm"
+              : "text-muted-foreground hover:text-foreground"
+          }`}
+          data-testid={`button-formula-${f}`}
+        >
+          {f}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Heaviest weight lifted for at least N reps, all time
+function RepRangePrs({ records }: { records: RepRangePr[] }) {
+  if (!records.some(r => r.weight !== null)) return null;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Trophy className="h-4 w-4 text-primary" />
+        <h3 className="font-medium">Rep-Range PRs</h3>
+      </div>
+      <div className="grid grid-cols-5 gap-2 text-center">
+        {records.map(r => (
+          <div key={r.reps} className="rounded-lg bg-muted/50 p-2" data-testid={`rep-pr-${r.reps}`}>
+            <p className="text-xs text-muted-foreground">{r.reps}RM</p>
+            <p className="font-semibold text-sm">{r.weight !== null ? r.weight : "—"}</p>
+            {r.date && <p className="text-[10px] text-muted-foreground">{format(parseISO(r.date), "MMM d")}</p>}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
 function ComparisonChart({
   dataA,
   dataB,
@@ -493,6 +781,7 @@ function ComparisonChart({
   nameA: string;
   nameB: string;
 }) {
+  const unit = useWeightUnit();
   // Merge both series on a shared date axis
   const allDates = Array.from(
     new Set([...dataA.map(d => d.date), ...dataB.map(d => d.date)])
@@ -523,7 +812,7 @@ function ComparisonChart({
               tickFormatter={v => `${v}`} />
             <Tooltip
               formatter={(value: number, key: string) => [
-                `${value} lbs`,
+                `${value} ${unit}`,
                 key === "a" ? nameA : nameB,
               ]}
               {...CHART_STYLE}
@@ -549,8 +838,10 @@ function ComparisonChart({
 // ============================================================
 
 function TrainingTab() {
+  const unit = useWeightUnit();
   const [timeRange, setTimeRange] = useState<TimeRange>("3mo");
   const [compareMode, setCompareMode] = useState(false);
+  const [formula, setFormula] = useState<OneRepMaxFormula>("epley");
 
   // Primary exercise
   const [selectedExercise, setSelectedExercise] = useState<string>("");
@@ -565,7 +856,15 @@ function TrainingTab() {
   });
 
   const { data: prs } = useQuery<PrEntry[]>({
-    queryKey: ["/api/analytics/prs"],
+    queryKey: ["/api/analytics/prs", formula],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/prs?formula=${formula}`, { credentials: "include" });
+      return res.json();
+    },
+  });
+
+  const { data: muscleSets } = useQuery<MuscleSetsData>({
+    queryKey: ["/api/analytics/muscle-sets"],
   });
 
   const { data: volumeData, isLoading: volumeLoading } = useQuery<VolumeData[]>({
@@ -592,19 +891,32 @@ function TrainingTab() {
     },
   });
 
+  const { data: restData, isLoading: restLoading } = useQuery<RestDiscipline[]>({
+    queryKey: ["/api/analytics/rest-discipline", timeRange],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/rest-discipline?range=${timeRange}`, { credentials: "include" });
+      return res.json();
+    },
+  });
+
   const { data: exercises, isLoading: exercisesLoading } = useQuery<Exercise[]>({
     queryKey: ["/api/exercises/performed"],
   });
 
   const { data: analytics, isLoading: analyticsLoading } = useQuery<AnalyticsData[]>({
-    queryKey: [`/api/analytics/exercise/${selectedExercise}`, timeRange],
+    queryKey: [`/api/analytics/exercise/${selectedExercise}`, timeRange, formula],
     queryFn: async () => {
-      const res = await fetch(`/api/analytics/exercise/${selectedExercise}?range=${timeRange}`, { credentials: "include" });
+      const res = await fetch(`/api/analytics/exercise/${selectedExercise}?range=${timeRange}&formula=${formula}`, { credentials: "include" });
       return res.json();
     },
     enabled: !!selectedExercise,
   });
 
+  const { data: repRangePrs } = useQuery<RepRangePr[]>({
+    queryKey: [`/api/analytics/exercise/${selectedExercise}/rep-prs`],
+    enabled: !!selectedExercise && !compareMode,
+  });
+
   const { data: compareAnalytics } = useQuery<AnalyticsData[]>({
     queryKey: [`/api/analytics/exercise/${compareExercise}`, timeRange],
     queryFn: async () => {
@@ -615,11 +927,14 @@ function TrainingTab() {
   });
 
   const hasWeightData = analytics?.some(d => d.maxWeight !== null && d.maxWeight > 0);
+  const hasE1rmData = analytics?.some(d => d.estimated1RM !== null && d.estimated1RM > 0);
   const hasTimeData = analytics?.some(d => d.bestTime !== null && d.bestTime > 0);
   const hasEffortData = analytics?.some(d => d.totalEffort !== null && d.totalEffort > 0);
+  const hasRpeData = analytics?.some(d => d.avgRpe !== null && d.avgRpe > 0);
 
   const latestMaxWeight = analytics?.length ? analytics[analytics.length - 1].maxWeight : null;
   const allTimeMaxWeight = analytics?.reduce((max, d) => Math.max(max, d.maxWeight || 0), 0) || null;
+  const bestE1rm = analytics?.reduce((max, d) => Math.max(max, d.estimated1RM || 0), 0) || null;
   const latestEffort = analytics?.length ? analytics[analytics.length - 1].totalEffort : null;
   const bestTime = analytics?.reduce((best, d) => {
     if (d.bestTime === null) return best;
@@ -635,6 +950,9 @@ function TrainingTab() {
       {/* PRs feed (JEF-27) */}
       {prs && prs.length > 0 && <PrsFeed prs={prs} />}
 
+      {/* Weekly hard sets per muscle vs. target ranges */}
+      {muscleSets && <MuscleSetsCard data={muscleSets} />}
+
       {/* Range-filtered charts */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -656,6 +974,11 @@ function TrainingTab() {
         {!sessionLoading && sessionData && sessionData.length > 0 && (
           <SessionDurationChart data={sessionData} />
         )}
+
+        {/* Actual vs planned rest */}
+        {!restLoading && restData && restData.length > 0 && (
+          <RestDisciplineChart data={restData} />
+        )}
       </div>
 
       {/* Exercise analytics */}
@@ -762,10 +1085,13 @@ function TrainingTab() {
               <div className="grid grid-cols-2 gap-3">
                 {hasWeightData && (
                   <>
-                    <MetricCard title="All-Time Max" value={`${allTimeMaxWeight} lbs`} icon={Weight} />
-                    <MetricCard title="Latest Max" value={latestMaxWeight ? `${latestMaxWeight} lbs` : "—"} icon={Dumbbell} />
+                    <MetricCard title="All-Time Max" value={`${allTimeMaxWeight} ${unit}`} icon={Weight} />
+                    <MetricCard title="Latest Max" value={latestMaxWeight ? `${latestMaxWeight} ${unit}` : "—"} icon={Dumbbell} />
                   </>
                 )}
+                {hasE1rmData && (
+                  <MetricCard title="Best e1RM" value={`${bestE1rm} ${unit}`} subtitle={formula === "epley" ? "Epley" : "Brzycki"} icon={Flame} />
+                )}
                 {hasTimeData && (
                   <MetricCard title="Best Time" value={bestTime ? formatTime(bestTime) : "—"} icon={Timer} />
                 )}
@@ -775,8 +1101,19 @@ function TrainingTab() {
                 <MetricCard title="Sessions" value={totalSessions.toString()} subtitle="in range" icon={BarChart3} />
               </div>
               {hasWeightData && <ProgressChart data={analytics} metric="weight" />}
+              {hasE1rmData && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-muted-foreground">e1RM formula</p>
+                    <FormulaToggle value={formula} onChange={setFormula} />
+                  </div>
+                  <ProgressChart data={analytics} metric="e1rm" />
+                </div>
+              )}
+              {repRangePrs && <RepRangePrs records={repRangePrs} />}
               {hasEffortData && <ProgressChart data={analytics} metric="effort" />}
               {hasTimeData && <ProgressChart data={analytics} metric="time" />}
+              {hasRpeData && <ProgressChart data={analytics} metric="rpe" />}
             </div>
           )
         )}
@@ -790,6 +1127,7 @@ function TrainingTab() {
 // ============================================================
 
 function WeightTab() {
+  const unit = useWeightUnit();
   const [timeRange, setTimeRange] = useState<TimeRange>("3mo");
 
   const { data: weightLogs, isLoading } = useQuery<BodyWeightLog[]>({
@@ -813,22 +1151,24 @@ function WeightTab() {
     return sorted.filter(l => new Date(l.loggedAt ?? 0) >= cutoffs[timeRange]);
   })();
 
+  const weights = filtered.map(l => roundWeight(convertWeight(Number(l.weightLbs), "lbs", unit)));
+
   const chartData = filtered.map((log, i) => {
     const start = Math.max(0, i - 6);
-    const window = filtered.slice(start, i + 1);
-    const ma = window.reduce((sum, l) => sum + Number(l.weightLbs), 0) / window.length;
+    const window = weights.slice(start, i + 1);
+    const ma = window.reduce((sum, w) => sum + w, 0) / window.length;
     return {
       date: format(new Date(log.loggedAt ?? 0), "MMM d"),
-      weight: Number(log.weightLbs),
+      weight: weights[i],
       ma: window.length >= 3 ? Math.round(ma * 10) / 10 : undefined,
     };
   });
 
-  const current = filtered.length ? Number(filtered[filtered.length - 1].weightLbs) : null;
-  const first = filtered.length ? Number(filtered[0].weightLbs) : null;
+  const current = weights.length ? weights[weights.length - 1] : null;
+  const first = weights.length ? weights[0] : null;
   const change = current !== null && first !== null ? Math.round((current - first) * 10) / 10 : null;
-  const min = filtered.length ? Math.min(...filtered.map(l => Number(l.weightLbs))) : null;
-  const max = filtered.length ? Math.max(...filtered.map(l => Number(l.weightLbs))) : null;
+  const min = weights.length ? Math.min(...weights) : null;
+  const max = weights.length ? Math.max(...weights) : null;
 
   return (
     <div className="space-y-4">
@@ -844,16 +1184,16 @@ function WeightTab() {
       ) : (
         <div className="space-y-4">
           <div className="grid grid-cols-2 gap-3">
-            <MetricCard title="Current" value={current ? `${current} lbs` : "—"} icon={Weight} />
+            <MetricCard title="Current" value={current ? `${current} ${unit}` : "—"} icon={Weight} />
             <MetricCard
               title="Net Change"
-              value={change !== null ? `${change > 0 ? "+" : ""}${change} lbs` : "—"}
+              value={change !== null ? `${change > 0 ? "+" : ""}${change} ${unit}` : "—"}
               subtitle="vs. start of range"
               icon={change !== null && change > 0 ? TrendingUp : TrendingDown}
               trend={change !== null ? (change > 0 ? "up" : "down") : null}
             />
-            <MetricCard title="Low" value={min ? `${min} lbs` : "—"} icon={TrendingDown} />
-            <MetricCard title="High" value={max ? `${max} lbs` : "—"} icon={TrendingUp} />
+            <MetricCard title="Low" value={min ? `${min} ${unit}` : "—"} icon={TrendingDown} />
+            <MetricCard title="High" value={max ? `${max} ${unit}` : "—"} icon={TrendingUp} />
           </div>
 
           <Card className="p-4">
@@ -867,7 +1207,7 @@ function WeightTab() {
                     domain={["auto", "auto"]} tickFormatter={v => `${v}`} />
                   <Tooltip
                     formatter={(value: number, name: string) => [
-                      `${value} lbs`,
+                      `${value} ${unit}`,
                       name === "weight" ? "Weight" : "7-day avg",
                     ]}
                     {...CHART_STYLE}
@@ -13,6 +13,7 @@ import { ArrowLeft, Plus, Dumbbell, ChevronUp, ChevronDown, Trash2, Search, Repe
 import { Badge } from "@/components/ui/badge";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { formatCircuitFormat } from "@/lib/utils";
 import type { Circuit, CircuitExercise, Exercise } from "@shared/schema";
 
 interface CircuitExerciseWithDetails extends CircuitExercise {
@@ -152,6 +153,9 @@ export default function CircuitDetail() {
               <span className="text-sm text-muted-foreground">
                 {circuit.rounds} {circuit.rounds === 1 ? "round" : "rounds"}
               </span>
+              {circuit.format !== "standard" && (
+                <span className="text-sm text-muted-foreground">{formatCircuitFormat(circuit.format)}</span>
+              )}
               {circuit.restBetweenExercisesSeconds && (
                 <span className="text-sm text-muted-foreground">
                   {circuit.restBetweenExercisesSeconds}s rest
@@ -292,7 +296,7 @@ export default function CircuitDetail() {
                           }
                         }}
                       />
-                      <span className="text-xs text-muted-foreground">lbs</span>
+                      <span className="text-xs text-muted-foreground">{ce.exercise?.weightUnit ?? "lbs"}</span>
                     </div>
                     <div className="flex items-center gap-1">
                       <Input
@@ -318,7 +322,7 @@ export default function CircuitDetail() {
                     <span>Defaults:</span>
                     <span>{ce.defaultReps ? `${ce.defaultReps} reps` : "—"}</span>
                     <span>·</span>
-                    <span>{ce.defaultWeight ? `${ce.defaultWeight} lbs` : "—"}</span>
+                    <span>{ce.defaultWeight ? `${ce.defaultWeight} ${ce.exercise?.weightUnit ?? "lbs"}` : "—"}</span>
                     <span>·</span>
                     <span>{ce.defaultTimeSeconds ? `${ce.defaultTimeSeconds}s` : "—"}</span>
                   </div>
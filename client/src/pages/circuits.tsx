@@ -16,16 +16,36 @@ import { Badge } from "@/components/ui/badge";
 import { Link, useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Circuit } from "@shared/schema";
+import { formatCircuitFormat } from "@/lib/utils";
+import { circuitFormats, type Circuit, type CircuitFormat } from "@shared/schema";
 
 const circuitCategories = [
   "Strength", "HIIT", "Superset", "EMOM", "Tabata", "Cardio", "Other"
 ];
 
+const formatDescriptions: Record<CircuitFormat, string> = {
+  standard: "Move on when each exercise is done, with the rests below",
+  emom: "Start the next exercise every interval; what's left of it is rest",
+  tabata: "Alternate timed work and rest intervals",
+  amrap: "As many rounds as possible before the time cap",
+};
+
 interface CircuitWithCount extends Circuit {
   exerciseCount?: number;
 }
 
+type CircuitFormData = {
+  name: string;
+  category?: string;
+  rounds: number;
+  format: CircuitFormat;
+  intervalSeconds?: number | null;
+  timeCapSeconds?: number | null;
+  restBetweenExercisesSeconds?: number | null;
+  restBetweenRoundsSeconds?: number | null;
+  notes?: string;
+};
+
 export default function Circuits() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
@@ -37,6 +57,9 @@ export default function Circuits() {
   const [formRounds, setFormRounds] = useState("1");
   const [formRestBetweenExercises, setFormRestBetweenExercises] = useState("");
   const [formRestBetweenRounds, setFormRestBetweenRounds] = useState("");
+  const [formFormat, setFormFormat] = useState<CircuitFormat>("standard");
+  const [formInterval, setFormInterval] = useState("");
+  const [formTimeCap, setFormTimeCap] = useState("");
   const [formNotes, setFormNotes] = useState("");
 
   const { data: circuits, isLoading } = useQuery<CircuitWithCount[]>({
@@ -49,7 +72,7 @@ export default function Circuits() {
   );
 
   const createCircuitMutation = useMutation({
-    mutationFn: async (data: { name: string; category?: string; rounds: number; restBetweenExercisesSeconds?: number; restBetweenRoundsSeconds?: number; notes?: string }) => {
+    mutationFn: async (data: CircuitFormData) => {
       return await apiRequest("POST", "/api/circuits", data) as Circuit;
     },
     onSuccess: (circuit) => {
@@ -63,7 +86,7 @@ export default function Circuits() {
   });
 
   const updateCircuitMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { name: string; category?: string; rounds: number; restBetweenExercisesSeconds?: number | null; restBetweenRoundsSeconds?: number | null; notes?: string } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: CircuitFormData }) => {
       return await apiRequest("PATCH", `/api/circuits/${id}`, data);
     },
     onSuccess: () => {
@@ -110,6 +133,9 @@ export default function Circuits() {
     setFormRounds("1");
     setFormRestBetweenExercises("");
     setFormRestBetweenRounds("");
+    setFormFormat("standard");
+    setFormInterval("");
+    setFormTimeCap("");
     setFormNotes("");
   };
 
@@ -120,6 +146,9 @@ export default function Circuits() {
     setFormRounds(String(circuit.rounds));
     setFormRestBetweenExercises(circuit.restBetweenExercisesSeconds ? String(circuit.restBetweenExercisesSeconds) : "");
     setFormRestBetweenRounds(circuit.restBetweenRoundsSeconds ? String(circuit.restBetweenRoundsSeconds) : "");
+    setFormFormat(circuit.format);
+    setFormInterval(circuit.intervalSeconds ? String(circuit.intervalSeconds) : "");
+    setFormTimeCap(circuit.timeCapSeconds ? String(Math.round(circuit.timeCapSeconds / 60)) : "");
     setFormNotes(circuit.notes || "");
     setDialogOpen(true);
   };
@@ -129,6 +158,10 @@ export default function Circuits() {
       name: formName,
       category: formCategory || undefined,
       rounds: parseInt(formRounds) || 1,
+      format: formFormat,
+      // Timings that don't apply to the format are cleared
+      intervalSeconds: (formFormat === "emom" || formFormat === "tabata") && formInterval ? parseInt(formInterval) : null,
+      timeCapSeconds: formFormat === "amrap" && formTimeCap ? Math.round(parseFloat(formTimeCap) * 60) : null,
       restBetweenExercisesSeconds: formRestBetweenExercises ? parseInt(formRestBetweenExercises) : undefined,
       restBetweenRoundsSeconds: formRestBetweenRounds ? parseInt(formRestBetweenRounds) : undefined,
       notes: formNotes || undefined,
@@ -207,6 +240,50 @@ export default function Circuits() {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="circuit-format">Format</Label>
+                <Select value={formFormat} onValueChange={(value) => setFormFormat(value as CircuitFormat)}>
+                  <SelectTrigger id="circuit-format" data-testid="select-circuit-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {circuitFormats.map((format) => (
+                      <SelectItem key={format} value={format}>{formatCircuitFormat(format)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{formatDescriptions[formFormat]}</p>
+              </div>
+              {(formFormat === "emom" || formFormat === "tabata") && (
+                <div className="space-y-2">
+                  <Label htmlFor="circuit-interval" className="text-xs">
+                    {formFormat === "emom" ? "Interval (seconds)" : "Work Interval (seconds)"}
+                  </Label>
+                  <Input
+                    id="circuit-interval"
+                    type="number"
+                    min="1"
+                    placeholder={formFormat === "emom" ? "60" : "20"}
+                    value={formInterval}
+                    onChange={(e) => setFormInterval(e.target.value)}
+                    data-testid="input-circuit-interval"
+                  />
+                </div>
+              )}
+              {formFormat === "amrap" && (
+                <div className="space-y-2">
+                  <Label htmlFor="circuit-time-cap" className="text-xs">Time Cap (minutes)</Label>
+                  <Input
+                    id="circuit-time-cap"
+                    type="number"
+                    min="1"
+                    placeholder="10"
+                    value={formTimeCap}
+                    onChange={(e) => setFormTimeCap(e.target.value)}
+                    data-testid="input-circuit-time-cap"
+                  />
+                </div>
+              )}
               <div className="grid grid-cols-3 gap-3">
                 <div className="space-y-2">
                   <Label htmlFor="circuit-rounds" className="text-xs"># of Rounds</Label>
@@ -219,12 +296,14 @@ export default function Circuits() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="circuit-rest-exercises" className="text-xs">Rest Between Exercises</Label>
+                  <Label htmlFor="circuit-rest-exercises" className="text-xs">
+                    {formFormat === "tabata" ? "Rest Interval" : "Rest Between Exercises"}
+                  </Label>
                   <Input
                     id="circuit-rest-exercises"
                     type="number"
                     min="0"
-                    placeholder="0"
+                    placeholder={formFormat === "tabata" ? "10" : "0"}
                     value={formRestBetweenExercises}
                     onChange={(e) => setFormRestBetweenExercises(e.target.value)}
                   />
@@ -293,6 +372,9 @@ export default function Circuits() {
                         <span className="text-xs text-muted-foreground">
                           {circuit.rounds} {circuit.rounds === 1 ? "round" : "rounds"}
                         </span>
+                        {circuit.format !== "standard" && (
+                          <span className="text-xs text-muted-foreground">{formatCircuitFormat(circuit.format)}</span>
+                        )}
                       </div>
                     </div>
                   </Link>
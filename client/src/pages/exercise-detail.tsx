@@ -1,13 +1,19 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute, Link } from "wouter";
 import { AppLayout } from "@/components/app-layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { PageSkeleton, ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
-import { ArrowLeft, Dumbbell, TrendingUp, History, Clock, ExternalLink } from "lucide-react";
+import { ArrowLeft, Dumbbell, TrendingUp, History, Clock, ExternalLink, Target, Edit } from "lucide-react";
 import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatMuscle, formatSetType } from "@/lib/utils";
 import type { Exercise, PerformedSet, WorkoutSession } from "@shared/schema";
 
 interface SetWithSession extends PerformedSet {
@@ -22,9 +28,20 @@ interface ExerciseWithHistory extends Exercise {
   history?: SetWithSession[];
 }
 
+interface TrainingMaxEntry {
+  id: string;
+  exerciseId: string;
+  weight: string;
+  roundingIncrement: string;
+}
+
 export default function ExerciseDetail() {
   const [, params] = useRoute("/exercise/:id");
   const exerciseId = params?.id;
+  const { toast } = useToast();
+  const [editingMax, setEditingMax] = useState(false);
+  const [maxWeight, setMaxWeight] = useState("");
+  const [maxIncrement, setMaxIncrement] = useState("5");
 
   const { data: exercise, isLoading } = useQuery<ExerciseWithHistory>({
     queryKey: ["/api/exercises", exerciseId],
@@ -36,6 +53,45 @@ export default function ExerciseDetail() {
     enabled: !!exerciseId,
   });
 
+  const { data: trainingMaxes } = useQuery<TrainingMaxEntry[]>({
+    queryKey: ["/api/training-maxes"],
+  });
+  const trainingMax = trainingMaxes?.find(m => m.exerciseId === exerciseId);
+
+  const saveMaxMutation = useMutation({
+    mutationFn: async (data: { weight: string; roundingIncrement: string }) => {
+      return await apiRequest("PUT", `/api/training-maxes/${exerciseId}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/training-maxes"] });
+      setEditingMax(false);
+      toast({ title: "Training max saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save training max", variant: "destructive" });
+    },
+  });
+
+  const deleteMaxMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/training-maxes/${exerciseId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/training-maxes"] });
+      setEditingMax(false);
+      toast({ title: "Training max removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove training max", variant: "destructive" });
+    },
+  });
+
+  const startEditingMax = () => {
+    setMaxWeight(trainingMax ? String(Number(trainingMax.weight)) : "");
+    setMaxIncrement(trainingMax ? String(Number(trainingMax.roundingIncrement)) : "5");
+    setEditingMax(true);
+  };
+
   if (isLoading) {
     return (
       <AppLayout>
@@ -56,6 +112,8 @@ export default function ExerciseDetail() {
     );
   }
 
+  // Training maxes are in the exercise's unit; sets record the unit they were logged in
+  const unit = exercise.weightUnit ?? "lbs";
   const lastSession = exerciseHistory?.[0];
   const groupedHistory = exerciseHistory?.reduce((acc, set) => {
     const sessionId = (set as any).sessionId;
@@ -106,6 +164,16 @@ export default function ExerciseDetail() {
             {exercise.category && (
               <Badge variant="secondary" className="mt-1">{exercise.category}</Badge>
             )}
+            {((exercise.primaryMuscles?.length ?? 0) > 0 || (exercise.secondaryMuscles?.length ?? 0) > 0) && (
+              <div className="flex flex-wrap gap-1 mt-2" data-testid="text-exercise-muscles">
+                {exercise.primaryMuscles?.map(m => (
+                  <Badge key={m} className="text-xs">{formatMuscle(m)}</Badge>
+                ))}
+                {exercise.secondaryMuscles?.map(m => (
+                  <Badge key={m} variant="outline" className="text-xs">{formatMuscle(m)}</Badge>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -124,6 +192,80 @@ export default function ExerciseDetail() {
           </Button>
         )}
 
+        <Card className="p-4 space-y-3" data-testid="card-training-max">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <Target className="h-5 w-5 text-primary" />
+              <div>
+                <p className="font-medium">Training Max</p>
+                <p className="text-xs text-muted-foreground">
+                  {trainingMax
+                    ? `${Number(trainingMax.weight)} ${unit} · rounds to ${Number(trainingMax.roundingIncrement)} ${unit}`
+                    : "Used by percentage-based sets in templates"}
+                </p>
+              </div>
+            </div>
+            {!editingMax && (
+              <Button variant="ghost" size="sm" onClick={startEditingMax} data-testid="button-edit-training-max">
+                <Edit className="h-4 w-4 mr-1" />
+                {trainingMax ? "Edit" : "Set"}
+              </Button>
+            )}
+          </div>
+          {editingMax && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Weight ({unit})</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={maxWeight}
+                    onChange={(e) => setMaxWeight(e.target.value)}
+                    data-testid="input-training-max"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Round to ({unit})</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={maxIncrement}
+                    onChange={(e) => setMaxIncrement(e.target.value)}
+                    data-testid="input-training-max-increment"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => saveMaxMutation.mutate({ weight: maxWeight, roundingIncrement: maxIncrement || "0" })}
+                  disabled={!maxWeight || saveMaxMutation.isPending}
+                  data-testid="button-save-training-max"
+                >
+                  Save
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditingMax(false)}>
+                  Cancel
+                </Button>
+                {trainingMax && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="ml-auto text-destructive"
+                    onClick={() => deleteMaxMutation.mutate()}
+                    disabled={deleteMaxMutation.isPending}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </Card>
+
         <div className="space-y-3">
           <h2 className="font-semibold text-lg flex items-center gap-2">
             <TrendingUp className="h-5 w-5 text-primary" />
@@ -141,7 +283,7 @@ export default function ExerciseDetail() {
                     <span className="text-muted-foreground">Set {set.setNumber}</span>
                     <div className="flex items-center gap-3">
                       {set.actualWeight && (
-                        <span className="font-semibold">{set.actualWeight} lbs</span>
+                        <span className="font-semibold">{set.actualWeight} {set.weightUnit ?? unit}</span>
                       )}
                       {set.actualReps && (
                         <span>{set.actualReps} reps</span>
@@ -149,8 +291,8 @@ export default function ExerciseDetail() {
                       {set.actualTimeSeconds && (
                         <span>{set.actualTimeSeconds}s</span>
                       )}
-                      {set.isWarmup && (
-                        <Badge variant="secondary" className="text-xs">warmup</Badge>
+                      {set.setType !== "normal" && (
+                        <Badge variant="secondary" className="text-xs">{formatSetType(set.setType)}</Badge>
                       )}
                     </div>
                   </div>
@@ -187,7 +329,7 @@ export default function ExerciseDetail() {
                         <div key={set.id} className="flex items-center justify-between text-sm">
                           <span className="text-muted-foreground text-xs">#{set.setNumber}</span>
                           <div className="flex items-center gap-2 text-xs">
-                            {set.actualWeight && <span>{set.actualWeight} lbs</span>}
+                            {set.actualWeight && <span>{set.actualWeight} {set.weightUnit ?? unit}</span>}
                             {set.actualReps && <span>× {set.actualReps}</span>}
                           </div>
                         </div>
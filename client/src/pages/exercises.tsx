@@ -16,7 +16,9 @@ import { Badge } from "@/components/ui/badge";
 import { Link, useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Exercise } from "@shared/schema";
+import { useWeightUnit } from "@/hooks/use-weight-unit";
+import { formatMuscle, formatEquipment } from "@/lib/utils";
+import { muscleGroups, equipmentTypes, type Exercise, type MuscleGroup, type EquipmentType } from "@shared/schema";
 
 const categories = [
   "Chest", "Arms", "Back", "Legs", "Core", "Cardio", "Other"
@@ -52,6 +54,7 @@ function inferExerciseType(
 export default function Exercises() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const preferredUnit = useWeightUnit();
   const [searchQuery, setSearchQuery] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
@@ -60,9 +63,12 @@ export default function Exercises() {
   const [formNotes, setFormNotes] = useState("");
   const [formUrl, setFormUrl] = useState("");
   const [formExerciseType, setFormExerciseType] = useState<ExerciseType>("weight-reps");
-  const [formWeightUnit, setFormWeightUnit] = useState("lbs");
+  const [formWeightUnit, setFormWeightUnit] = useState<string>(preferredUnit);
   const [formDistanceUnit, setFormDistanceUnit] = useState("mi");
   const [formTimeUnit, setFormTimeUnit] = useState("sec");
+  const [formPrimaryMuscles, setFormPrimaryMuscles] = useState<MuscleGroup[]>([]);
+  const [formSecondaryMuscles, setFormSecondaryMuscles] = useState<MuscleGroup[]>([]);
+  const [formEquipment, setFormEquipment] = useState<EquipmentType | "">("");
 
   const { data: exercises, isLoading } = useQuery<Exercise[]>({
     queryKey: ["/api/exercises"],
@@ -135,9 +141,12 @@ export default function Exercises() {
     setFormNotes("");
     setFormUrl("");
     setFormExerciseType("weight-reps");
-    setFormWeightUnit("lbs");
+    setFormWeightUnit(preferredUnit);
     setFormDistanceUnit("mi");
     setFormTimeUnit("sec");
+    setFormPrimaryMuscles([]);
+    setFormSecondaryMuscles([]);
+    setFormEquipment("");
   };
 
   const openEditDialog = (exercise: Exercise) => {
@@ -150,9 +159,30 @@ export default function Exercises() {
     setFormWeightUnit(exercise.weightUnit || "lbs");
     setFormDistanceUnit(exercise.distanceUnit || "mi");
     setFormTimeUnit(exercise.timeUnit || "sec");
+    setFormPrimaryMuscles(exercise.primaryMuscles || []);
+    setFormSecondaryMuscles(exercise.secondaryMuscles || []);
+    setFormEquipment(exercise.equipment || "");
     setDialogOpen(true);
   };
 
+  // New exercises start in the preferred unit, which may have loaded after the form state
+  const openNewExercise = () => {
+    setFormWeightUnit(preferredUnit);
+    setDialogOpen(true);
+  };
+
+  // Tapping a muscle cycles it: not worked -> primary -> secondary -> not worked
+  const cycleMuscle = (muscle: MuscleGroup) => {
+    if (formPrimaryMuscles.includes(muscle)) {
+      setFormPrimaryMuscles(prev => prev.filter(m => m !== muscle));
+      setFormSecondaryMuscles(prev => [...prev, muscle]);
+    } else if (formSecondaryMuscles.includes(muscle)) {
+      setFormSecondaryMuscles(prev => prev.filter(m => m !== muscle));
+    } else {
+      setFormPrimaryMuscles(prev => [...prev, muscle]);
+    }
+  };
+
   const handleCategoryChange = (cat: string) => {
     setFormCategory(cat);
     if (cat === "Cardio") {
@@ -171,6 +201,9 @@ export default function Exercises() {
       weightUnit:   tracking.weight   ? formWeightUnit   : undefined,
       distanceUnit: tracking.distance ? formDistanceUnit : undefined,
       timeUnit:     tracking.time     ? formTimeUnit     : undefined,
+      primaryMuscles: formPrimaryMuscles,
+      secondaryMuscles: formSecondaryMuscles,
+      equipment: tracking.weight && formEquipment ? formEquipment : null,
     };
 
     if (editingExercise) {
@@ -208,7 +241,7 @@ export default function Exercises() {
 
         <Dialog open={dialogOpen} onOpenChange={(open) => !open && resetForm()}>
           <DialogTrigger asChild>
-            <Button className="w-full" onClick={() => setDialogOpen(true)} data-testid="button-new-exercise">
+            <Button className="w-full" onClick={openNewExercise} data-testid="button-new-exercise">
               <Plus className="h-4 w-4 mr-2" />
               Add Exercise
             </Button>
@@ -268,6 +301,22 @@ export default function Exercises() {
                   </Select>
                 </div>
               )}
+              {formExerciseType === "weight-reps" && (
+                <div className="space-y-2">
+                  <Label>Equipment</Label>
+                  <Select value={formEquipment} onValueChange={(v) => setFormEquipment(v as EquipmentType)}>
+                    <SelectTrigger data-testid="select-equipment">
+                      <SelectValue placeholder="Select equipment" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {equipmentTypes.map((equipment) => (
+                        <SelectItem key={equipment} value={equipment}>{formatEquipment(equipment)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Target weights round to what this can load</p>
+                </div>
+              )}
               {(formExerciseType === "distance-time" || formExerciseType === "distance-only") && (
                 <div className="space-y-2">
                   <Label>Distance Unit</Label>
@@ -296,6 +345,27 @@ export default function Exercises() {
                   </Select>
                 </div>
               )}
+              <div className="space-y-2">
+                <Label>Muscles Worked</Label>
+                <p className="text-xs text-muted-foreground">Tap once for primary, twice for secondary</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {muscleGroups.map((muscle) => {
+                    const isPrimary = formPrimaryMuscles.includes(muscle);
+                    const isSecondary = formSecondaryMuscles.includes(muscle);
+                    return (
+                      <Badge
+                        key={muscle}
+                        variant={isPrimary ? "default" : isSecondary ? "secondary" : "outline"}
+                        className="cursor-pointer select-none"
+                        onClick={() => cycleMuscle(muscle)}
+                        data-testid={`badge-muscle-${muscle}`}
+                      >
+                        {formatMuscle(muscle)}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="ex-url">Reference URL (optional)</Label>
                 <Input
@@ -409,7 +479,7 @@ export default function Exercises() {
             description="Build your exercise library to use in workouts"
             action={{
               label: "Add Exercise",
-              onClick: () => setDialogOpen(true),
+              onClick: openNewExercise,
             }}
           />
         )}
@@ -5,7 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
 import { Button } from "@/components/ui/button";
-import { History as HistoryIcon, Dumbbell, Clock, ChevronRight, BarChart3, Download } from "lucide-react";
+import { History as HistoryIcon, Dumbbell, Clock, ChevronRight, BarChart3, Download, CalendarPlus } from "lucide-react";
 import { Link } from "wouter";
 import { format, formatDistanceToNow } from "date-fns";
 import type { WorkoutSession, WorkoutTemplate } from "@shared/schema";
@@ -31,9 +31,9 @@ export default function History() {
       
       const headers = [
         "Date", "Time", "Workout", "Duration (min)", 
-        "Exercise", "Set #", "Warmup",
-        "Planned Reps", "Planned Weight", "Planned Time (s)", "Rest (s)",
-        "Actual Reps", "Actual Weight", "Actual Time (s)", "Notes"
+        "Exercise", "Set #", "Warmup", "Set Type", "Weight Unit",
+        "Planned Reps", "Planned Weight", "Planned Time (s)", "Planned RPE", "Planned RIR", "Planned Tempo", "Rest (s)",
+        "Actual Reps", "Actual Weight", "Actual Time (s)", "RPE", "RIR", "Tempo", "Notes"
       ];
       
       const rows: string[][] = [];
@@ -51,7 +51,7 @@ export default function History() {
         const timeStr = format(start, "HH:mm");
         
         if (!session.exercises || session.exercises.length === 0) {
-          rows.push([dateStr, timeStr, workoutName, duration, "", "", "", "", "", "", "", "", "", "", ""]);
+          rows.push([dateStr, timeStr, workoutName, duration, ...Array(headers.length - 4).fill("")]);
         } else {
           for (const exercise of session.exercises) {
             const maxSets = Math.max(
@@ -72,13 +72,21 @@ export default function History() {
                 exercise.exerciseName,
                 (i + 1).toString(),
                 performed?.isWarmup ? "Yes" : (planned?.isWarmup ? "Yes" : "No"),
+                performed?.setType || planned?.setType || "",
+                exercise.weightUnit || "",
                 planned?.targetReps?.toString() || "",
                 planned?.targetWeight || "",
                 planned?.targetTimeSeconds?.toString() || "",
+                planned?.targetRpe || "",
+                planned?.targetRir?.toString() ?? "",
+                planned?.targetTempo || "",
                 planned?.restSeconds?.toString() || "",
                 performed?.actualReps?.toString() || "",
                 performed?.actualWeight || "",
                 performed?.actualTimeSeconds?.toString() || "",
+                performed?.actualRpe || "",
+                performed?.actualRir?.toString() ?? "",
+                performed?.actualTempo || "",
                 performed?.notes || ""
               ]);
             }
@@ -133,6 +141,12 @@ export default function History() {
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
+            <Link href="/history/log">
+              <Button variant="outline" size="sm" data-testid="button-log-past-workout">
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Log Past
+              </Button>
+            </Link>
             <Link href="/analytics">
               <Button variant="outline" size="sm" data-testid="button-analytics">
                 <BarChart3 className="h-4 w-4 mr-2" />
@@ -0,0 +1,452 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, Link } from "wouter";
+import { AppLayout } from "@/components/app-layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Plus, Search, Trash2, X, Repeat } from "lucide-react";
+import { format, subDays } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { SetTypeSelect } from "@/components/set-type-select";
+import { resolvePercentTarget, toStoredSeconds, fromStoredSeconds } from "@/lib/utils";
+import { getEquipmentProfile, loadingEquipment, roundToLoadable } from "@shared/equipment";
+import type { WorkoutSession, WorkoutTemplate, WorkoutTemplateExercise, PlannedSet, Exercise, SetType, UserSettings } from "@shared/schema";
+
+interface TemplateWithExercises extends WorkoutTemplate {
+  exercises?: (WorkoutTemplateExercise & { exercise?: Exercise; plannedSets?: PlannedSet[] })[];
+}
+
+interface TrainingMaxEntry {
+  exerciseId: string;
+  weight: string;
+  roundingIncrement: string;
+}
+
+// Time is entered in the exercise's time unit
+type SetForm = {
+  weight: string;
+  reps: string;
+  time: string;
+  distance: string;
+  rpe: string;
+  setType: SetType;
+};
+
+type ExerciseForm = {
+  key: string;
+  exercise: Exercise;
+  circuitId?: string | null;
+  circuitRound?: number | null;
+  circuitRounds?: number | null;
+  sets: SetForm[];
+};
+
+const emptySet: SetForm = { weight: "", reps: "", time: "", distance: "", rpe: "", setType: "normal" };
+
+const isBlankSet = (set: SetForm) => !set.weight.trim() && !set.reps.trim() && !set.time.trim() && !set.distance.trim();
+
+export default function LogWorkout() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState("none");
+  const [date, setDate] = useState(format(subDays(new Date(), 1), "yyyy-MM-dd"));
+  const [startTime, setStartTime] = useState("18:00");
+  const [endTime, setEndTime] = useState("19:00");
+  const [notes, setNotes] = useState("");
+  const [exercises, setExercises] = useState<ExerciseForm[]>([]);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const { data: templates } = useQuery<WorkoutTemplate[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const { data: allExercises } = useQuery<Exercise[]>({
+    queryKey: ["/api/exercises"],
+  });
+
+  const filteredExercises = allExercises?.filter(e =>
+    e.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    e.category?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  // Choosing a template replaces the form with its exercises, prefilled from the
+  // planned sets. Percentage targets resolve from training maxes as a session would
+  const applyTemplate = async (id: string) => {
+    setTemplateId(id);
+    if (id === "none") return;
+    try {
+      const [template, trainingMaxes, settings] = await Promise.all([
+        queryClient.fetchQuery<TemplateWithExercises>({ queryKey: ["/api/templates", id] }),
+        queryClient.fetchQuery<TrainingMaxEntry[]>({ queryKey: ["/api/training-maxes"] }),
+        queryClient.fetchQuery<UserSettings>({ queryKey: ["/api/settings"] }),
+      ]);
+      const profile = getEquipmentProfile(settings);
+      const targetWeight = (te: WorkoutTemplateExercise & { exercise?: Exercise }, ps: PlannedSet): string => {
+        const max = trainingMaxes.find(m => m.exerciseId === te.exerciseId);
+        if (ps.targetPercent && max) {
+          return String(roundToLoadable(resolvePercentTarget(ps.targetPercent, max), loadingEquipment(te.exercise, profile), profile));
+        }
+        return ps.targetWeight ?? "";
+      };
+      const templateExercises = [...(template.exercises || [])].sort((a, b) => a.position - b.position);
+      setExercises(templateExercises.filter(te => te.exercise).map(te => ({
+        key: crypto.randomUUID(),
+        exercise: te.exercise!,
+        circuitId: te.circuitId,
+        circuitRound: te.circuitRound,
+        circuitRounds: te.circuitRounds,
+        sets: te.plannedSets && te.plannedSets.length > 0
+          ? te.plannedSets.map(ps => ({
+              weight: targetWeight(te, ps),
+              reps: ps.targetReps?.toString() ?? "",
+              time: ps.targetTimeSeconds != null ? fromStoredSeconds(ps.targetTimeSeconds, te.exercise!.timeUnit ?? "sec") : "",
+              distance: ps.targetDistance ? String(Number(ps.targetDistance)) : "",
+              rpe: ps.targetRpe ? String(Number(ps.targetRpe)) : "",
+              setType: ps.setType,
+            }))
+          : [{ ...emptySet }],
+      })));
+    } catch {
+      toast({ title: "Failed to load template", variant: "destructive" });
+    }
+  };
+
+  const addExercise = (exercise: Exercise) => {
+    setExercises([...exercises, { key: crypto.randomUUID(), exercise, sets: [{ ...emptySet }] }]);
+    setPickerOpen(false);
+    setSearchQuery("");
+  };
+
+  const updateExercise = (key: string, update: (ex: ExerciseForm) => ExerciseForm) => {
+    setExercises(exercises.map(ex => ex.key === key ? update(ex) : ex));
+  };
+
+  // New sets copy the previous one, since most sets repeat the last weight and reps
+  const addSet = (key: string) => {
+    updateExercise(key, ex => ({ ...ex, sets: [...ex.sets, { ...(ex.sets[ex.sets.length - 1] || emptySet) }] }));
+  };
+
+  const updateSet = (key: string, index: number, values: Partial<SetForm>) => {
+    updateExercise(key, ex => ({
+      ...ex,
+      sets: ex.sets.map((set, i) => i === index ? { ...set, ...values } : set),
+    }));
+  };
+
+  const startedAt = new Date(`${date}T${startTime}`);
+  const endedAt = new Date(`${date}T${endTime}`);
+  // A workout that runs past midnight ends on the following day
+  if (endedAt < startedAt) endedAt.setDate(endedAt.getDate() + 1);
+
+  const formError = (() => {
+    if (!date || !startTime || !endTime || isNaN(startedAt.getTime()) || isNaN(endedAt.getTime())) {
+      return "Choose a date and times";
+    }
+    if (endedAt.getTime() > Date.now()) return "The workout can't end in the future";
+    if (exercises.length === 0) return "Add at least one exercise";
+    if (exercises.every(ex => ex.sets.every(isBlankSet))) return "Enter at least one set";
+    return null;
+  })();
+
+  const logWorkoutMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<WorkoutSession>("POST", "/api/sessions/backfill", {
+        templateId: templateId === "none" ? null : templateId,
+        startedAt: startedAt.toISOString(),
+        endedAt: endedAt.toISOString(),
+        notes: notes.trim() || null,
+        exercises: exercises.map(ex => ({
+          exerciseId: ex.exercise.id,
+          circuitId: ex.circuitId ?? null,
+          circuitRound: ex.circuitRound ?? null,
+          circuitRounds: ex.circuitRounds ?? null,
+          sets: ex.sets.filter(set => !isBlankSet(set)).map(set => ({
+            actualWeight: set.weight.trim() || null,
+            weightUnit: ex.exercise.weightUnit ?? "lbs",
+            actualReps: set.reps.trim() ? parseInt(set.reps) : null,
+            actualTimeSeconds: set.time.trim() ? toStoredSeconds(set.time, ex.exercise.timeUnit ?? "sec") : null,
+            actualDistance: set.distance.trim() || null,
+            actualRpe: set.rpe.trim() || null,
+            setType: set.setType,
+            isWarmup: set.setType === "warmup",
+          })),
+        })),
+      });
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/range"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/programs/active"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/analytics"),
+      });
+      navigate(`/session/${session.id}/view`);
+      toast({ title: "Workout logged" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to log workout", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/history">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-bold tracking-tight" data-testid="text-page-title">Log Past Workout</h1>
+            <p className="text-sm text-muted-foreground">Add a workout you did without the app</p>
+          </div>
+        </div>
+
+        <Card className="p-4 space-y-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={applyTemplate}>
+              <SelectTrigger data-testid="select-backfill-template">
+                <SelectValue placeholder="No template" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No template (ad-hoc)</SelectItem>
+                {templates?.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="backfill-date">Date</Label>
+              <Input
+                id="backfill-date"
+                type="date"
+                value={date}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setDate(e.target.value)}
+                data-testid="input-backfill-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-start">Start</Label>
+              <Input
+                id="backfill-start"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                data-testid="input-backfill-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-end">End</Label>
+              <Input
+                id="backfill-end"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                data-testid="input-backfill-end"
+              />
+            </div>
+          </div>
+        </Card>
+
+        <div className="space-y-4">
+          <h2 className="font-semibold text-lg">Exercises</h2>
+          {exercises.map((ex) => {
+            const tracking = ex.exercise.defaultTracking || { weight: true, reps: true, time: false, distance: false };
+            return (
+              <Card key={ex.key} className="p-4 space-y-3" data-testid={`card-backfill-exercise-${ex.exercise.id}`}>
+                <div className="flex items-center gap-2">
+                  <p className="font-medium flex-1 truncate">{ex.exercise.name}</p>
+                  {ex.circuitRound && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Repeat className="h-3 w-3" />
+                      Rd {ex.circuitRound}
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setExercises(exercises.filter(e => e.key !== ex.key))}
+                    data-testid={`button-remove-backfill-exercise-${ex.key}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                {ex.sets.map((set, index) => (
+                  <div key={index} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground w-10">#{index + 1}</span>
+                      {tracking.weight && (
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          placeholder={ex.exercise.weightUnit ?? "lbs"}
+                          value={set.weight}
+                          onChange={(e) => updateSet(ex.key, index, { weight: e.target.value })}
+                          data-testid={`input-backfill-weight-${ex.key}-${index}`}
+                        />
+                      )}
+                      {tracking.reps && (
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          placeholder="reps"
+                          value={set.reps}
+                          onChange={(e) => updateSet(ex.key, index, { reps: e.target.value })}
+                          data-testid={`input-backfill-reps-${ex.key}-${index}`}
+                        />
+                      )}
+                      {tracking.time && (
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          placeholder={ex.exercise.timeUnit ?? "sec"}
+                          value={set.time}
+                          onChange={(e) => updateSet(ex.key, index, { time: e.target.value })}
+                          data-testid={`input-backfill-time-${ex.key}-${index}`}
+                        />
+                      )}
+                      {tracking.distance && (
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          placeholder={ex.exercise.distanceUnit ?? "mi"}
+                          value={set.distance}
+                          onChange={(e) => updateSet(ex.key, index, { distance: e.target.value })}
+                          data-testid={`input-backfill-distance-${ex.key}-${index}`}
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="shrink-0"
+                        onClick={() => updateExercise(ex.key, e => ({ ...e, sets: e.sets.filter((_, i) => i !== index) }))}
+                        disabled={ex.sets.length === 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 pl-12 pr-12">
+                      <div className="space-y-1">
+                        <Label htmlFor={`backfill-rpe-${ex.key}-${index}`} className="text-xs">RPE</Label>
+                        <Input
+                          id={`backfill-rpe-${ex.key}-${index}`}
+                          type="number"
+                          inputMode="decimal"
+                          step="0.5"
+                          min="1"
+                          max="10"
+                          placeholder="8"
+                          value={set.rpe}
+                          onChange={(e) => updateSet(ex.key, index, { rpe: e.target.value })}
+                          data-testid={`input-backfill-rpe-${ex.key}-${index}`}
+                        />
+                      </div>
+                      <SetTypeSelect
+                        value={set.setType}
+                        onChange={(setType) => updateSet(ex.key, index, { setType })}
+                        allowDrop={index > 0}
+                        testId={`select-backfill-set-type-${ex.key}-${index}`}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => addSet(ex.key)}
+                  data-testid={`button-add-backfill-set-${ex.key}`}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Set
+                </Button>
+              </Card>
+            );
+          })}
+          <Button variant="outline" className="w-full h-12" onClick={() => setPickerOpen(true)} data-testid="button-add-backfill-exercise">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Exercise
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="backfill-notes">Notes</Label>
+          <Textarea
+            id="backfill-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="How did it go?"
+            data-testid="input-backfill-notes"
+          />
+        </div>
+
+        {formError && (
+          <p className="text-sm text-muted-foreground">{formError}</p>
+        )}
+        <Button
+          className="w-full h-12"
+          onClick={() => logWorkoutMutation.mutate()}
+          disabled={!!formError || logWorkoutMutation.isPending}
+          data-testid="button-save-backfill"
+        >
+          {logWorkoutMutation.isPending ? "Saving..." : "Save Workout"}
+        </Button>
+      </div>
+
+      <Dialog open={pickerOpen} onOpenChange={(open) => {
+        setPickerOpen(open);
+        if (!open) setSearchQuery("");
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Exercise</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 pt-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search exercises..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+                data-testid="input-search-backfill-exercise"
+              />
+            </div>
+            <div className="max-h-72 overflow-y-auto rounded-md border border-input">
+              {filteredExercises && filteredExercises.length > 0 ? (
+                filteredExercises.map((exercise) => (
+                  <button
+                    key={exercise.id}
+                    onClick={() => addExercise(exercise)}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-accent hover:text-accent-foreground transition-colors border-b border-border last:border-b-0"
+                    data-testid={`option-backfill-exercise-${exercise.id}`}
+                  >
+                    <div className="font-medium">{exercise.name}</div>
+                    {exercise.category && (
+                      <div className="text-xs text-muted-foreground">{exercise.category}</div>
+                    )}
+                  </button>
+                ))
+              ) : (
+                <p className="p-4 text-center text-sm text-muted-foreground">No exercises found</p>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
@@ -13,13 +13,13 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
-import { Plus, Dumbbell, Calendar, ChevronRight, ChevronLeft, Edit, Trash2, Copy, MoreVertical, ListPlus, CalendarDays, Repeat } from "lucide-react";
+import { Plus, Dumbbell, Calendar, ChevronRight, ChevronLeft, Edit, Trash2, Copy, MoreVertical, ListPlus, CalendarDays, Repeat, CalendarRange } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Link, useLocation } from "wouter";
-import { format, addDays, addWeeks, subWeeks, startOfWeek, endOfWeek, isSameDay, isWithinInterval } from "date-fns";
+import { format, addDays, addWeeks, subWeeks, startOfWeek, endOfWeek, isSameDay, isWithinInterval, parseISO } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { WorkoutTemplate, WorkoutScheduleItem, Exercise } from "@shared/schema";
+import type { WorkoutTemplate, WorkoutScheduleItem, WorkoutScheduleSeries, Exercise } from "@shared/schema";
 
 interface TemplateWithExercises extends WorkoutTemplate {
   exerciseCount?: number;
@@ -29,6 +29,21 @@ interface ScheduleWithTemplate extends WorkoutScheduleItem {
   template?: WorkoutTemplate;
 }
 
+interface SeriesWithTemplate extends WorkoutScheduleSeries {
+  template?: WorkoutTemplate;
+}
+
+type RepeatMode = "none" | "weekly" | "interval";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function describeSeries(series: WorkoutScheduleSeries): string {
+  const rule = series.recurrence === "weekly"
+    ? `Every ${(series.daysOfWeek || []).slice().sort().map(d => DAY_LABELS[d]).join(", ")}`
+    : series.intervalDays === 2 ? "Every other day" : `Every ${series.intervalDays} days`;
+  return series.endDate ? `${rule} until ${format(parseISO(series.endDate), "MMM d, yyyy")}` : rule;
+}
+
 export default function Plan() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
@@ -41,6 +56,16 @@ export default function Plan() {
   const [displayWeekStart, setDisplayWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
   const [calendarOpen, setCalendarOpen] = useState(false);
   const [weeksToShow, setWeeksToShow] = useState(2);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>("none");
+  const [repeatDays, setRepeatDays] = useState<number[]>([]);
+  const [repeatInterval, setRepeatInterval] = useState("2");
+  const [repeatUntil, setRepeatUntil] = useState("");
+  const [editingSeries, setEditingSeries] = useState<SeriesWithTemplate | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<ScheduleWithTemplate | null>(null);
+  const [editScheduleTemplateId, setEditScheduleTemplateId] = useState<string | null>(null);
+  const [editScheduleDate, setEditScheduleDate] = useState<Date | null>(null);
+  const [draggingScheduleId, setDraggingScheduleId] = useState<string | null>(null);
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null);
 
   const getWeekDays = (weekStart: Date) => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
 
@@ -72,6 +97,13 @@ export default function Plan() {
     queryKey: ["/api/schedule/range", format(displayWeekStart, "yyyy-MM-dd"), format(displayEndDate, "yyyy-MM-dd")],
   });
 
+  const { data: seriesList } = useQuery<SeriesWithTemplate[]>({
+    queryKey: ["/api/schedule/series"],
+  });
+
+  const todayKey = format(new Date(), "yyyy-MM-dd");
+  const activeSeries = seriesList?.filter(s => !s.endDate || s.endDate >= todayKey) || [];
+
   const { data: exercises } = useQuery<Exercise[]>({
     queryKey: ["/api/exercises"],
   });
@@ -124,9 +156,8 @@ export default function Plan() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
-      setScheduleOpen(false);
-      setSelectedTemplateId(null);
-      setSelectedDate(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/range"] });
+      closeScheduleDialog();
       toast({ title: "Workout scheduled" });
     },
     onError: () => {
@@ -134,12 +165,140 @@ export default function Plan() {
     },
   });
 
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/range"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/series"] });
+  };
+
+  const saveSeriesMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: Record<string, unknown> }) => {
+      return id
+        ? await apiRequest("PATCH", `/api/schedule/series/${id}`, data)
+        : await apiRequest("POST", "/api/schedule/series", data);
+    },
+    onSuccess: (_, { id }) => {
+      invalidateSchedule();
+      closeScheduleDialog();
+      toast({ title: id ? "Recurring workout updated" : "Recurring workout scheduled" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save recurring workout", variant: "destructive" });
+    },
+  });
+
+  const endSeriesMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/schedule/series/${id}/end`, {});
+    },
+    onSuccess: () => {
+      invalidateSchedule();
+      toast({ title: "Recurring workout ended" });
+    },
+    onError: () => {
+      toast({ title: "Failed to end recurring workout", variant: "destructive" });
+    },
+  });
+
+  const updateScheduleMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { scheduledDate?: string; templateId?: string } }) => {
+      return await apiRequest("PATCH", `/api/schedule/${id}`, data);
+    },
+    onSuccess: () => {
+      invalidateSchedule();
+      setEditingSchedule(null);
+      toast({ title: "Workout moved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update scheduled workout", variant: "destructive" });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/schedule/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSchedule();
+      toast({ title: "Scheduled workout removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove scheduled workout", variant: "destructive" });
+    },
+  });
+
+  const openEditSchedule = (schedule: ScheduleWithTemplate) => {
+    setEditingSchedule(schedule);
+    setEditScheduleTemplateId(schedule.templateId);
+    setEditScheduleDate(parseISO(schedule.scheduledDate));
+  };
+
+  const handleSaveSchedule = () => {
+    if (!editingSchedule || !editScheduleTemplateId || !editScheduleDate) return;
+    updateScheduleMutation.mutate({
+      id: editingSchedule.id,
+      data: { templateId: editScheduleTemplateId, scheduledDate: format(editScheduleDate, "yyyy-MM-dd") },
+    });
+  };
+
+  const handleDropOnDay = (day: Date, scheduleId: string) => {
+    const scheduledDate = format(day, "yyyy-MM-dd");
+    const schedule = scheduleData?.find(s => s.id === scheduleId);
+    if (schedule && schedule.scheduledDate !== scheduledDate) {
+      updateScheduleMutation.mutate({ id: scheduleId, data: { scheduledDate } });
+    }
+  };
+
+  const closeScheduleDialog = () => {
+    setScheduleOpen(false);
+    setSelectedTemplateId(null);
+    setSelectedDate(null);
+    setRepeatMode("none");
+    setRepeatDays([]);
+    setRepeatInterval("2");
+    setRepeatUntil("");
+    setEditingSeries(null);
+  };
+
+  const openEditSeries = (series: SeriesWithTemplate) => {
+    setEditingSeries(series);
+    setSelectedTemplateId(series.templateId);
+    setSelectedDate(parseISO(series.startDate));
+    setRepeatMode(series.recurrence);
+    setRepeatDays(series.daysOfWeek || []);
+    setRepeatInterval(String(series.intervalDays || 2));
+    setRepeatUntil(series.endDate || "");
+    setScheduleOpen(true);
+  };
+
+  const toggleRepeatDay = (day: number) => {
+    setRepeatDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const isRepeatValid =
+    repeatMode === "none" ||
+    (repeatMode === "weekly" && repeatDays.length > 0) ||
+    (repeatMode === "interval" && parseInt(repeatInterval) >= 1);
+
   const getScheduleForDay = (date: Date) => {
     return scheduleData?.filter(s => s.scheduledDate === format(date, "yyyy-MM-dd")) || [];
   };
 
   const handleSchedule = () => {
-    if (selectedTemplateId && selectedDate) {
+    if (!selectedTemplateId || !selectedDate) return;
+    if (repeatMode !== "none") {
+      saveSeriesMutation.mutate({
+        id: editingSeries?.id,
+        data: {
+          templateId: selectedTemplateId,
+          recurrence: repeatMode,
+          daysOfWeek: repeatMode === "weekly" ? repeatDays : null,
+          intervalDays: repeatMode === "interval" ? parseInt(repeatInterval) : null,
+          startDate: format(selectedDate, "yyyy-MM-dd"),
+          endDate: repeatUntil || null,
+        },
+      });
+    } else {
       scheduleWorkoutMutation.mutate({
         templateId: selectedTemplateId,
         scheduledDate: format(selectedDate, "yyyy-MM-dd"),
@@ -168,6 +327,12 @@ export default function Plan() {
                 Circuits
               </Link>
             </Button>
+            <Button variant="secondary" size="sm" asChild data-testid="button-programs">
+              <Link href="/programs">
+                <CalendarRange className="h-4 w-4 mr-1" />
+                Programs
+              </Link>
+            </Button>
           </div>
         </div>
 
@@ -353,6 +518,7 @@ export default function Plan() {
                       const isToday = isSameDay(day, new Date());
                       const daySchedule = getScheduleForDay(day);
                       const isPast = day < new Date() && !isToday;
+                      const dayKey = format(day, "yyyy-MM-dd");
 
                       return (
                         <button
@@ -363,7 +529,20 @@ export default function Plan() {
                               setScheduleOpen(true);
                             }
                           }}
-                          className={`flex flex-col items-center p-2 rounded-lg transition-colors ${isToday
+                          onDragOver={(e) => {
+                            if (!draggingScheduleId) return;
+                            e.preventDefault();
+                            setDragOverDate(dayKey);
+                          }}
+                          onDragLeave={() => setDragOverDate(prev => prev === dayKey ? null : prev)}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            const scheduleId = e.dataTransfer.getData("text/plain");
+                            setDragOverDate(null);
+                            setDraggingScheduleId(null);
+                            if (scheduleId) handleDropOnDay(day, scheduleId);
+                          }}
+                          className={`flex flex-col items-center p-2 rounded-lg transition-colors ${dragOverDate === dayKey ? "ring-2 ring-primary " : ""}${isToday
                             ? "bg-primary text-primary-foreground"
                             : isPast
                               ? "text-muted-foreground hover:bg-muted"
@@ -398,7 +577,21 @@ export default function Plan() {
                       {format(day, "EEEE, MMM d")}
                     </p>
                     {daySchedule.map((schedule) => (
-                      <Card key={schedule.id} className="p-3" data-testid={`card-scheduled-${schedule.id}`}>
+                      <Card
+                        key={schedule.id}
+                        className={`p-3 ${schedule.status !== "completed" ? "cursor-grab" : ""} ${draggingScheduleId === schedule.id ? "opacity-50" : ""}`}
+                        draggable={schedule.status !== "completed"}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData("text/plain", schedule.id);
+                          e.dataTransfer.effectAllowed = "move";
+                          setDraggingScheduleId(schedule.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggingScheduleId(null);
+                          setDragOverDate(null);
+                        }}
+                        data-testid={`card-scheduled-${schedule.id}`}
+                      >
                         <div className="flex items-center gap-3">
                           <div className="w-8 h-8 rounded bg-muted flex items-center justify-center">
                             <Dumbbell className="h-4 w-4 text-muted-foreground" />
@@ -406,9 +599,34 @@ export default function Plan() {
                           <span className="font-medium text-sm">
                             {schedule.template?.name || "Workout"}
                           </span>
+                          {schedule.seriesId && (
+                            <Repeat className="h-3 w-3 text-muted-foreground" data-testid={`icon-recurring-${schedule.id}`} />
+                          )}
                           <Badge variant="secondary" className="ml-auto text-xs">
                             {schedule.status}
                           </Badge>
+                          {schedule.status !== "completed" && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8" data-testid={`button-scheduled-menu-${schedule.id}`}>
+                                  <MoreVertical className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => openEditSchedule(schedule)}>
+                                  <CalendarDays className="h-4 w-4 mr-2" />
+                                  Move / Change
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                                  className="text-destructive focus:text-destructive"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Remove
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
                         </div>
                       </Card>
                     ))}
@@ -416,13 +634,52 @@ export default function Plan() {
                 );
               })}
             </div>
+
+            {activeSeries.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Recurring</p>
+                {activeSeries.map((series) => (
+                  <Card key={series.id} className="p-3" data-testid={`card-series-${series.id}`}>
+                    <div className="flex items-center gap-3">
+                      <div className="w-8 h-8 rounded bg-muted flex items-center justify-center">
+                        <Repeat className="h-4 w-4 text-muted-foreground" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-sm truncate">{series.template?.name || "Workout"}</p>
+                        <p className="text-xs text-muted-foreground">{describeSeries(series)}</p>
+                      </div>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" data-testid={`button-series-menu-${series.id}`}>
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openEditSeries(series)}>
+                            <Edit className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => endSeriesMutation.mutate(series.id)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            End Series
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
           </TabsContent>
         </Tabs>
 
-        <Dialog open={scheduleOpen} onOpenChange={setScheduleOpen}>
-          <DialogContent className="max-w-md">
+        <Dialog open={scheduleOpen} onOpenChange={(open) => !open && closeScheduleDialog()}>
+          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
             <DialogHeader>
-              <DialogTitle>Schedule Workout</DialogTitle>
+              <DialogTitle>{editingSeries ? "Edit Recurring Workout" : "Schedule Workout"}</DialogTitle>
             </DialogHeader>
             <div className="space-y-4 pt-4">
               <div className="space-y-2">
@@ -444,7 +701,7 @@ export default function Plan() {
                 </div>
               </div>
               <div className="space-y-2">
-                <Label>Date</Label>
+                <Label>{repeatMode === "none" ? "Date" : "Starting"}</Label>
                 <div className="flex justify-center">
                   <CalendarComponent
                     mode="single"
@@ -460,13 +717,117 @@ export default function Plan() {
                   </p>
                 )}
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="repeat-mode">Repeat</Label>
+                <select
+                  id="repeat-mode"
+                  value={repeatMode}
+                  onChange={(e) => setRepeatMode(e.target.value as RepeatMode)}
+                  disabled={!!editingSeries}
+                  className="h-9 w-full rounded-md border border-input bg-background px-3 text-sm"
+                  data-testid="select-repeat"
+                >
+                  {!editingSeries && <option value="none">Does not repeat</option>}
+                  <option value="weekly">Weekly on...</option>
+                  <option value="interval">Every few days</option>
+                </select>
+              </div>
+              {repeatMode === "weekly" && (
+                <div className="flex flex-wrap gap-1">
+                  {DAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={repeatDays.includes(day) ? "default" : "outline"}
+                      onClick={() => toggleRepeatDay(day)}
+                      data-testid={`button-repeat-day-${day}`}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {repeatMode === "interval" && (
+                <div className="space-y-2">
+                  <Label htmlFor="repeat-interval">Every N days</Label>
+                  <Input
+                    id="repeat-interval"
+                    type="number"
+                    min={1}
+                    value={repeatInterval}
+                    onChange={(e) => setRepeatInterval(e.target.value)}
+                    data-testid="input-repeat-interval"
+                  />
+                </div>
+              )}
+              {repeatMode !== "none" && (
+                <div className="space-y-2">
+                  <Label htmlFor="repeat-until">Until (optional)</Label>
+                  <Input
+                    id="repeat-until"
+                    type="date"
+                    value={repeatUntil}
+                    onChange={(e) => setRepeatUntil(e.target.value)}
+                    data-testid="input-repeat-until"
+                  />
+                </div>
+              )}
               <Button
                 className="w-full"
                 onClick={handleSchedule}
-                disabled={!selectedTemplateId || !selectedDate || scheduleWorkoutMutation.isPending}
+                disabled={!selectedTemplateId || !selectedDate || !isRepeatValid || scheduleWorkoutMutation.isPending || saveSeriesMutation.isPending}
                 data-testid="button-confirm-schedule"
               >
-                Schedule Workout
+                {editingSeries ? "Save Changes" : "Schedule Workout"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!editingSchedule} onOpenChange={(open) => !open && setEditingSchedule(null)}>
+          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Move Workout</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <div className="grid gap-2 max-h-40 overflow-y-auto">
+                  {templates?.map((template) => (
+                    <button
+                      key={template.id}
+                      onClick={() => setEditScheduleTemplateId(template.id)}
+                      className={`p-3 rounded-lg border text-left transition-colors ${editScheduleTemplateId === template.id
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:bg-muted"
+                        }`}
+                      data-testid={`button-move-template-${template.id}`}
+                    >
+                      <p className="font-medium">{template.name}</p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Date</Label>
+                <div className="flex justify-center">
+                  <CalendarComponent
+                    mode="single"
+                    selected={editScheduleDate || undefined}
+                    onSelect={(date) => setEditScheduleDate(date || null)}
+                    className="rounded-md border"
+                    data-testid="calendar-move"
+                  />
+                </div>
+              </div>
+              <Button
+                className="w-full"
+                onClick={handleSaveSchedule}
+                disabled={!editScheduleTemplateId || !editScheduleDate || updateScheduleMutation.isPending}
+                data-testid="button-confirm-move"
+              >
+                Save Changes
               </Button>
             </div>
           </DialogContent>
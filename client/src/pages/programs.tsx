@@ -0,0 +1,492 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AppLayout } from "@/components/app-layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ListSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { Plus, ArrowLeft, CalendarRange, MoreVertical, Edit, Trash2, Play, Square, Copy } from "lucide-react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Program, ProgramWorkout, ProgramRun, WorkoutTemplate, WorkoutScheduleItem } from "@shared/schema";
+
+interface ProgramWithCount extends Program {
+  workoutCount: number;
+}
+
+interface ProgramWithWorkouts extends Program {
+  workouts: (ProgramWorkout & { template?: WorkoutTemplate })[];
+}
+
+interface ActiveProgramRun extends ProgramRun {
+  program: Program;
+  endDate: string;
+  weekNumber: number | null;
+  dayNumber: number | null;
+  totalWorkouts: number;
+  completedWorkouts: number;
+  skippedWorkouts: number;
+  nextWorkout: (WorkoutScheduleItem & { template?: WorkoutTemplate }) | null;
+}
+
+const DAYS = [1, 2, 3, 4, 5, 6, 7];
+const REST = "rest";
+
+// Form state keys workouts by "week-day"
+const slotKey = (week: number, day: number) => `${week}-${day}`;
+
+export default function Programs() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProgramId, setEditingProgramId] = useState<string | null>(null);
+  const [formName, setFormName] = useState("");
+  const [formNotes, setFormNotes] = useState("");
+  const [formWeeks, setFormWeeks] = useState("4");
+  const [formSlots, setFormSlots] = useState<Record<string, string>>({});
+  const [selectedWeek, setSelectedWeek] = useState(1);
+  const [startingProgram, setStartingProgram] = useState<ProgramWithCount | null>(null);
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const { data: programList, isLoading } = useQuery<ProgramWithCount[]>({
+    queryKey: ["/api/programs"],
+  });
+
+  const { data: activeRun } = useQuery<ActiveProgramRun | null>({
+    queryKey: ["/api/programs/active"],
+  });
+
+  const { data: templates } = useQuery<WorkoutTemplate[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const weekCount = Math.max(1, Math.min(52, parseInt(formWeeks) || 1));
+
+  const invalidatePrograms = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/programs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/programs/active"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/range"] });
+  };
+
+  const saveProgramMutation = useMutation({
+    mutationFn: async (data: { name: string; notes?: string; weekCount: number; workouts: { weekNumber: number; dayNumber: number; templateId: string }[] }) => {
+      if (editingProgramId) {
+        return await apiRequest("PATCH", `/api/programs/${editingProgramId}`, data);
+      }
+      return await apiRequest("POST", "/api/programs", data);
+    },
+    onSuccess: () => {
+      invalidatePrograms();
+      toast({ title: editingProgramId ? "Program updated" : "Program created" });
+      resetForm();
+    },
+    onError: () => {
+      toast({ title: "Failed to save program", variant: "destructive" });
+    },
+  });
+
+  const deleteProgramMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/programs/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePrograms();
+      toast({ title: "Program deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete program", variant: "destructive" });
+    },
+  });
+
+  const startProgramMutation = useMutation({
+    mutationFn: async ({ id, startDate }: { id: string; startDate: string }) => {
+      return await apiRequest("POST", `/api/programs/${id}/start`, { startDate });
+    },
+    onSuccess: () => {
+      invalidatePrograms();
+      setStartingProgram(null);
+      toast({ title: "Program started", description: "Its workouts have been added to your schedule" });
+    },
+    onError: () => {
+      toast({ title: "Failed to start program", variant: "destructive" });
+    },
+  });
+
+  const endProgramMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/programs/active/end");
+    },
+    onSuccess: () => {
+      invalidatePrograms();
+      toast({ title: "Program ended", description: "Upcoming program workouts were removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to end program", variant: "destructive" });
+    },
+  });
+
+  const resetForm = () => {
+    setDialogOpen(false);
+    setEditingProgramId(null);
+    setFormName("");
+    setFormNotes("");
+    setFormWeeks("4");
+    setFormSlots({});
+    setSelectedWeek(1);
+  };
+
+  const openEditDialog = async (id: string) => {
+    try {
+      const program = await queryClient.fetchQuery<ProgramWithWorkouts>({ queryKey: ["/api/programs", id] });
+      const slots: Record<string, string> = {};
+      for (const w of program.workouts) {
+        slots[slotKey(w.weekNumber, w.dayNumber)] = w.templateId;
+      }
+      setEditingProgramId(program.id);
+      setFormName(program.name);
+      setFormNotes(program.notes || "");
+      setFormWeeks(String(program.weekCount));
+      setFormSlots(slots);
+      setSelectedWeek(1);
+      setDialogOpen(true);
+    } catch {
+      toast({ title: "Failed to load program", variant: "destructive" });
+    }
+  };
+
+  const setSlot = (week: number, day: number, templateId: string) => {
+    setFormSlots(prev => {
+      const next = { ...prev };
+      if (templateId === REST) {
+        delete next[slotKey(week, day)];
+      } else {
+        next[slotKey(week, day)] = templateId;
+      }
+      return next;
+    });
+  };
+
+  const copyWeekToAll = (week: number) => {
+    setFormSlots(prev => {
+      const next: Record<string, string> = {};
+      for (let w = 1; w <= weekCount; w++) {
+        for (const day of DAYS) {
+          const templateId = prev[slotKey(week, day)];
+          if (templateId) next[slotKey(w, day)] = templateId;
+        }
+      }
+      return next;
+    });
+    toast({ title: `Week ${week} copied to all weeks` });
+  };
+
+  const handleSave = () => {
+    const workouts = Object.entries(formSlots)
+      .map(([key, templateId]) => {
+        const [weekNumber, dayNumber] = key.split("-").map(Number);
+        return { weekNumber, dayNumber, templateId };
+      })
+      .filter(w => w.weekNumber <= weekCount);
+
+    saveProgramMutation.mutate({
+      name: formName.trim(),
+      notes: formNotes || undefined,
+      weekCount,
+      workouts,
+    });
+  };
+
+  const weekWorkoutCount = (week: number) => DAYS.filter(day => formSlots[slotKey(week, day)]).length;
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/plan">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight" data-testid="text-page-title">Programs</h1>
+            <p className="text-muted-foreground text-sm">Multi-week training blocks</p>
+          </div>
+        </div>
+
+        {activeRun && (
+          <Card className="p-4 border-primary bg-primary/5 space-y-3" data-testid="card-active-program">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-xs text-muted-foreground uppercase tracking-wide">Current program</p>
+                <p className="font-semibold truncate">{activeRun.program.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {activeRun.weekNumber
+                    ? `Week ${activeRun.weekNumber} of ${activeRun.program.weekCount} · Day ${activeRun.dayNumber}`
+                    : `Starts ${format(parseISO(activeRun.startDate), "EEE, MMM d")}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => endProgramMutation.mutate()}
+                disabled={endProgramMutation.isPending}
+                data-testid="button-end-program"
+              >
+                <Square className="h-4 w-4 mr-1" />
+                End
+              </Button>
+            </div>
+            <div className="space-y-1">
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-primary"
+                  style={{ width: `${activeRun.totalWorkouts > 0 ? (activeRun.completedWorkouts / activeRun.totalWorkouts) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {activeRun.completedWorkouts} of {activeRun.totalWorkouts} workouts done
+                {activeRun.skippedWorkouts > 0 && ` · ${activeRun.skippedWorkouts} skipped`}
+              </p>
+            </div>
+            {activeRun.nextWorkout && (
+              <p className="text-sm">
+                Next: <span className="font-medium">{activeRun.nextWorkout.template?.name || "Workout"}</span>
+                {" "}on {format(parseISO(activeRun.nextWorkout.scheduledDate), "EEE, MMM d")}
+              </p>
+            )}
+          </Card>
+        )}
+
+        <Button className="w-full" onClick={() => setDialogOpen(true)} data-testid="button-new-program">
+          <Plus className="h-4 w-4 mr-2" />
+          Create Program
+        </Button>
+
+        {isLoading ? (
+          <ListSkeleton count={3} />
+        ) : programList && programList.length > 0 ? (
+          <div className="space-y-2">
+            {programList.map((program) => (
+              <Card key={program.id} className="p-4" data-testid={`card-program-${program.id}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                      <CalendarRange className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{program.name}</p>
+                        {activeRun?.programId === program.id && (
+                          <Badge variant="secondary" className="text-xs">Active</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {program.weekCount} {program.weekCount === 1 ? "week" : "weeks"} · {program.workoutCount} {program.workoutCount === 1 ? "workout" : "workouts"}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => {
+                        setStartDate(format(new Date(), "yyyy-MM-dd"));
+                        setStartingProgram(program);
+                      }}
+                      disabled={program.workoutCount === 0}
+                      data-testid={`button-start-program-${program.id}`}
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      Start
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" data-testid={`button-program-menu-${program.id}`}>
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => openEditDialog(program.id)}>
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => deleteProgramMutation.mutate(program.id)}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <EmptyState
+            icon={CalendarRange}
+            title="No programs yet"
+            description="Sequence your workouts across weeks, then start the program to fill your schedule"
+            action={{
+              label: "Create Program",
+              onClick: () => setDialogOpen(true),
+            }}
+          />
+        )}
+
+        <Dialog open={dialogOpen} onOpenChange={(open) => !open && resetForm()}>
+          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingProgramId ? "Edit Program" : "Create Program"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="program-name">Name</Label>
+                <Input
+                  id="program-name"
+                  placeholder="e.g., 5/3/1 Block, Hypertrophy Phase"
+                  value={formName}
+                  onChange={(e) => setFormName(e.target.value)}
+                  data-testid="input-program-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="program-weeks">Weeks</Label>
+                <Input
+                  id="program-weeks"
+                  type="number"
+                  min="1"
+                  max="52"
+                  value={formWeeks}
+                  onChange={(e) => {
+                    setFormWeeks(e.target.value);
+                    setSelectedWeek(1);
+                  }}
+                  data-testid="input-program-weeks"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Week {selectedWeek}</Label>
+                  {weekCount > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyWeekToAll(selectedWeek)}
+                      data-testid="button-copy-week"
+                    >
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy to all weeks
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {Array.from({ length: weekCount }, (_, i) => i + 1).map(week => (
+                    <button
+                      key={week}
+                      onClick={() => setSelectedWeek(week)}
+                      className={`px-2.5 py-1 text-xs rounded-md border transition-colors ${selectedWeek === week
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "border-border hover:bg-muted"
+                        }`}
+                      data-testid={`button-week-${week}`}
+                    >
+                      W{week}
+                      {weekWorkoutCount(week) > 0 && <span className="ml-1 opacity-70">{weekWorkoutCount(week)}</span>}
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  {DAYS.map(day => (
+                    <div key={day} className="flex items-center gap-3">
+                      <span className="text-sm text-muted-foreground w-12">Day {day}</span>
+                      <Select
+                        value={formSlots[slotKey(selectedWeek, day)] || REST}
+                        onValueChange={(value) => setSlot(selectedWeek, day, value)}
+                      >
+                        <SelectTrigger className="flex-1" data-testid={`select-day-${day}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={REST}>Rest</SelectItem>
+                          {templates?.map(template => (
+                            <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Day 1 is the date you start the program.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="program-notes">Notes (optional)</Label>
+                <Textarea
+                  id="program-notes"
+                  placeholder="Goals, deload weeks, progression notes..."
+                  value={formNotes}
+                  onChange={(e) => setFormNotes(e.target.value)}
+                />
+              </div>
+              <Button
+                className="w-full"
+                onClick={handleSave}
+                disabled={!formName.trim() || saveProgramMutation.isPending}
+                data-testid="button-save-program"
+              >
+                {editingProgramId ? "Save Changes" : "Create Program"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!startingProgram} onOpenChange={(open) => !open && setStartingProgram(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Start {startingProgram?.name}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="program-start-date">Start date</Label>
+                <Input
+                  id="program-start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  data-testid="input-program-start-date"
+                />
+              </div>
+              {activeRun && (
+                <p className="text-sm text-muted-foreground">
+                  This ends {activeRun.program.name} and removes its upcoming workouts.
+                </p>
+              )}
+              <Button
+                className="w-full"
+                onClick={() => startingProgram && startProgramMutation.mutate({ id: startingProgram.id, startDate })}
+                disabled={!startDate || startProgramMutation.isPending}
+                data-testid="button-confirm-start-program"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Start Program
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,309 @@
+import { useQuery } from "@tanstack/react-query";
+import { useRoute, Link } from "wouter";
+import { AppLayout } from "@/components/app-layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PageSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { Dumbbell, Clock, Timer, CheckCircle2, Trophy, SkipForward, ArrowUp, ArrowDown, Minus, History as HistoryIcon } from "lucide-react";
+import { format } from "date-fns";
+import type { WeightUnit } from "@shared/schema";
+
+interface SummaryExercise {
+  sessionExerciseId: string;
+  exerciseId: string;
+  exerciseName: string;
+  plannedSets: number;
+  completedSets: number;
+  volume: number;
+  durationSeconds: number | null; // Time on the exercise, from set completion times
+  avgRestSeconds: number | null;
+  targetRestSeconds: number | null;
+}
+
+// Actual rest between sets, from when each set was done
+interface SummaryPacing {
+  avgRestSeconds: number | null;
+  targetRestSeconds: number | null;
+  onTargetPct: number | null;
+}
+
+interface SummaryPr {
+  date: string;
+  exerciseId: string;
+  exerciseName: string;
+  metric: "weight" | "time" | "e1rm";
+  value: number;
+}
+
+interface SessionSummary {
+  sessionId: string;
+  templateId: string | null;
+  templateName: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  durationSeconds: number | null;
+  weightUnit: WeightUnit; // Volumes and PRs are in this unit
+  plannedSets: number;
+  completedSets: number;
+  totalVolume: number;
+  pacing: SummaryPacing;
+  exercises: SummaryExercise[];
+  skippedExercises: SummaryExercise[];
+  prs: SummaryPr[];
+  previous: {
+    sessionId: string;
+    startedAt: string;
+    durationSeconds: number | null;
+    plannedSets: number;
+    completedSets: number;
+    totalVolume: number;
+    pacing: SummaryPacing;
+    exercises: SummaryExercise[];
+  } | null;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return "In progress";
+  const mins = Math.round(seconds / 60);
+  if (mins < 60) return `${mins} min`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+function formatRest(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  return `${mins}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+function formatPr(pr: SummaryPr, unit: WeightUnit): string {
+  if (pr.metric === "weight") return `${pr.value} ${unit}`;
+  if (pr.metric === "e1rm") return `e1RM ${pr.value} ${unit}`;
+  const mins = Math.floor(pr.value / 60);
+  const secs = pr.value % 60;
+  return mins > 0 ? `${mins}:${secs.toString().padStart(2, "0")}` : `${secs}s`;
+}
+
+function Delta({ value, unit = "" }: { value: number; unit?: string }) {
+  if (value === 0) {
+    return <span className="flex items-center gap-0.5 text-xs text-muted-foreground"><Minus className="h-3 w-3" />same</span>;
+  }
+  const up = value > 0;
+  return (
+    <span className={`flex items-center gap-0.5 text-xs font-medium ${up ? "text-green-600" : "text-red-500"}`}>
+      {up ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+      {Math.abs(value).toLocaleString()}{unit}
+    </span>
+  );
+}
+
+export default function SessionSummaryPage() {
+  const [, params] = useRoute("/session/:id/summary");
+  const sessionId = params?.id;
+
+  const { data: summary, isLoading } = useQuery<SessionSummary>({
+    queryKey: ["/api/sessions", sessionId, "summary"],
+    enabled: !!sessionId,
+  });
+
+  if (isLoading) {
+    return (
+      <AppLayout>
+        <PageSkeleton />
+      </AppLayout>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <AppLayout>
+        <EmptyState
+          icon={Dumbbell}
+          title="Session not found"
+          description="This workout session doesn't exist"
+        />
+      </AppLayout>
+    );
+  }
+
+  const previous = summary.previous;
+  const pacing = summary.pacing;
+  const pacedExercises = summary.exercises.filter(ex => ex.durationSeconds !== null);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="text-center space-y-1">
+          <CheckCircle2 className="h-10 w-10 mx-auto text-primary" />
+          <h1 className="text-2xl font-bold tracking-tight" data-testid="text-summary-title">
+            {summary.templateName || "Ad-hoc Workout"}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {format(new Date(summary.startedAt), "EEEE, MMMM d, yyyy")}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <Card className="p-3 text-center">
+            <Clock className="h-5 w-5 mx-auto text-muted-foreground mb-1" />
+            <p className="font-semibold" data-testid="text-summary-duration">{formatDuration(summary.durationSeconds)}</p>
+            <p className="text-xs text-muted-foreground">Duration</p>
+          </Card>
+          <Card className="p-3 text-center">
+            <CheckCircle2 className="h-5 w-5 mx-auto text-muted-foreground mb-1" />
+            <p className="font-semibold" data-testid="text-summary-sets">
+              {summary.completedSets}{summary.plannedSets > 0 ? `/${summary.plannedSets}` : ""}
+            </p>
+            <p className="text-xs text-muted-foreground">{summary.plannedSets > 0 ? "Sets vs plan" : "Sets"}</p>
+          </Card>
+          <Card className="p-3 text-center">
+            <Dumbbell className="h-5 w-5 mx-auto text-muted-foreground mb-1" />
+            <p className="font-semibold" data-testid="text-summary-volume">{summary.totalVolume.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">Volume ({summary.weightUnit})</p>
+          </Card>
+        </div>
+
+        {pacing.avgRestSeconds !== null && (
+          <Card className="p-4 space-y-3" data-testid="card-summary-pacing">
+            <div className="flex items-center gap-2">
+              <Timer className="h-5 w-5 text-muted-foreground" />
+              <p className="font-semibold">Pacing</p>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div>
+                <p className="font-semibold" data-testid="text-summary-avg-rest">{formatRest(pacing.avgRestSeconds)}</p>
+                <p className="text-xs text-muted-foreground">Avg rest</p>
+              </div>
+              <div>
+                <p className="font-semibold">{pacing.targetRestSeconds !== null ? formatRest(pacing.targetRestSeconds) : "-"}</p>
+                <p className="text-xs text-muted-foreground">Planned rest</p>
+              </div>
+              <div>
+                <p className="font-semibold" data-testid="text-summary-rest-on-target">
+                  {pacing.onTargetPct !== null ? `${pacing.onTargetPct}%` : "-"}
+                </p>
+                <p className="text-xs text-muted-foreground">On target</p>
+              </div>
+            </div>
+            {pacedExercises.length > 0 && (
+              <div className="space-y-1">
+                {pacedExercises.map((ex) => (
+                  <div
+                    key={ex.sessionExerciseId}
+                    className="flex items-center justify-between gap-2 text-sm py-1 border-b border-border last:border-b-0"
+                  >
+                    <span className="truncate">{ex.exerciseName}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      {formatDuration(ex.durationSeconds)}
+                      {ex.avgRestSeconds !== null && ` · ${formatRest(ex.avgRestSeconds)} rest`}
+                      {ex.targetRestSeconds !== null && ` / ${formatRest(ex.targetRestSeconds)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
+        {summary.prs.length > 0 && (
+          <Card className="p-4 space-y-2 bg-primary/5 border-primary/20" data-testid="card-summary-prs">
+            <div className="flex items-center gap-2">
+              <Trophy className="h-5 w-5 text-primary" />
+              <p className="font-semibold">
+                {summary.prs.length} new {summary.prs.length === 1 ? "PR" : "PRs"}
+              </p>
+            </div>
+            {summary.prs.map((pr, i) => (
+              <div key={i} className="flex items-center justify-between text-sm">
+                <span className="font-medium truncate">{pr.exerciseName}</span>
+                <span className="text-muted-foreground shrink-0">{formatPr(pr, summary.weightUnit)}</span>
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {summary.skippedExercises.length > 0 && (
+          <Card className="p-4 space-y-2" data-testid="card-summary-skipped">
+            <div className="flex items-center gap-2">
+              <SkipForward className="h-5 w-5 text-muted-foreground" />
+              <p className="font-semibold">Skipped</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {summary.skippedExercises.map((ex) => (
+                <Badge key={ex.sessionExerciseId} variant="secondary">{ex.exerciseName}</Badge>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {previous && (
+          <Card className="p-4 space-y-3" data-testid="card-summary-comparison">
+            <div>
+              <p className="font-semibold">Compared to last time</p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(previous.startedAt), "MMM d")} · {formatDuration(previous.durationSeconds)} · {previous.completedSets} sets
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div>
+                <p className="text-xs text-muted-foreground">Duration</p>
+                <div className="flex justify-center">
+                  {summary.durationSeconds !== null && previous.durationSeconds !== null ? (
+                    <Delta value={Math.round((summary.durationSeconds - previous.durationSeconds) / 60)} unit=" min" />
+                  ) : (
+                    <span className="text-xs text-muted-foreground">-</span>
+                  )}
+                </div>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Sets</p>
+                <div className="flex justify-center">
+                  <Delta value={summary.completedSets - previous.completedSets} />
+                </div>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Volume</p>
+                <div className="flex justify-center">
+                  <Delta value={summary.totalVolume - previous.totalVolume} unit={` ${summary.weightUnit}`} />
+                </div>
+              </div>
+            </div>
+            <div className="space-y-1">
+              {summary.exercises.map((ex) => {
+                const before = previous.exercises.find(p => p.exerciseId === ex.exerciseId);
+                return (
+                  <div
+                    key={ex.sessionExerciseId}
+                    className="flex items-center justify-between gap-2 text-sm py-1 border-b border-border last:border-b-0"
+                  >
+                    <span className="truncate">{ex.exerciseName}</span>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-muted-foreground">{ex.volume.toLocaleString()} {summary.weightUnit}</span>
+                      {before ? (
+                        <Delta value={ex.volume - before.volume} />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">new</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" asChild>
+            <Link href={`/session/${summary.sessionId}/view`} data-testid="link-summary-details">
+              <HistoryIcon className="h-4 w-4 mr-2" />
+              Details
+            </Link>
+          </Button>
+          <Button className="flex-1" asChild>
+            <Link href="/" data-testid="link-summary-done">Done</Link>
+          </Button>
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,14 +1,34 @@
-import { useQuery } from "@tanstack/react-query";
-import { useRoute, Link } from "wouter";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute, useLocation, Link } from "wouter";
 import { AppLayout } from "@/components/app-layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { PageSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
-import { ArrowLeft, Dumbbell, Clock, Calendar, CheckCircle2, Repeat } from "lucide-react";
+import { ArrowLeft, Dumbbell, Clock, Calendar, CheckCircle2, Repeat, Edit, Trash2, Trophy } from "lucide-react";
 import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWeightUnit } from "@/hooks/use-weight-unit";
+import { formatSetType } from "@/lib/utils";
 import type { WorkoutSession, SessionExercise, PerformedSet, Exercise } from "@shared/schema";
+import { convertWeight } from "@shared/units";
 
 interface SessionExerciseWithDetails extends SessionExercise {
   exercise?: Exercise;
@@ -21,14 +41,84 @@ interface SessionWithDetails extends WorkoutSession {
   circuitNames?: Record<string, string>;
 }
 
+// datetime-local inputs want local time without seconds or a zone
+const toInputValue = (value: string | Date) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+// Every analytics view is derived from completed sessions
+const invalidateSessionData = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/analytics"),
+  });
+};
+
 export default function SessionView() {
   const [, params] = useRoute("/session/:id/view");
   const sessionId = params?.id;
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [editForm, setEditForm] = useState({ startedAt: "", endedAt: "", notes: "" });
 
   const { data: session, isLoading } = useQuery<SessionWithDetails>({
     queryKey: ["/api/sessions", sessionId],
     enabled: !!sessionId,
   });
+  const weightUnit = useWeightUnit();
+
+  const updateSessionMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<WorkoutSession>("PATCH", `/api/sessions/${sessionId}`, {
+        startedAt: new Date(editForm.startedAt).toISOString(),
+        ...(editForm.endedAt ? { endedAt: new Date(editForm.endedAt).toISOString() } : {}),
+        notes: editForm.notes.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateSessionData();
+      setEditOpen(false);
+      toast({ title: "Workout updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update workout", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ["/api/sessions", sessionId] });
+      invalidateSessionData();
+      navigate("/history");
+      toast({ title: "Workout deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete workout", variant: "destructive" });
+    },
+  });
+
+  const openEdit = () => {
+    if (!session) return;
+    setEditForm({
+      startedAt: toInputValue(session.startedAt),
+      endedAt: session.endedAt ? toInputValue(session.endedAt) : "",
+      notes: session.notes || "",
+    });
+    setEditOpen(true);
+  };
+
+  const editError = (() => {
+    if (!editForm.startedAt) return "Start time is required";
+    if (new Date(editForm.startedAt).getTime() > Date.now()) return "Start time can't be in the future";
+    if (editForm.endedAt && new Date(editForm.endedAt) < new Date(editForm.startedAt)) {
+      return "End time must be after the start time";
+    }
+    return null;
+  })();
 
   const formatDuration = () => {
     if (!session?.startedAt || !session?.endedAt) return "In progress";
@@ -45,14 +135,16 @@ export default function SessionView() {
     (sum, ex) => sum + (ex.performedSets?.length || 0), 0
   ) || 0;
 
-  const totalVolume = session?.exercises?.reduce((sum, ex) => {
+  // In the user's unit, whatever each exercise is logged in
+  const totalVolume = Math.round(session?.exercises?.reduce((sum, ex) => {
     return sum + (ex.performedSets?.reduce((setSum, set) => {
       if (set.actualWeight && set.actualReps) {
-        return setSum + (Number(set.actualWeight) * set.actualReps);
+        const weight = convertWeight(Number(set.actualWeight), set.weightUnit ?? ex.exercise?.weightUnit, weightUnit);
+        return setSum + (weight * set.actualReps);
       }
       return setSum;
     }, 0) || 0);
-  }, 0) || 0;
+  }, 0) || 0);
 
   if (isLoading) {
     return (
@@ -91,6 +183,24 @@ export default function SessionView() {
               {format(new Date(session.startedAt), "EEEE, MMMM d, yyyy")}
             </p>
           </div>
+          {session.endedAt && (
+            <Button variant="ghost" size="icon" asChild>
+              <Link href={`/session/${session.id}/summary`} data-testid="link-session-summary">
+                <Trophy className="h-5 w-5" />
+              </Link>
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={openEdit} data-testid="button-edit-session">
+            <Edit className="h-5 w-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDeleteOpen(true)}
+            data-testid="button-delete-session"
+          >
+            <Trash2 className="h-5 w-5 text-destructive" />
+          </Button>
         </div>
 
         <div className="grid grid-cols-3 gap-3">
@@ -114,7 +224,7 @@ export default function SessionView() {
         {totalVolume > 0 && (
           <Card className="p-4 bg-primary/5 border-primary/20">
             <p className="text-sm text-muted-foreground">Total Volume</p>
-            <p className="text-2xl font-bold">{totalVolume.toLocaleString()} lbs</p>
+            <p className="text-2xl font-bold">{totalVolume.toLocaleString()} {weightUnit}</p>
           </Card>
         )}
 
@@ -161,16 +271,19 @@ export default function SessionView() {
                         >
                           <div className="flex items-center gap-2">
                             <span className="text-muted-foreground w-12">Set {set.setNumber}</span>
-                            {set.isWarmup && (
-                              <Badge variant="secondary" className="text-xs">warmup</Badge>
+                            {set.setType !== "normal" && (
+                              <Badge variant="secondary" className="text-xs">{formatSetType(set.setType)}</Badge>
                             )}
                           </div>
                           <div className="flex items-center gap-3">
                             {set.actualWeight && (
-                              <span className="font-medium">{set.actualWeight} lbs</span>
+                              <span className="font-medium">{set.actualWeight} {set.weightUnit ?? sessionExercise.exercise?.weightUnit ?? "lbs"}</span>
                             )}
                             {set.actualReps && <span>{set.actualReps} reps</span>}
                             {set.actualTimeSeconds && <span>{set.actualTimeSeconds}s</span>}
+                            {set.actualRpe && <span className="text-muted-foreground">@{Number(set.actualRpe)}</span>}
+                            {set.actualRir !== null && <span className="text-muted-foreground">{set.actualRir} RIR</span>}
+                            {set.actualTempo && <span className="text-xs text-muted-foreground">{set.actualTempo}</span>}
                           </div>
                         </div>
                       ))}
@@ -228,6 +341,86 @@ export default function SessionView() {
           )}
         </div>
       </div>
+
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Workout</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-started-at">Started</Label>
+              <Input
+                id="session-started-at"
+                type="datetime-local"
+                value={editForm.startedAt}
+                onChange={(e) => setEditForm({ ...editForm, startedAt: e.target.value })}
+                data-testid="input-session-started-at"
+              />
+            </div>
+            {session.endedAt && (
+              <div className="space-y-2">
+                <Label htmlFor="session-ended-at">Ended</Label>
+                <Input
+                  id="session-ended-at"
+                  type="datetime-local"
+                  value={editForm.endedAt}
+                  onChange={(e) => setEditForm({ ...editForm, endedAt: e.target.value })}
+                  data-testid="input-session-ended-at"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="session-notes">Notes</Label>
+              <Textarea
+                id="session-notes"
+                value={editForm.notes}
+                onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+                placeholder="How did it go?"
+                data-testid="input-session-notes"
+              />
+            </div>
+            {editError && (
+              <p className="text-sm text-destructive">{editError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateSessionMutation.mutate()}
+              disabled={!!editError || updateSessionMutation.isPending}
+              data-testid="button-save-session"
+            >
+              {updateSessionMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this workout?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {totalSets} logged {totalSets === 1 ? "set" : "sets"} will be removed and your history and
+              analytics will no longer include it. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteSessionMutation.mutate()}
+              disabled={deleteSessionMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-session"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </AppLayout>
   );
 }
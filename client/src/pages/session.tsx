@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute, useLocation, Link } from "wouter";
 import { Card } from "@/components/ui/card";
@@ -6,30 +6,136 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PageSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
 import { AppHeader } from "@/components/app-header";
 import { RestTimer } from "@/components/rest-timer";
-import { Play, Square, Plus, Check, Dumbbell, Clock, ChevronDown, ChevronUp, Save, Repeat, Search, Pencil, ArrowUp, ArrowDown, Trash2, ArrowLeft } from "lucide-react";
+import { CircuitPlayer, type CircuitTimings } from "@/components/circuit-player";
+import { SetTypeSelect } from "@/components/set-type-select";
+import { PlateBreakdown } from "@/components/plate-breakdown";
+import { Play, Square, Plus, Check, Dumbbell, Clock, ChevronDown, ChevronUp, Save, Repeat, Search, Pencil, ArrowUp, ArrowDown, Trash2, ArrowLeft, CloudOff, ArrowLeftRight, Timer } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { WorkoutSession, SessionExercise, PerformedSet, Exercise, PlannedSet } from "@shared/schema";
+import { formatCircuitFormat, formatSetType, toStoredSeconds, fromStoredSeconds } from "@/lib/utils";
+import {
+  enqueueMutation, flushQueue, getQueuedMutations, discardLocalSet, createLocalId, isLocalId, resolveLocalId,
+  type QueuedMutation,
+} from "@/lib/offline-queue";
+import { createRestTimer, isRestTimerRunning, loadRestTimer, saveRestTimer } from "@/lib/rest-timer-store";
+import { generateWarmupSets, type WarmupSet } from "@shared/warmup";
+import { getEquipmentProfile, loadingEquipment } from "@shared/equipment";
+import type { WorkoutSession, SessionExercise, PerformedSet, Exercise, PlannedSet, ProgressionLogEntry, SetType, UserSettings, Circuit, RestTimerState } from "@shared/schema";
 
 interface SessionExerciseWithDetails extends SessionExercise {
   exercise?: Exercise;
   performedSets?: PerformedSet[];
   plannedSets?: PlannedSet[];
+  substitutedExerciseName?: string | null;
 }
 
 interface SessionWithDetails extends WorkoutSession {
   exercises?: SessionExerciseWithDetails[];
   templateName?: string;
   circuitNames?: Record<string, string>;
+  circuitDetails?: Record<string, Circuit>;
+}
+
+type SetValues = {
+  actualReps?: number;
+  actualWeight?: string;
+  actualTimeSeconds?: number;
+  actualDistance?: string;
+  actualRpe?: string;
+  actualRir?: number;
+  actualTempo?: string;
+  restSeconds?: number;
+  isWarmup?: boolean;
+  setType?: SetType;
+  parentSetId?: string | null;
+};
+
+// New sets carry the time they were done, so ones queued offline keep it
+type NewSetValues = SetValues & { setNumber: number; completedAt?: string };
+
+function buildLocalSet(id: string, sessionExerciseId: string, data: NewSetValues): PerformedSet {
+  return {
+    id,
+    userId: "",
+    sessionExerciseId,
+    setNumber: data.setNumber,
+    actualReps: data.actualReps ?? null,
+    actualWeight: data.actualWeight ?? null,
+    weightUnit: null, // The server records the exercise's unit
+    actualTimeSeconds: data.actualTimeSeconds ?? null,
+    actualDistance: data.actualDistance ?? null,
+    actualRpe: data.actualRpe ?? null,
+    actualRir: data.actualRir ?? null,
+    actualTempo: data.actualTempo ?? null,
+    restSeconds: data.restSeconds ?? null,
+    isWarmup: data.isWarmup ?? false,
+    setType: data.setType ?? "normal",
+    parentSetId: data.parentSetId ?? null,
+    completedAt: data.completedAt ? new Date(data.completedAt) : null,
+    createdAt: new Date(),
+  };
+}
+
+// Re-applies queued set changes on top of server data. After an offline reload
+// the session comes from the service worker cache, which predates them
+function applyQueuedSets(session: SessionWithDetails, queue: QueuedMutation[]): SessionWithDetails {
+  if (queue.length === 0) return session;
+  return {
+    ...session,
+    exercises: session.exercises?.map(ex => {
+      let sets = ex.performedSets || [];
+      for (const mutation of queue) {
+        const match = mutation.url.match(/\/exercises\/([^/]+)\/sets(?:\/([^/]+))?$/);
+        if (!match || match[1] !== ex.id) continue;
+        const setId = match[2];
+        if (mutation.method === "POST" && mutation.localId && !sets.some(set => set.id === mutation.localId)) {
+          sets = [...sets, buildLocalSet(mutation.localId, ex.id, mutation.body as NewSetValues)];
+        } else if (mutation.method === "PATCH") {
+          sets = sets.map(set => set.id === setId ? { ...set, ...(mutation.body as SetValues) } : set);
+        } else if (mutation.method === "DELETE") {
+          sets = sets.filter(set => set.id !== setId);
+        }
+      }
+      return { ...ex, performedSets: sets };
+    }),
+  };
+}
+
+// New exercise order after moving one up or down. The rounds of a circuit
+// stay together and move as a single block
+function moveExerciseBlock(exercises: SessionExerciseWithDetails[], sessionExerciseId: string, direction: "up" | "down"): string[] | null {
+  const blocks: string[][] = [];
+  for (let i = 0; i < exercises.length; i++) {
+    const ex = exercises[i];
+    if (ex.circuitId && exercises[i - 1]?.circuitId === ex.circuitId) {
+      blocks[blocks.length - 1].push(ex.id);
+    } else {
+      blocks.push([ex.id]);
+    }
+  }
+  const index = blocks.findIndex(block => block.includes(sessionExerciseId));
+  const target = direction === "up" ? index - 1 : index + 1;
+  if (index < 0 || target < 0 || target >= blocks.length) return null;
+  [blocks[index], blocks[target]] = [blocks[target], blocks[index]];
+  return blocks.flat();
 }
 
 type AddSetForm = {
@@ -38,8 +144,11 @@ type AddSetForm = {
   weight: string;
   time: string;
   distance: string;
+  rpe: string;
+  rir: string;
+  tempo: string;
   rest: string;
-  isWarmup: boolean;
+  setType: SetType;
 };
 
 const defaultForm: AddSetForm = {
@@ -48,8 +157,11 @@ const defaultForm: AddSetForm = {
   weight: "",
   time: "",
   distance: "",
+  rpe: "",
+  rir: "",
+  tempo: "",
   rest: "",
-  isWarmup: false,
+  setType: "normal",
 };
 
 type Tracking = { weight: boolean; reps: boolean; time: boolean; distance: boolean };
@@ -69,37 +181,35 @@ function getUnits(exercise?: Exercise): { weight: string; distance: string; time
   };
 }
 
-function toStoredSeconds(timeStr: string, unit: string): number {
-  const val = parseFloat(timeStr) || 0;
-  return unit === "min" ? Math.round(val * 60) : Math.round(val);
-}
-
-function fromStoredSeconds(seconds: number, unit: string): string {
-  if (unit === "min") {
-    const mins = seconds / 60;
-    return Number.isInteger(mins) ? mins.toString() : mins.toFixed(1);
-  }
-  return seconds.toString();
-}
-
 function getPreFillValues(
   sessionExercise: SessionExerciseWithDetails,
   lastPerformance?: Record<string, PerformedSet[]>,
 ): Omit<AddSetForm, "exerciseId"> | null {
   const nextSetNumber = (sessionExercise.performedSets?.length || 0) + 1;
 
-  // Priority 1: Planned set from template
+  // Priority 1: Planned set from template. Warm-ups and working sets are matched
+  // separately, so extra or skipped warm-ups don't shift the working targets
   if (sessionExercise.plannedSets && sessionExercise.plannedSets.length > 0) {
-    const planned = sessionExercise.plannedSets.find(s => s.setNumber === nextSetNumber)
-      || sessionExercise.plannedSets[0];
+    const plannedWarmups = sessionExercise.plannedSets.filter(s => s.setType === "warmup");
+    const plannedWorking = sessionExercise.plannedSets.filter(s => s.setType !== "warmup");
+    const doneWarmups = sessionExercise.performedSets?.filter(s => s.isWarmup).length || 0;
+    const doneWorking = (sessionExercise.performedSets?.length || 0) - doneWarmups;
+    const planned = doneWorking === 0 && doneWarmups < plannedWarmups.length
+      ? plannedWarmups[doneWarmups]
+      : plannedWorking[doneWorking] || plannedWorking[0] || sessionExercise.plannedSets[0];
     if (planned) {
+      // Percentage-based sets arrive with targetWeight already resolved from the training max
       return {
-        reps: planned.targetReps?.toString() || "",
+        // AMRAP reps are whatever the set turns out to be
+        reps: planned.setType === "amrap" ? "" : planned.targetReps?.toString() || "",
         weight: planned.targetWeight?.toString() || "",
         time: planned.targetTimeSeconds?.toString() || "",
         distance: (planned as any).targetDistance?.toString() || "",
+        rpe: planned.targetRpe ? String(Number(planned.targetRpe)) : "",
+        rir: planned.targetRir?.toString() ?? "",
+        tempo: planned.targetTempo || "",
         rest: planned.restSeconds?.toString() || "",
-        isWarmup: planned.isWarmup || false,
+        setType: planned.setType,
       };
     }
   }
@@ -114,8 +224,11 @@ function getPreFillValues(
       weight: lastSet.actualWeight?.toString() || "",
       time: lastSet.actualTimeSeconds?.toString() || "",
       distance: (lastSet as any).actualDistance?.toString() || "",
+      rpe: lastSet.actualRpe ? String(Number(lastSet.actualRpe)) : "",
+      rir: lastSet.actualRir?.toString() ?? "",
+      tempo: lastSet.actualTempo || "",
       rest: lastSet.restSeconds?.toString() || "",
-      isWarmup: false,
+      setType: "normal",
     };
   }
 
@@ -127,8 +240,11 @@ function getPreFillValues(
       weight: prevSet.actualWeight?.toString() || "",
       time: prevSet.actualTimeSeconds?.toString() || "",
       distance: (prevSet as any).actualDistance?.toString() || "",
+      rpe: prevSet.actualRpe ? String(Number(prevSet.actualRpe)) : "",
+      rir: prevSet.actualRir?.toString() ?? "",
+      tempo: prevSet.actualTempo || "",
       rest: prevSet.restSeconds?.toString() || "",
-      isWarmup: false,
+      setType: "normal",
     };
   }
 
@@ -142,15 +258,42 @@ function formatPreFillSummary(
 ): string {
   const parts: string[] = [];
   if (tracking.weight && preFill.weight) parts.push(`${preFill.weight} ${units.weight}`);
-  if (tracking.reps && preFill.reps) parts.push(`${preFill.reps} reps`);
+  if (tracking.reps && preFill.setType === "amrap") parts.push("max reps");
+  else if (tracking.reps && preFill.reps) parts.push(`${preFill.reps} reps`);
   if (tracking.time && preFill.time) {
     const displayVal = fromStoredSeconds(parseInt(preFill.time), units.time);
     parts.push(`${displayVal} ${units.time}`);
   }
   if (tracking.distance && preFill.distance) parts.push(`${preFill.distance} ${units.distance}`);
+  if (parts.length > 0 && preFill.rpe) parts.push(`@${preFill.rpe}`);
   return parts.length > 0 ? parts.join(" / ") : "";
 }
 
+// The weight warm-ups build toward: the first planned working set, or the
+// heaviest working set from last time
+function getWorkingWeight(
+  sessionExercise: SessionExerciseWithDetails,
+  lastPerformance?: Record<string, PerformedSet[]>,
+): number | null {
+  const planned = sessionExercise.plannedSets?.find(s => s.setType !== "warmup" && s.targetWeight);
+  if (planned) return Number(planned.targetWeight);
+  const lastWeights = (lastPerformance?.[sessionExercise.exerciseId] || [])
+    .filter(s => !s.isWarmup && s.actualWeight)
+    .map(s => Number(s.actualWeight));
+  return lastWeights.length > 0 ? Math.max(...lastWeights) : null;
+}
+
+// The rest the template plans after a set
+function plannedRestSeconds(sessionExercise: SessionExerciseWithDetails | undefined, setNumber: number): number | null {
+  return sessionExercise?.plannedSets?.find(s => s.setNumber === setNumber)?.restSeconds ?? null;
+}
+
+// A drop set continues from the set logged right before it
+function dropSetParent(sets: PerformedSet[] | undefined, setNumber: number): string | null {
+  const parent = sets?.find(s => s.setNumber === setNumber - 1);
+  return parent ? resolveLocalId(parent.id) : null;
+}
+
 export default function Session() {
   const [, params] = useRoute("/session/:id");
   const [, navigate] = useLocation();
@@ -166,8 +309,16 @@ export default function Session() {
   const [createExerciseOpen, setCreateExerciseOpen] = useState(false);
   const [newExerciseName, setNewExerciseName] = useState("");
   const [newExerciseCategory, setNewExerciseCategory] = useState("");
+  // Session exercise being swapped; the add exercise dialog picks its replacement
+  const [swapTarget, setSwapTarget] = useState<SessionExerciseWithDetails | null>(null);
+  const [removeTarget, setRemoveTarget] = useState<SessionExerciseWithDetails | null>(null);
   const [addSetForm, setAddSetForm] = useState<AddSetForm>({ ...defaultForm });
-  const [restTimer, setRestTimer] = useState<number | null>(null);
+  const [restTimer, setRestTimer] = useState<RestTimerState | null>(null);
+  const restTimerRestored = useRef(false);
+  // Circuit running in the circuit player, by circuit id
+  const [playingCircuit, setPlayingCircuit] = useState<string | null>(null);
+  // Bar picked for each barbell exercise's plate breakdown, by session exercise id
+  const [barChoice, setBarChoice] = useState<Record<string, number>>({});
   const addSetGuard = useRef(false);
   const [editingSet, setEditingSet] = useState<{
     setId: string;
@@ -176,19 +327,32 @@ export default function Session() {
     weight: string;
     time: string;
     distance: string;
+    rpe: string;
+    rir: string;
+    tempo: string;
     rest: string;
-    isWarmup: boolean;
+    setType: SetType;
   } | null>(null);
 
-  const { data: session, isLoading } = useQuery<SessionWithDetails>({
+  // Set mutations waiting in the offline queue for this session
+  const [queuedSets, setQueuedSets] = useState<QueuedMutation[]>([]);
+  const pendingSync = queuedSets.length;
+
+  const { data: serverSession, isLoading } = useQuery<SessionWithDetails>({
     queryKey: ["/api/sessions", sessionId],
     enabled: !isNew && !!sessionId,
     refetchInterval: (query) => {
       const data = query.state.data as SessionWithDetails | undefined;
-      return data?.endedAt ? false : 10000;
+      // Polling while sets are queued would wipe their optimistic rows
+      return data?.endedAt || pendingSync > 0 ? false : 10000;
     },
   });
 
+  const session = useMemo(
+    () => serverSession && applyQueuedSets(serverSession, queuedSets),
+    [serverSession, queuedSets],
+  );
+
   const isActive = session ? !session.endedAt : false;
 
   const { data: lastPerformance } = useQuery<Record<string, PerformedSet[]>>({
@@ -196,6 +360,12 @@ export default function Session() {
     enabled: !!sessionId && !isNew && isActive,
   });
 
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+    enabled: isActive,
+  });
+  const equipmentProfile = getEquipmentProfile(settings);
+
   const createAdHocMutation = useMutation({
     mutationFn: async () => {
       return await apiRequest<WorkoutSession>("POST", "/api/sessions/adhoc");
@@ -220,7 +390,8 @@ export default function Session() {
 
   const addExerciseMutation = useMutation({
     mutationFn: async (exerciseId: string) => {
-      const position = (session?.exercises?.length || 0) + 1;
+      // Removing exercises leaves gaps, so append after the highest position
+      const position = Math.max(0, ...(session?.exercises || []).map(ex => ex.position)) + 1;
       return await apiRequest("POST", `/api/sessions/${sessionId}/exercises`, {
         exerciseId,
         position,
@@ -237,6 +408,71 @@ export default function Session() {
     },
   });
 
+  const substituteExerciseMutation = useMutation({
+    mutationFn: async ({ sessionExerciseId, exerciseId }: { sessionExerciseId: string; exerciseId: string }) => {
+      return await apiRequest("PATCH", `/api/sessions/${sessionId}/exercises/${sessionExerciseId}`, { exerciseId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
+      setAddExerciseOpen(false);
+      setSwapTarget(null);
+      setExerciseSearchQuery("");
+      toast({ title: "Exercise swapped" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to swap exercise", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeExerciseMutation = useMutation({
+    mutationFn: async (sessionExerciseId: string) => {
+      await apiRequest("DELETE", `/api/sessions/${sessionId}/exercises/${sessionExerciseId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
+      setRemoveTarget(null);
+      toast({ title: "Exercise removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove exercise", variant: "destructive" });
+    },
+  });
+
+  const reorderExercisesMutation = useMutation({
+    mutationFn: async (exerciseIds: string[]) => {
+      await apiRequest("PATCH", `/api/sessions/${sessionId}/exercises/reorder`, { exerciseIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
+    },
+    onError: () => {
+      toast({ title: "Failed to reorder exercises", variant: "destructive" });
+    },
+  });
+
+  const moveExercise = (sessionExerciseId: string, direction: "up" | "down") => {
+    if (!session?.exercises) return;
+    const exerciseIds = moveExerciseBlock(session.exercises, sessionExerciseId, direction);
+    if (exerciseIds) reorderExercisesMutation.mutate(exerciseIds);
+  };
+
+  const pickExercise = (exerciseId: string) => {
+    if (swapTarget) {
+      substituteExerciseMutation.mutate({ sessionExerciseId: swapTarget.id, exerciseId });
+    } else {
+      addExerciseMutation.mutate(exerciseId);
+    }
+  };
+
+  const handleRemoveExercise = (sessionExercise: SessionExerciseWithDetails) => {
+    // Only ask when logged sets would go with it
+    if (sessionExercise.performedSets && sessionExercise.performedSets.length > 0) {
+      setRemoveTarget(sessionExercise);
+    } else {
+      removeExerciseMutation.mutate(sessionExercise.id);
+    }
+  };
+
   const exerciseCategories = ["Chest", "Arms", "Back", "Legs", "Core", "Cardio", "Other"];
 
   const createExerciseMutation = useMutation({
@@ -248,7 +484,7 @@ export default function Session() {
     },
     onSuccess: (newExercise) => {
       queryClient.invalidateQueries({ queryKey: ["/api/exercises"] });
-      addExerciseMutation.mutate(newExercise.id);
+      pickExercise(newExercise.id);
       setCreateExerciseOpen(false);
       setNewExerciseName("");
       setNewExerciseCategory("");
@@ -259,36 +495,111 @@ export default function Session() {
     },
   });
 
+  // Set add/update/delete go through the offline queue: the change is stored
+  // locally, applied to the cached session right away, then replayed to the
+  // server. Resolves to whether it's still waiting for a connection
+  const refreshPendingSync = useCallback(async () => {
+    if (!sessionId || isNew) return;
+    setQueuedSets(await getQueuedMutations(sessionId));
+  }, [sessionId, isNew]);
+
+  const syncQueue = useCallback(async (queued?: QueuedMutation) => {
+    const result = await flushQueue();
+    await refreshPendingSync();
+    if (result.synced > 0 || result.rejected.length > 0) {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
+    }
+    const ownRejected = queued && result.rejected.some(m => m.idempotencyKey === queued.idempotencyKey);
+    if (result.rejected.length > (ownRejected ? 1 : 0)) {
+      toast({ title: "Some offline changes were rejected", variant: "destructive" });
+    }
+    if (ownRejected) throw new Error("Rejected by server");
+    return result.pending > 0;
+  }, [sessionId, refreshPendingSync, toast]);
+
+  useEffect(() => {
+    if (!sessionId || isNew) return;
+    syncQueue().catch(() => undefined);
+    const handleOnline = () => {
+      syncQueue().catch(() => undefined);
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [sessionId, isNew, syncQueue]);
+
+  // Restores a rest timer left running before a reload or on another device.
+  // This device's copy wins; it has the latest pause or dismissal
+  useEffect(() => {
+    if (!sessionId || isNew || !serverSession || restTimerRestored.current) return;
+    restTimerRestored.current = true;
+    const timer = loadRestTimer(sessionId) ?? serverSession.restTimer;
+    if (!serverSession.endedAt && isRestTimerRunning(timer)) {
+      setRestTimer(timer);
+    } else {
+      saveRestTimer(sessionId, null);
+    }
+  }, [sessionId, isNew, serverSession]);
+
+  const updateRestTimer = useCallback((timer: RestTimerState | null) => {
+    if (!sessionId || isNew) return;
+    setRestTimer(timer);
+    saveRestTimer(sessionId, timer);
+    // The server copy is only for other devices, so failures are ignored
+    apiRequest("PUT", `/api/sessions/${sessionId}/rest-timer`, { timer }).catch(() => undefined);
+  }, [sessionId, isNew]);
+
+  const clearRestTimer = useCallback(() => updateRestTimer(null), [updateRestTimer]);
+
+  const updateCachedSets = (sessionExerciseId: string, update: (sets: PerformedSet[]) => PerformedSet[]) => {
+    queryClient.setQueryData<SessionWithDetails>(["/api/sessions", sessionId], (old) => old && {
+      ...old,
+      exercises: old.exercises?.map(ex =>
+        ex.id === sessionExerciseId ? { ...ex, performedSets: update(ex.performedSets || []) } : ex
+      ),
+    });
+  };
+
   const addSetMutation = useMutation({
+    // Batch logs (the warm-up ramp) set `batch` and report and clear the guard
+    // themselves once every set is in, without a rest timer per set
     mutationFn: async ({ sessionExerciseId, data }: {
       sessionExerciseId: string;
-      data: {
-        setNumber: number;
-        actualReps?: number;
-        actualWeight?: string;
-        actualTimeSeconds?: number;
-        actualDistance?: string;
-        restSeconds?: number;
-        isWarmup?: boolean;
-      };
+      data: SetValues & { setNumber: number };
+      batch?: boolean;
     }) => {
-      return await apiRequest("POST", `/api/sessions/${sessionId}/exercises/${sessionExerciseId}/sets`, data);
+      const localId = createLocalId();
+      const body: NewSetValues = { ...data, completedAt: new Date().toISOString() };
+      const queued = await enqueueMutation({
+        sessionId: sessionId!,
+        method: "POST",
+        url: `/api/sessions/${sessionId}/exercises/${sessionExerciseId}/sets`,
+        body,
+        localId,
+      });
+      await queryClient.cancelQueries({ queryKey: ["/api/sessions", sessionId] });
+      updateCachedSets(sessionExerciseId, sets => [...sets, buildLocalSet(localId, sessionExerciseId, body)]);
+      setQueuedSets(prev => [...prev, queued]);
+      return await syncQueue(queued);
     },
-    onSuccess: (_data, variables) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
-      // Start rest timer if rest seconds specified
-      const restSecs = variables.data.restSeconds;
-      if (restSecs && restSecs > 0) {
-        setRestTimer(restSecs);
+    onSuccess: (offline, variables) => {
+      if (variables.batch) return;
+      // Start the rest timer with the logged rest, or the planned rest for the set.
+      // The circuit player runs its own rests
+      const restSecs = variables.data.restSeconds ?? plannedRestSeconds(
+        session?.exercises?.find(ex => ex.id === variables.sessionExerciseId),
+        variables.data.setNumber,
+      );
+      if (restSecs && restSecs > 0 && !playingCircuit) {
+        updateRestTimer(createRestTimer(restSecs));
       }
       resetAddSetForm();
-      toast({ title: "Set logged" });
+      toast({ title: offline ? "Set saved offline" : "Set logged" });
     },
     onError: () => {
       toast({ title: "Failed to log set", variant: "destructive" });
     },
-    onSettled: () => {
-      addSetGuard.current = false;
+    onSettled: (_offline, _error, variables) => {
+      if (!variables.batch) addSetGuard.current = false;
     },
   });
 
@@ -296,21 +607,22 @@ export default function Session() {
     mutationFn: async ({ sessionExerciseId, setId, data }: {
       sessionExerciseId: string;
       setId: string;
-      data: {
-        actualReps?: number;
-        actualWeight?: string;
-        actualTimeSeconds?: number;
-        actualDistance?: string;
-        restSeconds?: number;
-        isWarmup?: boolean;
-      };
+      data: SetValues;
     }) => {
-      return await apiRequest("PATCH", `/api/sessions/${sessionId}/exercises/${sessionExerciseId}/sets/${setId}`, data);
+      const queued = await enqueueMutation({
+        sessionId: sessionId!,
+        method: "PATCH",
+        url: `/api/sessions/${sessionId}/exercises/${sessionExerciseId}/sets/${setId}`,
+        body: data,
+      });
+      await queryClient.cancelQueries({ queryKey: ["/api/sessions", sessionId] });
+      updateCachedSets(sessionExerciseId, sets => sets.map(set => set.id === setId ? { ...set, ...data } : set));
+      setQueuedSets(prev => [...prev, queued]);
+      return await syncQueue(queued);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
+    onSuccess: (offline) => {
       setEditingSet(null);
-      toast({ title: "Set updated" });
+      toast({ title: offline ? "Change saved offline" : "Set updated" });
     },
     onError: () => {
       toast({ title: "Failed to update set", variant: "destructive" });
@@ -319,12 +631,25 @@ export default function Session() {
 
   const deleteSetMutation = useMutation({
     mutationFn: async ({ sessionExerciseId, setId }: { sessionExerciseId: string; setId: string }) => {
-      return await apiRequest("DELETE", `/api/sessions/${sessionId}/exercises/${sessionExerciseId}/sets/${setId}`);
+      await queryClient.cancelQueries({ queryKey: ["/api/sessions", sessionId] });
+      updateCachedSets(sessionExerciseId, sets => sets.filter(set => set.id !== setId));
+      // A set that never reached the server just disappears from the queue
+      if (isLocalId(resolveLocalId(setId))) {
+        await discardLocalSet(setId);
+        await refreshPendingSync();
+        return false;
+      }
+      const queued = await enqueueMutation({
+        sessionId: sessionId!,
+        method: "DELETE",
+        url: `/api/sessions/${sessionId}/exercises/${sessionExerciseId}/sets/${setId}`,
+      });
+      setQueuedSets(prev => [...prev, queued]);
+      return await syncQueue(queued);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
+    onSuccess: (offline) => {
       setEditingSet(null);
-      toast({ title: "Set deleted" });
+      toast({ title: offline ? "Delete saved offline" : "Set deleted" });
     },
     onError: () => {
       toast({ title: "Failed to delete set", variant: "destructive" });
@@ -333,19 +658,41 @@ export default function Session() {
 
   const endSessionMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest("POST", `/api/sessions/${sessionId}/end`, {
+      // Ending locks in progression against logged sets, so everything must be synced first
+      if (await syncQueue()) {
+        throw new Error("Sets are still waiting to sync");
+      }
+      return await apiRequest<WorkoutSession & { progressions?: ProgressionLogEntry[] }>("POST", `/api/sessions/${sessionId}/end`, {
         notes: sessionNotes || undefined,
       });
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/programs/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/overview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/muscle-sets"] });
       setEndDialogOpen(false);
-      navigate("/history");
-      toast({ title: "Workout completed!" });
+      saveRestTimer(sessionId!, null);
+      navigate(`/session/${sessionId}/summary`);
+      const progressed = data.progressions?.filter(p => p.outcome === "progressed").length || 0;
+      const reset = data.progressions?.filter(p => p.outcome === "reset").length || 0;
+      if (progressed + reset > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      }
+      toast({
+        title: "Workout completed!",
+        description: progressed + reset > 0
+          ? [progressed > 0 && `${progressed} ${progressed === 1 ? "exercise" : "exercises"} progressed`, reset > 0 && `${reset} reset`].filter(Boolean).join(", ")
+          : undefined,
+      });
     },
     onError: () => {
-      toast({ title: "Failed to end workout", variant: "destructive" });
+      toast({
+        title: "Failed to end workout",
+        description: pendingSync > 0 ? "Some sets haven't synced yet. Reconnect and try again." : undefined,
+        variant: "destructive",
+      });
     },
   });
 
@@ -378,13 +725,23 @@ export default function Session() {
     if (addSetForm.weight) data.actualWeight = addSetForm.weight;
     if (addSetForm.time) data.actualTimeSeconds = toStoredSeconds(addSetForm.time, units.time);
     if (addSetForm.distance) data.actualDistance = addSetForm.distance;
+    if (addSetForm.rpe) data.actualRpe = addSetForm.rpe;
+    if (addSetForm.rir) data.actualRir = parseInt(addSetForm.rir);
+    if (addSetForm.tempo.trim()) data.actualTempo = addSetForm.tempo.trim();
     if (addSetForm.rest) data.restSeconds = parseInt(addSetForm.rest);
-    data.isWarmup = addSetForm.isWarmup;
+    data.setType = addSetForm.setType;
+    data.isWarmup = addSetForm.setType === "warmup";
+    if (addSetForm.setType === "drop") data.parentSetId = dropSetParent(sessionExercise.performedSets, data.setNumber);
 
     addSetMutation.mutate({ sessionExerciseId: sessionExercise.id, data });
   };
 
   const handleQuickLog = (sessionExercise: SessionExerciseWithDetails, preFill: Omit<AddSetForm, "exerciseId">) => {
+    // AMRAP reps aren't known until the set is done
+    if (preFill.setType === "amrap" && getTracking(sessionExercise.exercise).reps) {
+      openFormWithPreFill(sessionExercise);
+      return;
+    }
     if (addSetGuard.current) return;
     addSetGuard.current = true;
 
@@ -397,12 +754,65 @@ export default function Session() {
     if (preFill.weight) data.actualWeight = preFill.weight;
     if (preFill.time) data.actualTimeSeconds = parseInt(preFill.time);
     if (preFill.distance) data.actualDistance = preFill.distance;
+    if (preFill.rpe) data.actualRpe = preFill.rpe;
+    if (preFill.rir) data.actualRir = parseInt(preFill.rir);
+    if (preFill.tempo) data.actualTempo = preFill.tempo;
     if (preFill.rest) data.restSeconds = parseInt(preFill.rest);
-    data.isWarmup = preFill.isWarmup;
+    data.setType = preFill.setType;
+    data.isWarmup = preFill.setType === "warmup";
+    if (preFill.setType === "drop") data.parentSetId = dropSetParent(sessionExercise.performedSets, data.setNumber);
 
     addSetMutation.mutate({ sessionExerciseId: sessionExercise.id, data });
   };
 
+  // Logs a circuit player step with the exercise's planned or usual values and
+  // the seconds the step took
+  const logCircuitSet = (sessionExerciseId: string, seconds: number) => {
+    const sessionExercise = session?.exercises?.find(ex => ex.id === sessionExerciseId);
+    if (!sessionExercise) return;
+    const tracking = getTracking(sessionExercise.exercise);
+    const preFill = getPreFillValues(sessionExercise, lastPerformance);
+    const data: SetValues & { setNumber: number } = {
+      setNumber: (sessionExercise.performedSets?.length || 0) + 1,
+      actualTimeSeconds: seconds,
+    };
+    if (tracking.reps && preFill?.reps) data.actualReps = parseInt(preFill.reps);
+    if (tracking.weight && preFill?.weight) data.actualWeight = preFill.weight;
+    if (tracking.distance && preFill?.distance) data.actualDistance = preFill.distance;
+    addSetMutation.mutate({ sessionExerciseId, data });
+  };
+
+  // Logs generated warm-ups in order; one tap logs the whole ramp
+  const logWarmups = async (sessionExercise: SessionExerciseWithDetails, warmups: WarmupSet[]) => {
+    if (addSetGuard.current) return;
+    addSetGuard.current = true;
+
+    const currentSetsCount = sessionExercise.performedSets?.length || 0;
+    let offline = false;
+    try {
+      for (let i = 0; i < warmups.length; i++) {
+        const savedOffline = await addSetMutation.mutateAsync({
+          sessionExerciseId: sessionExercise.id,
+          data: {
+            setNumber: currentSetsCount + i + 1,
+            actualWeight: String(warmups[i].weight),
+            actualReps: warmups[i].reps,
+            setType: "warmup",
+            isWarmup: true,
+          },
+          batch: true,
+        });
+        offline = offline || savedOffline;
+      }
+      const logged = warmups.length === 1 ? "Warm-up set" : "Warm-ups";
+      toast({ title: offline ? `${logged} saved offline` : `${logged} logged` });
+    } catch {
+      // The mutation's onError already reported it
+    } finally {
+      addSetGuard.current = false;
+    }
+  };
+
   const openFormWithPreFill = (sessionExercise: SessionExerciseWithDetails) => {
     const units = getUnits(sessionExercise.exercise);
     const preFill = getPreFillValues(sessionExercise, lastPerformance);
@@ -476,6 +886,16 @@ export default function Session() {
                 </div>
               </div>
             </div>
+            {pendingSync > 0 && (
+              <button
+                onClick={() => syncQueue().catch(() => undefined)}
+                className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+                data-testid="button-sync-pending"
+              >
+                <CloudOff className="h-3.5 w-3.5" />
+                {pendingSync} unsynced
+              </button>
+            )}
             {isActive ? (
               <Dialog open={endDialogOpen} onOpenChange={setEndDialogOpen}>
                 <DialogTrigger asChild>
@@ -569,6 +989,44 @@ export default function Session() {
                       <Badge variant="secondary" className="text-xs">
                         {group.circuitRounds} {group.circuitRounds === 1 ? "round" : "rounds"}
                       </Badge>
+                      {session.circuitDetails?.[group.circuitId!] && session.circuitDetails[group.circuitId!].format !== "standard" && (
+                        <Badge variant="outline" className="text-xs">
+                          {formatCircuitFormat(session.circuitDetails[group.circuitId!].format)}
+                        </Badge>
+                      )}
+                      {isActive && (
+                        <div className="ml-auto flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => setPlayingCircuit(group.circuitId!)}
+                            data-testid={`button-play-circuit-${group.circuitId}`}
+                          >
+                            <Timer className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => moveExercise(group.items[0].id, "up")}
+                            disabled={reorderExercisesMutation.isPending}
+                            data-testid={`button-move-circuit-up-${group.circuitId}`}
+                          >
+                            <ChevronUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => moveExercise(group.items[0].id, "down")}
+                            disabled={reorderExercisesMutation.isPending}
+                            data-testid={`button-move-circuit-down-${group.circuitId}`}
+                          >
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                     {group.items.map((sessionExercise) => {
                       const globalIndex = session.exercises!.indexOf(sessionExercise);
@@ -593,6 +1051,32 @@ export default function Session() {
             const preFillSummary = preFill ? formatPreFillSummary(preFill, tracking, units) : "";
             const lastSets = lastPerformance?.[sessionExercise.exerciseId];
 
+            // Generated warm-ups still to do, unless the template plans its own
+            // or working sets have started
+            const workingWeight = isActive && tracking.weight ? getWorkingWeight(sessionExercise, lastPerformance) : null;
+            const loggedWarmups = sessionExercise.performedSets?.filter(s => s.isWarmup).length || 0;
+            const warmups = settings && workingWeight
+              && !sessionExercise.plannedSets?.some(s => s.setType === "warmup")
+              && !sessionExercise.performedSets?.some(s => !s.isWarmup)
+              ? generateWarmupSets(
+                  workingWeight,
+                  settings.warmupScheme ?? [],
+                  loadingEquipment(sessionExercise.exercise, equipmentProfile),
+                  equipmentProfile,
+                ).slice(loggedWarmups)
+              : [];
+
+            const equipment = loadingEquipment(sessionExercise.exercise, equipmentProfile);
+            const barWeight = barChoice[sessionExercise.id];
+            const nextBar = () => {
+              const bars = equipmentProfile.barWeights;
+              const current = bars.indexOf(barWeight ?? bars[0]);
+              setBarChoice(prev => ({ ...prev, [sessionExercise.id]: bars[(current + 1) % bars.length] }));
+            };
+            const targetWeights = Array.from(new Set(
+              (sessionExercise.plannedSets || []).filter(s => s.targetWeight).map(s => Number(s.targetWeight)),
+            ));
+
             // Count enabled tracking fields (excluding rest which always shows)
             const enabledFields = [tracking.reps, tracking.weight, tracking.time, tracking.distance].filter(Boolean).length;
             const gridCols = enabledFields <= 2 ? "grid-cols-2" : "grid-cols-2";
@@ -611,6 +1095,11 @@ export default function Session() {
                       <div className="flex items-center gap-1">
                         <p className="font-medium">{sessionExercise.exercise?.name}</p>
                       </div>
+                      {sessionExercise.substitutedExerciseName && (
+                        <p className="text-xs text-muted-foreground">
+                          Instead of {sessionExercise.substitutedExerciseName}
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground">
                         {completedSets}{plannedSetsCount > 0 ? `/${plannedSetsCount}` : ""} sets
                       </p>
@@ -632,13 +1121,34 @@ export default function Session() {
                         <div className="flex flex-wrap gap-2">
                           {sessionExercise.plannedSets.map((set) => (
                             <Badge key={set.id} variant="outline" className="text-xs">
-                              {set.targetReps && `${set.targetReps}\u00d7`}
+                              {set.setType === "amrap" ? "max reps\u00d7" : set.targetReps && `${set.targetReps}\u00d7`}
                               {set.targetWeight && `${set.targetWeight}${units.weight}`}
+                              {set.targetPercent && ` (${Number(set.targetPercent)}%)`}
                               {set.targetTimeSeconds && `${fromStoredSeconds(set.targetTimeSeconds, units.time)}${units.time}`}
                               {(set as any).targetDistance && `${(set as any).targetDistance}${units.distance}`}
+                              {set.targetRpe && ` @${Number(set.targetRpe)}`}
+                              {set.targetRir !== null && ` ${set.targetRir} RIR`}
+                              {set.targetTempo && ` ${set.targetTempo}`}
+                              {set.setType !== "normal" && set.setType !== "amrap" && ` (${formatSetType(set.setType)})`}
                             </Badge>
                           ))}
                         </div>
+                        {isActive && tracking.weight && targetWeights.length > 0 && (
+                          <div className="mt-2 space-y-0.5">
+                            {targetWeights.map((weight) => (
+                              <PlateBreakdown
+                                key={weight}
+                                weight={weight}
+                                equipment={equipment}
+                                profile={equipmentProfile}
+                                unit={units.weight}
+                                barWeight={barWeight}
+                                onNextBar={nextBar}
+                                testId={`plates-target-${sessionExercise.id}-${weight}`}
+                              />
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -653,12 +1163,50 @@ export default function Session() {
                               {set.actualWeight && `${set.actualWeight}${units.weight}`}
                               {set.actualTimeSeconds && `${fromStoredSeconds(set.actualTimeSeconds, units.time)}${units.time}`}
                               {(set as any).actualDistance && `${(set as any).actualDistance}${units.distance}`}
+                              {set.actualRpe && ` @${Number(set.actualRpe)}`}
                             </Badge>
                           ))}
                         </div>
                       </div>
                     )}
 
+                    {/* Warm-up ramp */}
+                    {warmups.length > 0 && (
+                      <div className="p-2 bg-orange-50 dark:bg-orange-950/20 rounded-lg" data-testid={`warmups-${sessionExercise.id}`}>
+                        <div className="flex items-center justify-between mb-2">
+                          <p className="text-xs font-medium text-orange-600 dark:text-orange-400">
+                            Warm-up to {workingWeight}{units.weight}
+                          </p>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => logWarmups(sessionExercise, warmups)}
+                            disabled={addSetMutation.isPending}
+                            data-testid={`button-log-warmups-${sessionExercise.id}`}
+                          >
+                            <Check className="h-3 w-3 mr-1" />
+                            Log all
+                          </Button>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {warmups.map((warmup, i) => (
+                            <button
+                              key={i}
+                              onClick={() => logWarmups(sessionExercise, [warmup])}
+                              disabled={addSetMutation.isPending}
+                              title="Log this warm-up set"
+                              data-testid={`button-log-warmup-${sessionExercise.id}-${i}`}
+                            >
+                              <Badge variant="outline" className="text-xs border-orange-200 dark:border-orange-800">
+                                {warmup.reps}{"\u00d7"}{warmup.weight}{units.weight}
+                              </Badge>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Performed sets with improvement indicators */}
                     {sessionExercise.performedSets && sessionExercise.performedSets.length > 0 && (
                       <div className="space-y-1">
@@ -738,14 +1286,42 @@ export default function Session() {
                                     onChange={(e) => setEditingSet(prev => prev ? { ...prev, rest: e.target.value } : null)}
                                   />
                                 </div>
-                                <div className="flex items-center gap-2">
-                                  <Checkbox
-                                    id={`edit-warmup-${set.id}`}
-                                    checked={editingSet.isWarmup}
-                                    onCheckedChange={(checked) => setEditingSet(prev => prev ? { ...prev, isWarmup: !!checked } : null)}
-                                  />
-                                  <Label htmlFor={`edit-warmup-${set.id}`} className="text-sm">Warmup</Label>
+                                <div className="grid grid-cols-3 gap-3">
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">RPE</Label>
+                                    <Input
+                                      type="number"
+                                      inputMode="decimal"
+                                      step="0.5"
+                                      min="1"
+                                      max="10"
+                                      value={editingSet.rpe}
+                                      onChange={(e) => setEditingSet(prev => prev ? { ...prev, rpe: e.target.value } : null)}
+                                    />
+                                  </div>
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">RIR</Label>
+                                    <Input
+                                      type="number"
+                                      inputMode="numeric"
+                                      min="0"
+                                      value={editingSet.rir}
+                                      onChange={(e) => setEditingSet(prev => prev ? { ...prev, rir: e.target.value } : null)}
+                                    />
+                                  </div>
+                                  <div className="space-y-1">
+                                    <Label className="text-xs">Tempo</Label>
+                                    <Input
+                                      value={editingSet.tempo}
+                                      onChange={(e) => setEditingSet(prev => prev ? { ...prev, tempo: e.target.value } : null)}
+                                    />
+                                  </div>
                                 </div>
+                                <SetTypeSelect
+                                  value={editingSet.setType}
+                                  onChange={(setType) => setEditingSet(prev => prev ? { ...prev, setType } : null)}
+                                  allowDrop={set.setNumber > 1}
+                                />
                                 <div className="flex gap-2">
                                   <Button
                                     className="flex-1"
@@ -759,9 +1335,16 @@ export default function Session() {
                                       else data.actualTimeSeconds = null;
                                       if (editingSet.distance) data.actualDistance = editingSet.distance;
                                       else data.actualDistance = null;
+                                      data.actualRpe = editingSet.rpe || null;
+                                      data.actualRir = editingSet.rir ? parseInt(editingSet.rir) : null;
+                                      data.actualTempo = editingSet.tempo.trim() || null;
                                       if (editingSet.rest) data.restSeconds = parseInt(editingSet.rest);
                                       else data.restSeconds = null;
-                                      data.isWarmup = editingSet.isWarmup;
+                                      data.setType = editingSet.setType;
+                                      data.isWarmup = editingSet.setType === "warmup";
+                                      data.parentSetId = editingSet.setType === "drop"
+                                        ? set.parentSetId ?? dropSetParent(sessionExercise.performedSets, set.setNumber)
+                                        : null;
                                       updateSetMutation.mutate({
                                         sessionExerciseId: editingSet.sessionExerciseId,
                                         setId: editingSet.setId,
@@ -797,7 +1380,7 @@ export default function Session() {
                           return (
                             <div
                               key={set.id}
-                              className={`flex items-center justify-between px-3 py-2 bg-green-50 dark:bg-green-950/20 rounded-lg text-sm ${isActive ? "cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/30" : ""}`}
+                              className={`flex items-center justify-between px-3 py-2 bg-green-50 dark:bg-green-950/20 rounded-lg text-sm ${set.parentSetId ? "ml-4" : ""} ${isActive ? "cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/30" : ""}`}
                               data-testid={`row-set-${set.id}`}
                               onClick={() => {
                                 if (!isActive) return;
@@ -808,16 +1391,19 @@ export default function Session() {
                                   weight: set.actualWeight?.toString() || "",
                                   time: set.actualTimeSeconds ? fromStoredSeconds(set.actualTimeSeconds, units.time) : "",
                                   distance: (set as any).actualDistance?.toString() || "",
+                                  rpe: set.actualRpe ? String(Number(set.actualRpe)) : "",
+                                  rir: set.actualRir?.toString() ?? "",
+                                  tempo: set.actualTempo || "",
                                   rest: set.restSeconds?.toString() || "",
-                                  isWarmup: set.isWarmup || false,
+                                  setType: set.setType,
                                 });
                               }}
                             >
                               <div className="flex items-center gap-2">
                                 <Check className="h-4 w-4 text-green-600" />
                                 <span className="font-medium">Set {set.setNumber}</span>
-                                {set.isWarmup && (
-                                  <Badge variant="secondary" className="text-xs">warmup</Badge>
+                                {set.setType !== "normal" && (
+                                  <Badge variant="secondary" className="text-xs">{formatSetType(set.setType)}</Badge>
                                 )}
                                 {indicator === "up" && <ArrowUp className="h-3 w-3 text-green-600" />}
                                 {indicator === "down" && <ArrowDown className="h-3 w-3 text-red-500" />}
@@ -827,6 +1413,9 @@ export default function Session() {
                                 {set.actualReps && <span>{set.actualReps} reps</span>}
                                 {set.actualTimeSeconds && <span>{fromStoredSeconds(set.actualTimeSeconds, units.time)} {units.time}</span>}
                                 {(set as any).actualDistance && <span>{(set as any).actualDistance} {units.distance}</span>}
+                                {set.actualRpe && <span>@{Number(set.actualRpe)}</span>}
+                                {set.actualRir !== null && <span>{set.actualRir} RIR</span>}
+                                {set.actualTempo && <span className="text-xs">{set.actualTempo}</span>}
                               </div>
                             </div>
                           );
@@ -846,7 +1435,7 @@ export default function Session() {
                                   <Input
                                     type="number"
                                     inputMode="numeric"
-                                    placeholder="10"
+                                    placeholder={addSetForm.setType === "amrap" ? "Max" : "10"}
                                     value={addSetForm.reps}
                                     onChange={(e) => setAddSetForm(prev => ({ ...prev, reps: e.target.value }))}
                                     className="h-12 text-lg"
@@ -866,6 +1455,15 @@ export default function Session() {
                                     className="h-12 text-lg"
                                     data-testid="input-actual-weight"
                                   />
+                                  <PlateBreakdown
+                                    weight={Number(addSetForm.weight)}
+                                    equipment={equipment}
+                                    profile={equipmentProfile}
+                                    unit={units.weight}
+                                    barWeight={barWeight}
+                                    onNextBar={nextBar}
+                                    testId="plates-actual-weight"
+                                  />
                                 </div>
                               )}
                               {tracking.time && (
@@ -908,15 +1506,49 @@ export default function Session() {
                                 data-testid="input-actual-rest"
                               />
                             </div>
-                            <div className="flex items-center gap-2">
-                              <Checkbox
-                                id={`warmup-set-${sessionExercise.id}`}
-                                checked={addSetForm.isWarmup}
-                                onCheckedChange={(checked) => setAddSetForm(prev => ({ ...prev, isWarmup: !!checked }))}
-                                data-testid="checkbox-actual-warmup"
-                              />
-                              <Label htmlFor={`warmup-set-${sessionExercise.id}`} className="text-sm">Warmup</Label>
+                            <div className="grid grid-cols-3 gap-3">
+                              <div className="space-y-1">
+                                <Label className="text-xs">RPE</Label>
+                                <Input
+                                  type="number"
+                                  inputMode="decimal"
+                                  step="0.5"
+                                  min="1"
+                                  max="10"
+                                  placeholder="8"
+                                  value={addSetForm.rpe}
+                                  onChange={(e) => setAddSetForm(prev => ({ ...prev, rpe: e.target.value }))}
+                                  data-testid="input-actual-rpe"
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <Label className="text-xs">RIR</Label>
+                                <Input
+                                  type="number"
+                                  inputMode="numeric"
+                                  min="0"
+                                  placeholder="2"
+                                  value={addSetForm.rir}
+                                  onChange={(e) => setAddSetForm(prev => ({ ...prev, rir: e.target.value }))}
+                                  data-testid="input-actual-rir"
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <Label className="text-xs">Tempo</Label>
+                                <Input
+                                  placeholder="3-1-1-0"
+                                  value={addSetForm.tempo}
+                                  onChange={(e) => setAddSetForm(prev => ({ ...prev, tempo: e.target.value }))}
+                                  data-testid="input-actual-tempo"
+                                />
+                              </div>
                             </div>
+                            <SetTypeSelect
+                              value={addSetForm.setType}
+                              onChange={(setType) => setAddSetForm(prev => ({ ...prev, setType }))}
+                              allowDrop={completedSets > 0}
+                              testId="select-actual-set-type"
+                            />
                             <div className="flex gap-2">
                               <Button
                                 className="flex-1 h-12"
@@ -934,25 +1566,39 @@ export default function Session() {
                           </div>
                         ) : (
                           preFillSummary ? (
-                            <div className="flex gap-2">
-                              <Button
-                                className="flex-1 h-12"
-                                onClick={() => handleQuickLog(sessionExercise, preFill!)}
-                                disabled={addSetMutation.isPending}
-                                data-testid={`button-quick-log-${sessionExercise.id}`}
-                              >
-                                <Check className="h-4 w-4 mr-2" />
-                                Log {preFillSummary}
-                              </Button>
-                              <Button
-                                variant="outline"
-                                size="icon"
-                                className="h-12 w-12"
-                                onClick={() => openFormWithPreFill(sessionExercise)}
-                                data-testid={`button-edit-set-${sessionExercise.id}`}
-                              >
-                                <Pencil className="h-4 w-4" />
-                              </Button>
+                            <div className="space-y-1">
+                              <div className="flex gap-2">
+                                <Button
+                                  className="flex-1 h-12"
+                                  onClick={() => handleQuickLog(sessionExercise, preFill!)}
+                                  disabled={addSetMutation.isPending}
+                                  data-testid={`button-quick-log-${sessionExercise.id}`}
+                                >
+                                  <Check className="h-4 w-4 mr-2" />
+                                  Log {preFillSummary}
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="icon"
+                                  className="h-12 w-12"
+                                  onClick={() => openFormWithPreFill(sessionExercise)}
+                                  data-testid={`button-edit-set-${sessionExercise.id}`}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </div>
+                              {/* Planned weights are broken down with the targets above */}
+                              {targetWeights.length === 0 && tracking.weight && (
+                                <PlateBreakdown
+                                  weight={Number(preFill!.weight)}
+                                  equipment={equipment}
+                                  profile={equipmentProfile}
+                                  unit={units.weight}
+                                  barWeight={barWeight}
+                                  onNextBar={nextBar}
+                                  testId={`plates-quick-log-${sessionExercise.id}`}
+                                />
+                              )}
                             </div>
                           ) : (
                             <Button
@@ -966,6 +1612,56 @@ export default function Session() {
                             </Button>
                           )
                         )}
+
+                        <div className="flex items-center gap-1 pt-1 border-t border-border">
+                          {!sessionExercise.circuitId && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => moveExercise(sessionExercise.id, "up")}
+                                disabled={reorderExercisesMutation.isPending}
+                                data-testid={`button-move-up-${sessionExercise.id}`}
+                              >
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => moveExercise(sessionExercise.id, "down")}
+                                disabled={reorderExercisesMutation.isPending}
+                                data-testid={`button-move-down-${sessionExercise.id}`}
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="ml-auto"
+                            onClick={() => {
+                              setSwapTarget(sessionExercise);
+                              setAddExerciseOpen(true);
+                            }}
+                            disabled={completedSets > 0}
+                            title={completedSets > 0 ? "Delete the logged sets to swap this exercise" : undefined}
+                            data-testid={`button-swap-exercise-${sessionExercise.id}`}
+                          >
+                            <ArrowLeftRight className="h-4 w-4 mr-1" />
+                            Swap
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveExercise(sessionExercise)}
+                            disabled={pendingSync > 0 || removeExerciseMutation.isPending}
+                            data-testid={`button-remove-exercise-${sessionExercise.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1 text-destructive" />
+                            Remove
+                          </Button>
+                        </div>
                       </>
                     )}
                   </div>
@@ -990,6 +1686,7 @@ export default function Session() {
               setCreateExerciseOpen(false);
               setNewExerciseName("");
               setNewExerciseCategory("");
+              setSwapTarget(null);
             }
           }}>
             <DialogTrigger asChild>
@@ -1000,7 +1697,9 @@ export default function Session() {
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Add Exercise</DialogTitle>
+                <DialogTitle>
+                  {swapTarget ? `Swap ${swapTarget.exercise?.name || "Exercise"}` : "Add Exercise"}
+                </DialogTitle>
               </DialogHeader>
               {createExerciseOpen ? (
                 <div className="space-y-3 pt-2">
@@ -1063,8 +1762,8 @@ export default function Session() {
                       filteredExercises.map((exercise) => (
                         <button
                           key={exercise.id}
-                          onClick={() => addExerciseMutation.mutate(exercise.id)}
-                          disabled={addExerciseMutation.isPending}
+                          onClick={() => pickExercise(exercise.id)}
+                          disabled={addExerciseMutation.isPending || substituteExerciseMutation.isPending}
                           className="w-full text-left px-3 py-2 text-sm hover:bg-accent hover:text-accent-foreground transition-colors border-b border-border last:border-b-0"
                           data-testid={`option-add-exercise-${exercise.id}`}
                         >
@@ -1109,12 +1808,68 @@ export default function Session() {
         )}
       </div>
 
+      <AlertDialog open={!!removeTarget} onOpenChange={(open) => !open && setRemoveTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {removeTarget?.exercise?.name || "exercise"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {removeTarget?.performedSets?.length} logged {removeTarget?.performedSets?.length === 1 ? "set" : "sets"} will be deleted too.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removeTarget && removeExerciseMutation.mutate(removeTarget.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-remove-exercise"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {playingCircuit && (() => {
+        const items = session.exercises?.filter(ex => ex.circuitId === playingCircuit) || [];
+        if (items.length === 0) return null;
+        const timings: CircuitTimings = session.circuitDetails?.[playingCircuit] ?? {
+          format: "standard",
+          intervalSeconds: null,
+          timeCapSeconds: null,
+          restBetweenExercisesSeconds: null,
+          restBetweenRoundsSeconds: null,
+        };
+        // Rounds already logged by hand are skipped, except in AMRAP, which is one timed block
+        const startRound = timings.format === "amrap"
+          ? 1
+          : Math.min(...items.map(ex => ex.performedSets?.length || 0)) + 1;
+        return (
+          <CircuitPlayer
+            name={session.circuitNames?.[playingCircuit] || "Circuit"}
+            timings={timings}
+            rounds={items[0].circuitRounds || 1}
+            startRound={startRound}
+            exercises={items.map(ex => {
+              const preFill = getPreFillValues(ex, lastPerformance);
+              return {
+                sessionExerciseId: ex.id,
+                name: ex.exercise?.name || "Exercise",
+                target: preFill ? formatPreFillSummary(preFill, getTracking(ex.exercise), getUnits(ex.exercise)) : "",
+              };
+            })}
+            onLogSet={logCircuitSet}
+            onClose={() => setPlayingCircuit(null)}
+          />
+        );
+      })()}
+
       {/* Rest Timer */}
       {restTimer !== null && (
         <RestTimer
-          initialSeconds={restTimer}
-          onComplete={() => setRestTimer(null)}
-          onDismiss={() => setRestTimer(null)}
+          timer={restTimer}
+          onChange={updateRestTimer}
+          onComplete={clearRestTimer}
+          onDismiss={clearRestTimer}
         />
       )}
     </div>
@@ -6,16 +6,59 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
 import { useAuth } from "@/hooks/use-auth";
 import { useTheme } from "@/components/theme-provider";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Scale, Plus, TrendingDown, TrendingUp, Minus, Moon, Sun, LogOut, ChevronRight, Key } from "lucide-react";
+import { Scale, Ruler, Plus, TrendingDown, TrendingUp, Minus, Moon, Sun, LogOut, ChevronRight, Key, TimerOff, Flame, X, Dumbbell } from "lucide-react";
 import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { BodyWeightLog } from "@shared/schema";
+import { DEFAULT_EQUIPMENT, getEquipmentProfile } from "@shared/equipment";
+import { weightUnits, type BodyWeightLog, type UserSettings, type WeightUnit } from "@shared/schema";
+import { convertWeight, roundWeight } from "@shared/units";
+
+const autoEndOptions = [2, 4, 6, 12, 24];
+
+type WarmupForm = {
+  steps: { percent: string; reps: string }[];
+};
+
+type EquipmentForm = {
+  barWeights: string;
+  plates: string;
+  dumbbellIncrement: string;
+  machineStep: string;
+};
+
+// "45, 35, 25" -> [45, 35, 25]; anything that isn't a positive number is dropped
+function parseWeightList(value: string): number[] {
+  return value.split(/[\s,]+/).map(v => parseFloat(v)).filter(v => v > 0);
+}
+
+function describeWarmupScheme(settings: UserSettings): string {
+  return (settings.warmupScheme ?? [])
+    .map(step => `${step.percent === 0 ? "Bar" : `${step.percent}%`} \u00d7${step.reps}`)
+    .join(", ") || "No warm-up steps";
+}
+
+// Whether the equipment is still the stock setup for a unit, so switching
+// units can swap it for the other unit's stock setup
+function isDefaultEquipment(settings: UserSettings): boolean {
+  const profile = getEquipmentProfile(settings);
+  const defaults = DEFAULT_EQUIPMENT[profile.unit];
+  return profile.barWeights.join() === defaults.barWeights.join()
+    && profile.plates.join() === defaults.plates.join()
+    && profile.dumbbellIncrement === defaults.dumbbellIncrement
+    && profile.machineStep === defaults.machineStep;
+}
+
+function describeEquipment(settings: UserSettings): string {
+  const profile = getEquipmentProfile(settings);
+  return `${profile.barWeights.join("/")} ${profile.unit} ${profile.barWeights.length === 1 ? "bar" : "bars"}, ${profile.plates.length} plate sizes`;
+}
 
 export default function Settings() {
   const { user, logout } = useAuth();
@@ -28,6 +71,8 @@ export default function Settings() {
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [warmupForm, setWarmupForm] = useState<WarmupForm | null>(null);
+  const [equipmentForm, setEquipmentForm] = useState<EquipmentForm | null>(null);
 
   const initials = user?.firstName && user?.lastName
     ? `${user.firstName[0]}${user.lastName[0]}`
@@ -41,6 +86,94 @@ export default function Settings() {
     queryKey: ["/api/weight"],
   });
 
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (data: Partial<Pick<UserSettings, "autoEndAfterHours" | "warmupScheme" | "weightUnit" | "barWeights" | "plates" | "dumbbellIncrement" | "machineStep">>) => {
+      return await apiRequest<UserSettings>("PATCH", "/api/settings", data);
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/settings"], data);
+      toast({ title: "Settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Body weight is stored in pounds and shown in the preferred unit
+  const weightUnit = settings?.weightUnit ?? "lbs";
+  const displayBodyWeight = (weightLbs: string) => roundWeight(convertWeight(Number(weightLbs), "lbs", weightUnit));
+
+  const changeWeightUnit = (unit: WeightUnit) => {
+    if (!settings) return;
+    if (!isDefaultEquipment(settings)) {
+      updateSettingsMutation.mutate({ weightUnit: unit });
+      return;
+    }
+    const defaults = DEFAULT_EQUIPMENT[unit];
+    updateSettingsMutation.mutate({
+      weightUnit: unit,
+      barWeights: defaults.barWeights,
+      plates: defaults.plates,
+      dumbbellIncrement: String(defaults.dumbbellIncrement),
+      machineStep: String(defaults.machineStep),
+    });
+  };
+
+  const openWarmupForm = () => {
+    if (!settings) return;
+    setWarmupForm({
+      steps: (settings.warmupScheme ?? []).map(step => ({ percent: String(step.percent), reps: String(step.reps) })),
+    });
+  };
+
+  const saveWarmupForm = () => {
+    if (!warmupForm) return;
+    const warmupScheme = warmupForm.steps
+      .filter(step => step.reps.trim())
+      .map(step => ({ percent: parseFloat(step.percent) || 0, reps: parseInt(step.reps) }));
+    updateSettingsMutation.mutate({ warmupScheme }, { onSuccess: () => setWarmupForm(null) });
+  };
+
+  const openEquipmentForm = () => {
+    if (!settings) return;
+    const profile = getEquipmentProfile(settings);
+    setEquipmentForm({
+      barWeights: profile.barWeights.join(", "),
+      plates: profile.plates.join(", "),
+      dumbbellIncrement: String(profile.dumbbellIncrement),
+      machineStep: String(profile.machineStep),
+    });
+  };
+
+  const saveEquipmentForm = () => {
+    if (!equipmentForm) return;
+    const barWeights = parseWeightList(equipmentForm.barWeights);
+    if (barWeights.length === 0) {
+      toast({ title: "Add at least one bar weight", variant: "destructive" });
+      return;
+    }
+    updateSettingsMutation.mutate(
+      {
+        barWeights,
+        plates: parseWeightList(equipmentForm.plates).sort((a, b) => b - a),
+        dumbbellIncrement: equipmentForm.dumbbellIncrement,
+        machineStep: equipmentForm.machineStep,
+      },
+      { onSuccess: () => setEquipmentForm(null) },
+    );
+  };
+
+  const updateWarmupStep = (index: number, field: "percent" | "reps", value: string) => {
+    setWarmupForm(prev => prev && {
+      ...prev,
+      steps: prev.steps.map((step, i) => i === index ? { ...step, [field]: value } : step),
+    });
+  };
+
   const logWeightMutation = useMutation({
     mutationFn: async (data: { weightLbs: string; notes?: string }) => {
       return await apiRequest("POST", "/api/weight", data);
@@ -80,7 +213,7 @@ export default function Settings() {
   const latestWeight = weightLogs?.[0];
   const previousWeight = weightLogs?.[1];
   const weightChange = latestWeight && previousWeight
-    ? Number(latestWeight.weightLbs) - Number(previousWeight.weightLbs)
+    ? displayBodyWeight(latestWeight.weightLbs) - displayBodyWeight(previousWeight.weightLbs)
     : null;
 
   return (
@@ -124,12 +257,12 @@ export default function Settings() {
                 </DialogHeader>
                 <div className="space-y-4 pt-4">
                   <div className="space-y-2">
-                    <Label htmlFor="weight">Weight (lbs)</Label>
+                    <Label htmlFor="weight">Weight ({weightUnit})</Label>
                     <Input
                       id="weight"
                       type="number"
                       step="0.1"
-                      placeholder="e.g., 175.5"
+                      placeholder={weightUnit === "kg" ? "e.g., 80.5" : "e.g., 175.5"}
                       value={newWeight}
                       onChange={(e) => setNewWeight(e.target.value)}
                       data-testid="input-weight"
@@ -148,7 +281,7 @@ export default function Settings() {
                   <Button
                     className="w-full"
                     onClick={() => logWeightMutation.mutate({
-                      weightLbs: newWeight,
+                      weightLbs: String(Math.round(convertWeight(parseFloat(newWeight), weightUnit, "lbs") * 1000) / 1000),
                       notes: weightNotes || undefined,
                     })}
                     disabled={!newWeight || logWeightMutation.isPending}
@@ -168,7 +301,7 @@ export default function Settings() {
                   <Scale className="h-6 w-6 text-primary" />
                 </div>
                 <div className="flex-1">
-                  <p className="text-2xl font-bold">{Number(latestWeight.weightLbs).toFixed(1)} lbs</p>
+                  <p className="text-2xl font-bold">{displayBodyWeight(latestWeight.weightLbs).toFixed(1)} {weightUnit}</p>
                   <p className="text-sm text-muted-foreground">
                     {format(new Date(latestWeight.loggedAt!), "MMM d, yyyy")}
                   </p>
@@ -187,7 +320,7 @@ export default function Settings() {
                     ) : (
                       <Minus className="h-4 w-4" />
                     )}
-                    {weightChange > 0 ? "+" : ""}{weightChange.toFixed(1)} lbs
+                    {weightChange > 0 ? "+" : ""}{weightChange.toFixed(1)} {weightUnit}
                   </div>
                 )}
               </div>
@@ -203,7 +336,7 @@ export default function Settings() {
                 <Card key={log.id} className="p-3" data-testid={`card-weight-${log.id}`}>
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="font-medium">{Number(log.weightLbs).toFixed(1)} lbs</p>
+                      <p className="font-medium">{displayBodyWeight(log.weightLbs).toFixed(1)} {weightUnit}</p>
                       {log.notes && (
                         <p className="text-xs text-muted-foreground">{log.notes}</p>
                       )}
@@ -313,6 +446,230 @@ export default function Settings() {
             </DialogContent>
           </Dialog>
 
+          <Card className="p-4" data-testid="card-weight-unit">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Ruler className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">Weight Unit</p>
+                  <p className="text-sm text-muted-foreground">
+                    For analytics, exports, body weight and new exercises
+                  </p>
+                </div>
+              </div>
+              <Select
+                value={settings?.weightUnit}
+                onValueChange={(value) => changeWeightUnit(value as WeightUnit)}
+                disabled={!settings || updateSettingsMutation.isPending}
+              >
+                <SelectTrigger className="w-28" data-testid="select-weight-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weightUnits.map((unit) => (
+                    <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </Card>
+
+          <Card className="p-4" data-testid="card-auto-end">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <TimerOff className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">Auto-end Workouts</p>
+                  <p className="text-sm text-muted-foreground">
+                    After this long without a logged set
+                  </p>
+                </div>
+              </div>
+              <Select
+                value={settings ? String(settings.autoEndAfterHours ?? "off") : undefined}
+                onValueChange={(value) => updateSettingsMutation.mutate({
+                  autoEndAfterHours: value === "off" ? null : parseInt(value),
+                })}
+                disabled={!settings || updateSettingsMutation.isPending}
+              >
+                <SelectTrigger className="w-28" data-testid="select-auto-end">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Never</SelectItem>
+                  {autoEndOptions.map((hours) => (
+                    <SelectItem key={hours} value={String(hours)}>{hours} hours</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </Card>
+
+          <Card
+            className="p-4 hover-elevate cursor-pointer"
+            onClick={openWarmupForm}
+            data-testid="card-warmup-scheme"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Flame className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">Warm-up Sets</p>
+                  <p className="text-sm text-muted-foreground">
+                    {settings ? describeWarmupScheme(settings) : "Loading..."}
+                  </p>
+                </div>
+              </div>
+              <ChevronRight className="h-5 w-5 text-muted-foreground" />
+            </div>
+          </Card>
+
+          <Dialog open={!!warmupForm} onOpenChange={(open) => !open && setWarmupForm(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Warm-up Sets</DialogTitle>
+              </DialogHeader>
+              {warmupForm && (
+                <div className="space-y-4 pt-4">
+                  <div className="space-y-2">
+                    <Label>Steps (% of working weight, 0 = empty bar)</Label>
+                    {warmupForm.steps.map((step, i) => (
+                      <div key={i} className="flex items-center gap-2" data-testid={`row-warmup-step-${i}`}>
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          placeholder="%"
+                          value={step.percent}
+                          onChange={(e) => updateWarmupStep(i, "percent", e.target.value)}
+                        />
+                        <span className="text-sm text-muted-foreground">% \u00d7</span>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          placeholder="reps"
+                          value={step.reps}
+                          onChange={(e) => updateWarmupStep(i, "reps", e.target.value)}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setWarmupForm(prev => prev && { ...prev, steps: prev.steps.filter((_, j) => j !== i) })}
+                          data-testid={`button-remove-warmup-step-${i}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setWarmupForm(prev => prev && { ...prev, steps: [...prev.steps, { percent: "", reps: "" }] })}
+                      disabled={warmupForm.steps.length >= 10}
+                      data-testid="button-add-warmup-step"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add step
+                    </Button>
+                  </div>
+                  <Button
+                    className="w-full"
+                    onClick={saveWarmupForm}
+                    disabled={updateSettingsMutation.isPending}
+                    data-testid="button-save-warmup-scheme"
+                  >
+                    Save
+                  </Button>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+
+          <Card
+            className="p-4 hover-elevate cursor-pointer"
+            onClick={openEquipmentForm}
+            data-testid="card-equipment"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Dumbbell className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">Equipment</p>
+                  <p className="text-sm text-muted-foreground">
+                    {settings ? describeEquipment(settings) : "Loading..."}
+                  </p>
+                </div>
+              </div>
+              <ChevronRight className="h-5 w-5 text-muted-foreground" />
+            </div>
+          </Card>
+
+          <Dialog open={!!equipmentForm} onOpenChange={(open) => !open && setEquipmentForm(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Equipment</DialogTitle>
+              </DialogHeader>
+              {equipmentForm && (
+                <div className="space-y-4 pt-4">
+                  <p className="text-sm text-muted-foreground">
+                    Target weights round to what this equipment can load, and sessions show how to load the bar.
+                  </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="bar-weights">Bar weights (first is the default)</Label>
+                    <Input
+                      id="bar-weights"
+                      placeholder="45, 35"
+                      value={equipmentForm.barWeights}
+                      onChange={(e) => setEquipmentForm(prev => prev && { ...prev, barWeights: e.target.value })}
+                      data-testid="input-bar-weights"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="plates">Plates available</Label>
+                    <Input
+                      id="plates"
+                      placeholder="45, 35, 25, 10, 5, 2.5"
+                      value={equipmentForm.plates}
+                      onChange={(e) => setEquipmentForm(prev => prev && { ...prev, plates: e.target.value })}
+                      data-testid="input-plates"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="dumbbell-increment">Dumbbell steps</Label>
+                      <Input
+                        id="dumbbell-increment"
+                        type="number"
+                        inputMode="decimal"
+                        value={equipmentForm.dumbbellIncrement}
+                        onChange={(e) => setEquipmentForm(prev => prev && { ...prev, dumbbellIncrement: e.target.value })}
+                        data-testid="input-dumbbell-increment"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="machine-step">Machine stack steps</Label>
+                      <Input
+                        id="machine-step"
+                        type="number"
+                        inputMode="decimal"
+                        value={equipmentForm.machineStep}
+                        onChange={(e) => setEquipmentForm(prev => prev && { ...prev, machineStep: e.target.value })}
+                        data-testid="input-machine-step"
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    className="w-full"
+                    onClick={saveEquipmentForm}
+                    disabled={updateSettingsMutation.isPending}
+                    data-testid="button-save-equipment"
+                  >
+                    Save
+                  </Button>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+
           <Card
             className="p-4 hover-elevate cursor-pointer"
             onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
@@ -9,9 +9,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
-import { Plus, Pill, Check, Clock, MoreVertical, Edit, Trash2 } from "lucide-react";
+import { Plus, Pill, Check, Clock, MoreVertical, Edit, Trash2, CalendarClock } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { format, isToday, parseISO } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -23,6 +25,40 @@ interface SupplementWithSchedule extends Supplement {
   todayLog?: SupplementLog;
 }
 
+type ScheduleType = "daily" | "weekly" | "custom";
+type AdherenceRange = "1wk" | "1mo" | "3mo";
+
+interface AdherenceData {
+  startDate: string;
+  endDate: string;
+  today: { scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null; taken: boolean }[];
+  supplements: { supplementId: string; supplementName: string; taken: number; missed: number; takenToday: number; adherencePct: number | null }[];
+  missed: { date: string; scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null }[];
+}
+
+const ADHERENCE_RANGES: { value: AdherenceRange; label: string }[] = [
+  { value: "1wk", label: "1W" },
+  { value: "1mo", label: "1M" },
+  { value: "3mo", label: "3M" },
+];
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function describeSchedule(schedule: SupplementScheduleItem): string {
+  let when: string;
+  if (schedule.scheduleType === "weekly") {
+    when = (schedule.daysOfWeek || []).slice().sort().map(d => DAY_LABELS[d]).join(", ");
+  } else if (schedule.scheduleType === "custom") {
+    when = schedule.intervalDays === 1 ? "Every day" : `Every ${schedule.intervalDays} days`;
+  } else {
+    when = "Daily";
+  }
+  const parts = [when];
+  if (schedule.timeOfDay) parts.push(schedule.timeOfDay);
+  if (schedule.dose) parts.push(schedule.dose);
+  return parts.join(" · ");
+}
+
 export default function Supplements() {
   const { toast } = useToast();
   const [newSupplementOpen, setNewSupplementOpen] = useState(false);
@@ -34,13 +70,26 @@ export default function Supplements() {
   const [logFormDose, setLogFormDose] = useState("");
   const [logFormDate, setLogFormDate] = useState("");
   const [logFormTime, setLogFormTime] = useState("");
+  const [scheduleSupplementId, setScheduleSupplementId] = useState<string | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<SupplementScheduleItem | null>(null);
+  const [scheduleFormType, setScheduleFormType] = useState<ScheduleType>("daily");
+  const [scheduleFormTime, setScheduleFormTime] = useState("");
+  const [scheduleFormDose, setScheduleFormDose] = useState("");
+  const [scheduleFormDays, setScheduleFormDays] = useState<number[]>([]);
+  const [scheduleFormInterval, setScheduleFormInterval] = useState("2");
+  const [scheduleFormStartDate, setScheduleFormStartDate] = useState("");
+  const [adherenceRange, setAdherenceRange] = useState<AdherenceRange>("1mo");
 
   const { data: supplements, isLoading: supplementsLoading } = useQuery<SupplementWithSchedule[]>({
     queryKey: ["/api/supplements"],
   });
 
-  const { data: todayLogs } = useQuery<SupplementLog[]>({
-    queryKey: ["/api/supplements/logs/today"],
+  const { data: adherence, isLoading: adherenceLoading } = useQuery<AdherenceData>({
+    queryKey: ["/api/supplements/adherence", adherenceRange],
+    queryFn: async () => {
+      const res = await fetch(`/api/supplements/adherence?range=${adherenceRange}`, { credentials: "include" });
+      return res.json();
+    },
   });
 
   const { data: allLogs, isLoading: logsLoading } = useQuery<SupplementLog[]>({
@@ -98,7 +147,7 @@ export default function Supplements() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/supplements/logs"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/supplements/logs/today"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements/adherence"] });
       toast({ title: "Intake logged" });
     },
     onError: () => {
@@ -112,7 +161,7 @@ export default function Supplements() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/supplements/logs"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/supplements/logs/today"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements/adherence"] });
       resetLogForm();
       toast({ title: "Log updated" });
     },
@@ -127,7 +176,7 @@ export default function Supplements() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/supplements/logs"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/supplements/logs/today"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements/adherence"] });
       toast({ title: "Log deleted" });
     },
     onError: () => {
@@ -135,6 +184,49 @@ export default function Supplements() {
     },
   });
 
+  const createScheduleMutation = useMutation({
+    mutationFn: async ({ supplementId, data }: { supplementId: string; data: Record<string, unknown> }) => {
+      return await apiRequest("POST", `/api/supplements/${supplementId}/schedules`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements/adherence"] });
+      resetScheduleForm();
+      toast({ title: "Schedule added" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add schedule", variant: "destructive" });
+    },
+  });
+
+  const updateScheduleMutation = useMutation({
+    mutationFn: async ({ supplementId, id, data }: { supplementId: string; id: string; data: Record<string, unknown> }) => {
+      return await apiRequest("PATCH", `/api/supplements/${supplementId}/schedules/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements/adherence"] });
+      resetScheduleForm();
+    },
+    onError: () => {
+      toast({ title: "Failed to update schedule", variant: "destructive" });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async ({ supplementId, id }: { supplementId: string; id: string }) => {
+      await apiRequest("DELETE", `/api/supplements/${supplementId}/schedules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplements/adherence"] });
+      toast({ title: "Schedule deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete schedule", variant: "destructive" });
+    },
+  });
+
   const resetForm = () => {
     setNewSupplementOpen(false);
     setEditingSupplement(null);
@@ -150,6 +242,58 @@ export default function Supplements() {
     setLogFormTime("");
   };
 
+  const resetScheduleForm = () => {
+    setEditingSchedule(null);
+    setScheduleFormType("daily");
+    setScheduleFormTime("");
+    setScheduleFormDose("");
+    setScheduleFormDays([]);
+    setScheduleFormInterval("2");
+    setScheduleFormStartDate("");
+  };
+
+  const closeScheduleDialog = () => {
+    setScheduleSupplementId(null);
+    resetScheduleForm();
+  };
+
+  const openEditScheduleForm = (schedule: SupplementScheduleItem) => {
+    setEditingSchedule(schedule);
+    setScheduleFormType((schedule.scheduleType || "daily") as ScheduleType);
+    setScheduleFormTime(schedule.timeOfDay || "");
+    setScheduleFormDose(schedule.dose || "");
+    setScheduleFormDays(schedule.daysOfWeek || []);
+    setScheduleFormInterval(schedule.intervalDays ? String(schedule.intervalDays) : "2");
+    setScheduleFormStartDate(schedule.startDate || "");
+  };
+
+  const toggleScheduleDay = (day: number) => {
+    setScheduleFormDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const handleSaveSchedule = () => {
+    if (!scheduleSupplementId) return;
+    const data = {
+      scheduleType: scheduleFormType,
+      timeOfDay: scheduleFormTime || null,
+      dose: scheduleFormDose || null,
+      daysOfWeek: scheduleFormType === "weekly" ? scheduleFormDays : null,
+      intervalDays: scheduleFormType === "custom" ? parseInt(scheduleFormInterval) : null,
+      startDate: scheduleFormType === "custom" ? (scheduleFormStartDate || format(new Date(), "yyyy-MM-dd")) : null,
+    };
+    if (editingSchedule) {
+      updateScheduleMutation.mutate({ supplementId: scheduleSupplementId, id: editingSchedule.id, data });
+    } else {
+      createScheduleMutation.mutate({ supplementId: scheduleSupplementId, data });
+    }
+  };
+
+  const isScheduleFormValid =
+    (scheduleFormType !== "weekly" || scheduleFormDays.length > 0) &&
+    (scheduleFormType !== "custom" || parseInt(scheduleFormInterval) >= 1);
+
+  const scheduleSupplement = supplements?.find(s => s.id === scheduleSupplementId);
+
   const openEditLogDialog = (log: SupplementLog) => {
     setEditingLog(log);
     const takenAt = new Date(log.takenAt);
@@ -189,8 +333,17 @@ export default function Supplements() {
     }
   };
 
-  const isLoggedToday = (supplementId: string) => {
-    return todayLogs?.some(log => log.supplementId === supplementId);
+  // Scheduled supplements are done once every dose due today is taken;
+  // unscheduled ones once anything has been logged today
+  const getTodayStatus = (supplementId: string) => {
+    const due = adherence?.today.filter(item => item.supplementId === supplementId) || [];
+    const takenToday = adherence?.supplements.find(s => s.supplementId === supplementId)?.takenToday || 0;
+    const nextDose = due.find(item => !item.taken);
+    return {
+      due,
+      nextDose,
+      logged: due.length > 0 ? !nextDose : takenToday > 0,
+    };
   };
 
   return (
@@ -202,8 +355,9 @@ export default function Supplements() {
         </div>
 
         <Tabs defaultValue="today" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="today" data-testid="tab-today">Today</TabsTrigger>
+            <TabsTrigger value="adherence" data-testid="tab-adherence">Adherence</TabsTrigger>
             <TabsTrigger value="history" data-testid="tab-history">History</TabsTrigger>
           </TabsList>
 
@@ -262,12 +416,150 @@ export default function Supplements() {
               </DialogContent>
             </Dialog>
 
+            <Dialog open={!!scheduleSupplementId} onOpenChange={(open) => !open && closeScheduleDialog()}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{scheduleSupplement?.name} Schedules</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  {scheduleSupplement?.schedules && scheduleSupplement.schedules.length > 0 ? (
+                    <div className="space-y-2">
+                      {scheduleSupplement.schedules.map(schedule => (
+                        <div key={schedule.id} className="flex items-center gap-2 rounded-md border p-2" data-testid={`row-schedule-${schedule.id}`}>
+                          <Switch
+                            checked={!!schedule.active}
+                            onCheckedChange={(active) => updateScheduleMutation.mutate({
+                              supplementId: scheduleSupplement.id,
+                              id: schedule.id,
+                              data: { active },
+                            })}
+                            data-testid={`switch-schedule-active-${schedule.id}`}
+                          />
+                          <p className={`flex-1 text-sm truncate ${schedule.active ? "" : "text-muted-foreground line-through"}`}>
+                            {describeSchedule(schedule)}
+                          </p>
+                          <Button variant="ghost" size="icon" onClick={() => openEditScheduleForm(schedule)} data-testid={`button-edit-schedule-${schedule.id}`}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteScheduleMutation.mutate({ supplementId: scheduleSupplement.id, id: schedule.id })}
+                            data-testid={`button-delete-schedule-${schedule.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No schedules yet</p>
+                  )}
+
+                  <div className="space-y-3 border-t pt-4">
+                    <p className="text-sm font-medium">{editingSchedule ? "Edit Schedule" : "New Schedule"}</p>
+                    <div className="space-y-2">
+                      <Label>Repeat</Label>
+                      <Select value={scheduleFormType} onValueChange={(v) => setScheduleFormType(v as ScheduleType)}>
+                        <SelectTrigger data-testid="select-schedule-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="daily">Every day</SelectItem>
+                          <SelectItem value="weekly">Specific days of the week</SelectItem>
+                          <SelectItem value="custom">Every few days</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {scheduleFormType === "weekly" && (
+                      <div className="flex flex-wrap gap-1">
+                        {DAY_LABELS.map((label, day) => (
+                          <Button
+                            key={label}
+                            type="button"
+                            size="sm"
+                            variant={scheduleFormDays.includes(day) ? "default" : "outline"}
+                            onClick={() => toggleScheduleDay(day)}
+                            data-testid={`button-schedule-day-${day}`}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    {scheduleFormType === "custom" && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                          <Label htmlFor="schedule-interval">Every N days</Label>
+                          <Input
+                            id="schedule-interval"
+                            type="number"
+                            min={1}
+                            value={scheduleFormInterval}
+                            onChange={(e) => setScheduleFormInterval(e.target.value)}
+                            data-testid="input-schedule-interval"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="schedule-start">Starting</Label>
+                          <Input
+                            id="schedule-start"
+                            type="date"
+                            value={scheduleFormStartDate}
+                            onChange={(e) => setScheduleFormStartDate(e.target.value)}
+                            data-testid="input-schedule-start"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="schedule-time">Time of Day</Label>
+                        <Input
+                          id="schedule-time"
+                          placeholder="e.g., Morning"
+                          value={scheduleFormTime}
+                          onChange={(e) => setScheduleFormTime(e.target.value)}
+                          data-testid="input-schedule-time"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="schedule-dose">Dose</Label>
+                        <Input
+                          id="schedule-dose"
+                          placeholder={scheduleSupplement?.defaultDose || "e.g., 5g"}
+                          value={scheduleFormDose}
+                          onChange={(e) => setScheduleFormDose(e.target.value)}
+                          data-testid="input-schedule-dose"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {editingSchedule && (
+                        <Button variant="outline" className="flex-1" onClick={resetScheduleForm} data-testid="button-cancel-schedule">
+                          Cancel
+                        </Button>
+                      )}
+                      <Button
+                        className="flex-1"
+                        onClick={handleSaveSchedule}
+                        disabled={!isScheduleFormValid || createScheduleMutation.isPending || updateScheduleMutation.isPending}
+                        data-testid="button-save-schedule"
+                      >
+                        {editingSchedule ? "Save Schedule" : "Add Schedule"}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+
             {supplementsLoading ? (
               <ListSkeleton count={3} />
             ) : supplements && supplements.length > 0 ? (
               <div className="space-y-3">
                 {supplements.map((supplement) => {
-                  const logged = isLoggedToday(supplement.id);
+                  const { due, nextDose, logged } = getTodayStatus(supplement.id);
                   return (
                     <Card 
                       key={supplement.id} 
@@ -292,6 +584,16 @@ export default function Supplements() {
                             {supplement.defaultDose && (
                               <p className="text-sm text-muted-foreground">{supplement.defaultDose}</p>
                             )}
+                            {supplement.schedules?.filter(s => s.active).map(schedule => (
+                              <p key={schedule.id} className="text-xs text-muted-foreground truncate" data-testid={`text-schedule-${schedule.id}`}>
+                                {describeSchedule(schedule)}
+                              </p>
+                            ))}
+                            {due.length > 0 && (
+                              <p className="text-xs font-medium mt-1" data-testid={`text-due-today-${supplement.id}`}>
+                                {due.filter(item => item.taken).length}/{due.length} taken today
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -300,7 +602,7 @@ export default function Supplements() {
                               size="sm"
                               onClick={() => logIntakeMutation.mutate({
                                 supplementId: supplement.id,
-                                dose: supplement.defaultDose || "1 serving",
+                                dose: nextDose?.dose || supplement.defaultDose || "1 serving",
                               })}
                               disabled={logIntakeMutation.isPending}
                               data-testid={`button-log-${supplement.id}`}
@@ -320,6 +622,10 @@ export default function Supplements() {
                                 <Edit className="h-4 w-4 mr-2" />
                                 Edit
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setScheduleSupplementId(supplement.id)}>
+                                <CalendarClock className="h-4 w-4 mr-2" />
+                                Schedules
+                              </DropdownMenuItem>
                               <DropdownMenuItem 
                                 onClick={() => deleteSupplementMutation.mutate(supplement.id)}
                                 className="text-destructive focus:text-destructive"
@@ -348,6 +654,80 @@ export default function Supplements() {
             )}
           </TabsContent>
 
+          <TabsContent value="adherence" className="space-y-4">
+            <div className="flex gap-1 rounded-lg bg-muted p-1 w-fit">
+              {ADHERENCE_RANGES.map(r => (
+                <button
+                  key={r.value}
+                  onClick={() => setAdherenceRange(r.value)}
+                  className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                    adherenceRange === r.value
+                      ? "bg-background text-foreground shadow-sm"
+                      : "text-muted-foreground hover:text-foreground"
+                  }`}
+                  data-testid={`button-adherence-range-${r.value}`}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+
+            {adherenceLoading ? (
+              <ListSkeleton count={3} />
+            ) : adherence && adherence.supplements.some(s => s.adherencePct !== null) ? (
+              <>
+                <div className="space-y-3">
+                  {adherence.supplements.filter(s => s.adherencePct !== null).map(s => (
+                    <Card key={s.supplementId} className="p-4" data-testid={`card-adherence-${s.supplementId}`}>
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{s.supplementName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {s.taken} taken · {s.missed} missed
+                          </p>
+                        </div>
+                        <p className="text-lg font-bold">{s.adherencePct}%</p>
+                      </div>
+                      <div className="mt-2 h-2 rounded-full bg-muted overflow-hidden">
+                        <div className="h-full bg-primary" style={{ width: `${s.adherencePct}%` }} />
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <h2 className="font-semibold">Missed Doses</h2>
+                  {adherence.missed.length > 0 ? (
+                    adherence.missed.map(item => (
+                      <Card key={`${item.scheduleId}-${item.date}`} className="p-3" data-testid={`card-missed-${item.scheduleId}-${item.date}`}>
+                        <div className="flex items-center gap-3">
+                          <div className="w-8 h-8 rounded bg-muted flex items-center justify-center">
+                            <Pill className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-sm truncate">{item.supplementName}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {[item.dose, item.timeOfDay].filter(Boolean).join(" · ")}
+                            </p>
+                          </div>
+                          <Badge variant="outline">{format(parseISO(item.date), "EEE, MMM d")}</Badge>
+                        </div>
+                      </Card>
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No missed doses in this period</p>
+                  )}
+                </div>
+              </>
+            ) : (
+              <EmptyState
+                icon={CalendarClock}
+                title="No scheduled doses"
+                description="Add a schedule to a supplement to track adherence"
+              />
+            )}
+          </TabsContent>
+
           <TabsContent value="history" className="space-y-4">
             <Dialog open={!!editingLog} onOpenChange={(open) => !open && resetLogForm()}>
               <DialogContent>
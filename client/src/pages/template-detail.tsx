@@ -6,20 +6,100 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PageSkeleton, ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
+import { SetTypeSelect } from "@/components/set-type-select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Plus, Dumbbell, ChevronUp, ChevronDown, Trash2, Edit, Save, X, Copy, Search, Repeat, Minus } from "lucide-react";
+import { ArrowLeft, Plus, Dumbbell, ChevronUp, ChevronDown, Trash2, Edit, Save, X, Copy, Search, Repeat, Minus, TrendingUp, Flame } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { WorkoutTemplate, WorkoutTemplateExercise, PlannedSet, Exercise, Circuit } from "@shared/schema";
+import { formatSetType, resolvePercentTarget } from "@/lib/utils";
+import { generateWarmupSets, type WarmupSet } from "@shared/warmup";
+import { getEquipmentProfile, loadingEquipment, roundToLoadable } from "@shared/equipment";
+import type { WorkoutTemplate, WorkoutTemplateExercise, PlannedSet, Exercise, Circuit, ProgressionRule, SetType, UserSettings } from "@shared/schema";
 
 interface TemplateExerciseWithDetails extends WorkoutTemplateExercise {
   exercise?: Exercise;
   plannedSets?: PlannedSet[];
+  progressionRule?: ProgressionRule | null;
+}
+
+interface TrainingMaxEntry {
+  exerciseId: string;
+  weight: string;
+  roundingIncrement: string;
+}
+
+// Sessions load percentage targets rounded to the equipment, so the preview does too
+function describePercentTarget(
+  percent: string,
+  max: TrainingMaxEntry | undefined,
+  toLoadable: (weight: number) => number,
+  unit: string,
+): string {
+  const label = `${Number(percent)}% TM`;
+  if (!max) return label;
+  return `${label} (${toLoadable(resolvePercentTarget(percent, max))} ${unit})`;
+}
+
+// A drop set drops from the planned set right before it
+function dropSetParent(sets: PlannedSet[], setNumber: number): string | null {
+  return sets.find(s => s.setNumber === setNumber - 1)?.id ?? null;
+}
+
+interface ProgressionLogItem {
+  id: string;
+  templateExerciseId: string;
+  exerciseName: string;
+  outcome: "progressed" | "reset";
+  previousWeight: string | null;
+  newWeight: string | null;
+  previousReps: number | null;
+  newReps: number | null;
+  createdAt: string;
+}
+
+type ProgressionForm = {
+  type: "linear" | "double";
+  weightIncrement: string;
+  minReps: string;
+  maxReps: string;
+  failuresBeforeReset: string;
+  resetPercent: string;
+};
+
+const defaultProgressionForm: ProgressionForm = {
+  type: "linear",
+  weightIncrement: "5",
+  minReps: "8",
+  maxReps: "12",
+  failuresBeforeReset: "",
+  resetPercent: "10",
+};
+
+function describeProgressionRule(rule: ProgressionRule, unit: string): string {
+  const parts = [rule.type === "double"
+    ? `${rule.minReps}-${rule.maxReps} reps, then +${Number(rule.weightIncrement)} ${unit}`
+    : `+${Number(rule.weightIncrement)} ${unit} per success`];
+  if (rule.failuresBeforeReset) {
+    parts.push(`-${rule.resetPercent}% after ${rule.failuresBeforeReset} ${rule.failuresBeforeReset === 1 ? "miss" : "misses"}`);
+  }
+  return parts.join(" · ");
+}
+
+function describeProgressionChange(entry: ProgressionLogItem, unit: string): string {
+  const parts: string[] = [];
+  if (entry.previousWeight !== entry.newWeight && entry.newWeight != null) {
+    parts.push(`${Number(entry.previousWeight)} → ${Number(entry.newWeight)} ${unit}`);
+  }
+  if (entry.previousReps !== entry.newReps && entry.newReps != null) {
+    parts.push(`${entry.previousReps} → ${entry.newReps} reps`);
+  }
+  return parts.join(", ") || "Targets unchanged";
 }
 
 interface TemplateWithDetails extends WorkoutTemplate {
@@ -47,22 +127,47 @@ export default function TemplateDetail() {
   const [setFormData, setSetFormData] = useState<{
     targetReps: string;
     targetWeight: string;
+    targetPercent: string;
     targetTime: string;
+    targetRpe: string;
+    targetRir: string;
+    targetTempo: string;
     restSeconds: string;
-    isWarmup: boolean;
+    setType: SetType;
   }>({
     targetReps: "",
     targetWeight: "",
+    targetPercent: "",
     targetTime: "",
+    targetRpe: "",
+    targetRir: "",
+    targetTempo: "",
     restSeconds: "",
-    isWarmup: false,
+    setType: "normal",
   });
 
+  const [progressionExercise, setProgressionExercise] = useState<TemplateExerciseWithDetails | null>(null);
+  const [progressionForm, setProgressionForm] = useState<ProgressionForm>(defaultProgressionForm);
+
   const { data: template, isLoading } = useQuery<TemplateWithDetails>({
     queryKey: ["/api/templates", templateId],
     enabled: !!templateId,
   });
 
+  const { data: trainingMaxes } = useQuery<TrainingMaxEntry[]>({
+    queryKey: ["/api/training-maxes"],
+  });
+
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+  });
+  const equipmentProfile = getEquipmentProfile(settings);
+
+  const { data: progressionLog } = useQuery<ProgressionLogItem[]>({
+    queryKey: ["/api/templates", templateId, "progression-log"],
+    enabled: !!templateId,
+  });
+
   const { data: allExercises } = useQuery<Exercise[]>({
     queryKey: ["/api/exercises"],
   });
@@ -176,9 +281,14 @@ export default function TemplateDetail() {
         setNumber: number;
         targetReps?: number;
         targetWeight?: string;
+        targetPercent?: string;
         targetTimeSeconds?: number;
+        targetRpe?: string | null;
+        targetRir?: number | null;
+        targetTempo?: string | null;
         restSeconds?: number;
-        isWarmup?: boolean;
+        setType?: SetType;
+        parentSetId?: string | null;
       }
     }) => {
       return await apiRequest("POST", `/api/templates/${templateId}/exercises/${templateExerciseId}/sets`, data);
@@ -238,9 +348,14 @@ export default function TemplateDetail() {
       data: {
         targetReps?: number;
         targetWeight?: string;
+        targetPercent?: string | null;
         targetTimeSeconds?: number;
+        targetRpe?: string | null;
+        targetRir?: number | null;
+        targetTempo?: string | null;
         restSeconds?: number;
-        isWarmup?: boolean;
+        setType?: SetType;
+        parentSetId?: string | null;
       }
     }) => {
       return await apiRequest("PATCH", `/api/templates/${templateId}/exercises/${templateExerciseId}/sets/${setId}`, data);
@@ -269,9 +384,15 @@ export default function TemplateDetail() {
       const data: any = { setNumber: nextSetNumber };
       if (set.targetReps) data.targetReps = set.targetReps;
       if (set.targetWeight) data.targetWeight = set.targetWeight;
+      if (set.targetPercent) data.targetPercent = set.targetPercent;
       if (set.targetTimeSeconds) data.targetTimeSeconds = set.targetTimeSeconds;
+      if (set.targetRpe) data.targetRpe = set.targetRpe;
+      if (set.targetRir !== null) data.targetRir = set.targetRir;
+      if (set.targetTempo) data.targetTempo = set.targetTempo;
       if (set.restSeconds) data.restSeconds = set.restSeconds;
-      data.isWarmup = set.isWarmup;
+      data.setType = set.setType;
+      // The copy goes last, so a copied drop set drops from the current last set
+      if (set.setType === "drop") data.parentSetId = dropSetParent(currentSets, nextSetNumber);
       return await apiRequest("POST", `/api/templates/${templateId}/exercises/${templateExerciseId}/sets`, data);
     },
     onSuccess: () => {
@@ -283,15 +404,138 @@ export default function TemplateDetail() {
     },
   });
 
+  const addWarmupsMutation = useMutation({
+    mutationFn: async ({ templateExerciseId, warmups, currentSets }: {
+      templateExerciseId: string;
+      warmups: WarmupSet[];
+      currentSets: PlannedSet[];
+    }) => {
+      const nextSetNumber = Math.max(...currentSets.map(s => s.setNumber), 0) + 1;
+      const created: PlannedSet[] = [];
+      for (let i = 0; i < warmups.length; i++) {
+        created.push(await apiRequest<PlannedSet>("POST", `/api/templates/${templateId}/exercises/${templateExerciseId}/sets`, {
+          setNumber: nextSetNumber + i,
+          targetWeight: String(warmups[i].weight),
+          targetReps: warmups[i].reps,
+          setType: "warmup",
+        }));
+      }
+      // Warm-ups go ahead of the working sets
+      const setIds = [...created, ...currentSets].map(s => s.id);
+      await apiRequest("POST", `/api/templates/${templateId}/exercises/${templateExerciseId}/sets/reorder`, { setIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates", templateId] });
+      toast({ title: "Warm-up sets added" });
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates", templateId] });
+      toast({ title: "Failed to add warm-up sets", variant: "destructive" });
+    },
+  });
+
+  // What a fixed target becomes once a session rounds it to the equipment
+  const loadableTarget = (templateExercise: TemplateExerciseWithDetails, set: PlannedSet): number =>
+    roundToLoadable(Number(set.targetWeight), loadingEquipment(templateExercise.exercise, equipmentProfile), equipmentProfile);
+
+  // Warm-ups for the first working set's weight, using the ramp from settings.
+  // Empty once the exercise has warm-ups of its own
+  const getWarmups = (templateExercise: TemplateExerciseWithDetails): WarmupSet[] => {
+    const sets = templateExercise.plannedSets || [];
+    if (!settings || sets.some(s => s.setType === "warmup")) return [];
+    const working = sets.find(s => s.setType !== "warmup" && (s.targetWeight || s.targetPercent));
+    if (!working) return [];
+    const max = trainingMaxes?.find(m => m.exerciseId === templateExercise.exerciseId);
+    const equipment = loadingEquipment(templateExercise.exercise, equipmentProfile);
+    const weight = roundToLoadable(
+      working.targetPercent && max ? resolvePercentTarget(working.targetPercent, max) : Number(working.targetWeight),
+      equipment,
+      equipmentProfile,
+    );
+    if (!weight) return [];
+    return generateWarmupSets(weight, settings.warmupScheme ?? [], equipment, equipmentProfile);
+  };
+
+  const saveProgressionMutation = useMutation({
+    mutationFn: async ({ templateExerciseId, data }: {
+      templateExerciseId: string;
+      data: {
+        type: "linear" | "double";
+        weightIncrement: string;
+        minReps: number | null;
+        maxReps: number | null;
+        failuresBeforeReset: number | null;
+        resetPercent: number;
+      }
+    }) => {
+      return await apiRequest("PUT", `/api/templates/${templateId}/exercises/${templateExerciseId}/progression`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates", templateId] });
+      setProgressionExercise(null);
+      toast({ title: "Progression rule saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save progression rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeProgressionMutation = useMutation({
+    mutationFn: async (templateExerciseId: string) => {
+      await apiRequest("DELETE", `/api/templates/${templateId}/exercises/${templateExerciseId}/progression`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates", templateId] });
+      setProgressionExercise(null);
+      toast({ title: "Progression rule removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove progression rule", variant: "destructive" });
+    },
+  });
+
+  const openProgressionDialog = (templateExercise: TemplateExerciseWithDetails) => {
+    const rule = templateExercise.progressionRule;
+    setProgressionForm(rule ? {
+      type: rule.type,
+      weightIncrement: String(Number(rule.weightIncrement)),
+      minReps: rule.minReps?.toString() || defaultProgressionForm.minReps,
+      maxReps: rule.maxReps?.toString() || defaultProgressionForm.maxReps,
+      failuresBeforeReset: rule.failuresBeforeReset?.toString() || "",
+      resetPercent: rule.resetPercent.toString(),
+    } : defaultProgressionForm);
+    setProgressionExercise(templateExercise);
+  };
+
+  const handleSaveProgression = () => {
+    if (!progressionExercise) return;
+    const isDouble = progressionForm.type === "double";
+    saveProgressionMutation.mutate({
+      templateExerciseId: progressionExercise.id,
+      data: {
+        type: progressionForm.type,
+        weightIncrement: progressionForm.weightIncrement || "0",
+        minReps: isDouble ? parseInt(progressionForm.minReps) || null : null,
+        maxReps: isDouble ? parseInt(progressionForm.maxReps) || null : null,
+        failuresBeforeReset: parseInt(progressionForm.failuresBeforeReset) || null,
+        resetPercent: parseInt(progressionForm.resetPercent) || 10,
+      },
+    });
+  };
+
   const resetSetForm = () => {
     setEditingSets(null);
     setEditingSetId(null);
     setSetFormData({
       targetReps: "",
       targetWeight: "",
+      targetPercent: "",
       targetTime: "",
+      targetRpe: "",
+      targetRir: "",
+      targetTempo: "",
       restSeconds: "",
-      isWarmup: false,
+      setType: "normal",
     });
   };
 
@@ -303,9 +547,14 @@ export default function TemplateDetail() {
 
     if (setFormData.targetReps) data.targetReps = parseInt(setFormData.targetReps);
     if (setFormData.targetWeight) data.targetWeight = setFormData.targetWeight;
+    if (setFormData.targetPercent) data.targetPercent = setFormData.targetPercent;
     if (setFormData.targetTime) data.targetTimeSeconds = parseInt(setFormData.targetTime);
+    if (setFormData.targetRpe) data.targetRpe = setFormData.targetRpe;
+    if (setFormData.targetRir) data.targetRir = parseInt(setFormData.targetRir);
+    if (setFormData.targetTempo.trim()) data.targetTempo = setFormData.targetTempo.trim();
     if (setFormData.restSeconds) data.restSeconds = parseInt(setFormData.restSeconds);
-    data.isWarmup = setFormData.isWarmup;
+    data.setType = setFormData.setType;
+    if (setFormData.setType === "drop") data.parentSetId = dropSetParent(currentSets, nextSetNumber);
 
     addSetMutation.mutate({ templateExerciseId, data });
   };
@@ -315,13 +564,17 @@ export default function TemplateDetail() {
     setSetFormData({
       targetReps: set.targetReps?.toString() || "",
       targetWeight: set.targetWeight || "",
+      targetPercent: set.targetPercent ? String(Number(set.targetPercent)) : "",
       targetTime: set.targetTimeSeconds?.toString() || "",
+      targetRpe: set.targetRpe ? String(Number(set.targetRpe)) : "",
+      targetRir: set.targetRir?.toString() ?? "",
+      targetTempo: set.targetTempo || "",
       restSeconds: set.restSeconds?.toString() || "",
-      isWarmup: set.isWarmup || false,
+      setType: set.setType,
     });
   };
 
-  const handleUpdateSet = (templateExerciseId: string, setId: string) => {
+  const handleUpdateSet = (templateExerciseId: string, set: PlannedSet, currentSets: PlannedSet[]) => {
     const data: any = {};
 
     // Only add numeric fields if they have valid values
@@ -332,16 +585,28 @@ export default function TemplateDetail() {
       data.targetWeight = setFormData.targetWeight;
     }
 
+    // Clearing the percentage switches the set back to an absolute weight
+    data.targetPercent = setFormData.targetPercent.trim() ? setFormData.targetPercent : null;
+
     const time = parseInt(setFormData.targetTime);
     if (!isNaN(time) && setFormData.targetTime) data.targetTimeSeconds = time;
 
+    // Effort targets can be cleared, unlike the fields above
+    data.targetRpe = setFormData.targetRpe.trim() ? setFormData.targetRpe : null;
+    const rir = parseInt(setFormData.targetRir);
+    data.targetRir = !isNaN(rir) ? rir : null;
+    data.targetTempo = setFormData.targetTempo.trim() || null;
+
     const rest = parseInt(setFormData.restSeconds);
     if (!isNaN(rest) && setFormData.restSeconds) data.restSeconds = rest;
 
-    data.isWarmup = setFormData.isWarmup;
+    data.setType = setFormData.setType;
+    data.parentSetId = setFormData.setType === "drop"
+      ? set.parentSetId ?? dropSetParent(currentSets, set.setNumber)
+      : null;
 
     console.log("Updating set with data:", data);
-    updateSetMutation.mutate({ templateExerciseId, setId, data });
+    updateSetMutation.mutate({ templateExerciseId, setId: set.id, data });
   };
 
   const availableExercises = allExercises?.filter(
@@ -360,8 +625,8 @@ export default function TemplateDetail() {
               <div key={set.id} className="space-y-3 p-3 border border-border rounded-lg bg-background">
                 <div className="flex items-center justify-between">
                   <span className="font-medium text-sm">Edit Set #{set.setNumber}</span>
-                  {set.isWarmup && (
-                    <span className="text-xs text-muted-foreground">(warmup)</span>
+                  {set.setType !== "normal" && (
+                    <span className="text-xs text-muted-foreground">({formatSetType(set.setType)})</span>
                   )}
                 </div>
                 <div className="grid grid-cols-2 gap-3">
@@ -375,7 +640,7 @@ export default function TemplateDetail() {
                     />
                   </div>
                   <div className="space-y-1">
-                    <Label className="text-xs">Weight (lbs)</Label>
+                    <Label className="text-xs">Weight ({templateExercise.exercise?.weightUnit ?? "lbs"})</Label>
                     <Input
                       type="number"
                       placeholder="135"
@@ -383,6 +648,15 @@ export default function TemplateDetail() {
                       onChange={(e) => setSetFormData(prev => ({ ...prev, targetWeight: e.target.value }))}
                     />
                   </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">% of Training Max</Label>
+                    <Input
+                      type="number"
+                      placeholder="75"
+                      value={setFormData.targetPercent}
+                      onChange={(e) => setSetFormData(prev => ({ ...prev, targetPercent: e.target.value }))}
+                    />
+                  </div>
                   <div className="space-y-1">
                     <Label className="text-xs">Time (sec)</Label>
                     <Input
@@ -401,19 +675,48 @@ export default function TemplateDetail() {
                       onChange={(e) => setSetFormData(prev => ({ ...prev, restSeconds: e.target.value }))}
                     />
                   </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">RPE</Label>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      step="0.5"
+                      min="1"
+                      max="10"
+                      placeholder="8"
+                      value={setFormData.targetRpe}
+                      onChange={(e) => setSetFormData(prev => ({ ...prev, targetRpe: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">RIR</Label>
+                    <Input
+                      type="number"
+                      inputMode="numeric"
+                      min="0"
+                      placeholder="2"
+                      value={setFormData.targetRir}
+                      onChange={(e) => setSetFormData(prev => ({ ...prev, targetRir: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Tempo</Label>
+                    <Input
+                      placeholder="3-1-1-0"
+                      value={setFormData.targetTempo}
+                      onChange={(e) => setSetFormData(prev => ({ ...prev, targetTempo: e.target.value }))}
+                    />
+                  </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <Checkbox
-                    id={`edit-warmup-${set.id}`}
-                    checked={setFormData.isWarmup}
-                    onCheckedChange={(checked) => setSetFormData(prev => ({ ...prev, isWarmup: !!checked }))}
-                  />
-                  <Label htmlFor={`edit-warmup-${set.id}`} className="text-sm">Warmup set</Label>
-                </div>
+                <SetTypeSelect
+                  value={setFormData.setType}
+                  onChange={(setType) => setSetFormData(prev => ({ ...prev, setType }))}
+                  allowDrop={set.setNumber > 1}
+                />
                 <div className="flex gap-2">
                   <Button
                     size="sm"
-                    onClick={() => handleUpdateSet(templateExercise.id, set.id)}
+                    onClick={() => handleUpdateSet(templateExercise.id, set, templateExercise.plannedSets || [])}
                     disabled={updateSetMutation.isPending}
                   >
                     <Save className="h-4 w-4 mr-1" />
@@ -431,14 +734,37 @@ export default function TemplateDetail() {
               >
                 <div className="flex items-center gap-3">
                   <span className="font-medium w-6">#{set.setNumber}</span>
-                  {set.isWarmup && (
-                    <span className="text-xs text-muted-foreground">(warmup)</span>
+                  {set.setType !== "normal" && (
+                    <span className="text-xs text-muted-foreground">({formatSetType(set.setType)})</span>
                   )}
                 </div>
                 <div className="flex items-center gap-4 text-muted-foreground">
-                  {set.targetReps && <span>{set.targetReps} reps</span>}
-                  {set.targetWeight && <span>{set.targetWeight} lbs</span>}
+                  {set.setType === "amrap"
+                    ? <span>{set.targetReps ? `${set.targetReps}+` : "max"} reps</span>
+                    : set.targetReps && <span>{set.targetReps} reps</span>}
+                  {set.targetPercent ? (
+                    <span>
+                      {describePercentTarget(
+                        set.targetPercent,
+                        trainingMaxes?.find(m => m.exerciseId === templateExercise.exerciseId),
+                        (weight) => roundToLoadable(weight, loadingEquipment(templateExercise.exercise, equipmentProfile), equipmentProfile),
+                        templateExercise.exercise?.weightUnit ?? "lbs",
+                      )}
+                    </span>
+                  ) : set.targetWeight && (
+                    <span>
+                      {set.targetWeight} {templateExercise.exercise?.weightUnit ?? "lbs"}
+                      {loadableTarget(templateExercise, set) !== Number(set.targetWeight) && (
+                        <span className="text-xs text-orange-600 dark:text-orange-400" title="Closest weight your equipment can load">
+                          {" "}(loads {loadableTarget(templateExercise, set)})
+                        </span>
+                      )}
+                    </span>
+                  )}
                   {set.targetTimeSeconds && <span>{set.targetTimeSeconds}s</span>}
+                  {set.targetRpe && <span>@{Number(set.targetRpe)}</span>}
+                  {set.targetRir !== null && <span>{set.targetRir} RIR</span>}
+                  {set.targetTempo && <span className="text-xs">{set.targetTempo}</span>}
                   {set.restSeconds && <span className="text-xs">Rest: {set.restSeconds}s</span>}
                   <div className="flex items-center gap-1">
                     <Button
@@ -494,7 +820,7 @@ export default function TemplateDetail() {
               />
             </div>
             <div className="space-y-1">
-              <Label className="text-xs">Weight (lbs)</Label>
+              <Label className="text-xs">Weight ({templateExercise.exercise?.weightUnit ?? "lbs"})</Label>
               <Input
                 type="number"
                 placeholder="135"
@@ -502,6 +828,15 @@ export default function TemplateDetail() {
                 onChange={(e) => setSetFormData(prev => ({ ...prev, targetWeight: e.target.value }))}
               />
             </div>
+            <div className="space-y-1">
+              <Label className="text-xs">% of Training Max</Label>
+              <Input
+                type="number"
+                placeholder="75"
+                value={setFormData.targetPercent}
+                onChange={(e) => setSetFormData(prev => ({ ...prev, targetPercent: e.target.value }))}
+              />
+            </div>
             <div className="space-y-1">
               <Label className="text-xs">Time (sec)</Label>
               <Input
@@ -520,15 +855,44 @@ export default function TemplateDetail() {
                 onChange={(e) => setSetFormData(prev => ({ ...prev, restSeconds: e.target.value }))}
               />
             </div>
+            <div className="space-y-1">
+              <Label className="text-xs">RPE</Label>
+              <Input
+                type="number"
+                inputMode="decimal"
+                step="0.5"
+                min="1"
+                max="10"
+                placeholder="8"
+                value={setFormData.targetRpe}
+                onChange={(e) => setSetFormData(prev => ({ ...prev, targetRpe: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">RIR</Label>
+              <Input
+                type="number"
+                inputMode="numeric"
+                min="0"
+                placeholder="2"
+                value={setFormData.targetRir}
+                onChange={(e) => setSetFormData(prev => ({ ...prev, targetRir: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Tempo</Label>
+              <Input
+                placeholder="3-1-1-0"
+                value={setFormData.targetTempo}
+                onChange={(e) => setSetFormData(prev => ({ ...prev, targetTempo: e.target.value }))}
+              />
+            </div>
           </div>
-          <div className="flex items-center gap-2">
-            <Checkbox
-              id={`warmup-${templateExercise.id}`}
-              checked={setFormData.isWarmup}
-              onCheckedChange={(checked) => setSetFormData(prev => ({ ...prev, isWarmup: !!checked }))}
-            />
-            <Label htmlFor={`warmup-${templateExercise.id}`} className="text-sm">Warmup set</Label>
-          </div>
+          <SetTypeSelect
+            value={setFormData.setType}
+            onChange={(setType) => setSetFormData(prev => ({ ...prev, setType }))}
+            allowDrop={(templateExercise.plannedSets?.length || 0) > 0}
+          />
           <div className="flex gap-2">
             <Button
               size="sm"
@@ -557,9 +921,14 @@ export default function TemplateDetail() {
               setSetFormData({
                 targetReps: lastSet.targetReps?.toString() || "",
                 targetWeight: lastSet.targetWeight || "",
+                targetPercent: lastSet.targetPercent ? String(Number(lastSet.targetPercent)) : "",
                 targetTime: lastSet.targetTimeSeconds?.toString() || "",
+                targetRpe: lastSet.targetRpe ? String(Number(lastSet.targetRpe)) : "",
+                targetRir: lastSet.targetRir?.toString() ?? "",
+                targetTempo: lastSet.targetTempo || "",
                 restSeconds: lastSet.restSeconds?.toString() || "",
-                isWarmup: false,
+                // Drop sets usually come in a run, other types don't repeat
+                setType: lastSet.setType === "drop" ? "drop" : "normal",
               });
             }
             setEditingSets(templateExercise.id);
@@ -569,6 +938,35 @@ export default function TemplateDetail() {
           Add Set
         </Button>
       )}
+
+      {editingSets !== templateExercise.id && getWarmups(templateExercise).length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => addWarmupsMutation.mutate({
+            templateExerciseId: templateExercise.id,
+            warmups: getWarmups(templateExercise),
+            currentSets: templateExercise.plannedSets || [],
+          })}
+          disabled={addWarmupsMutation.isPending}
+          data-testid={`button-add-warmups-${templateExercise.id}`}
+        >
+          <Flame className="h-4 w-4 mr-1" />
+          Add warm-ups ({getWarmups(templateExercise).map(w => `${w.reps}\u00d7${w.weight}`).join(", ")})
+        </Button>
+      )}
+
+      <button
+        onClick={() => openProgressionDialog(templateExercise)}
+        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-xs text-muted-foreground hover:bg-muted transition-colors text-left"
+        data-testid={`button-progression-${templateExercise.id}`}
+      >
+        <TrendingUp className="h-3 w-3 flex-shrink-0" />
+        {templateExercise.progressionRule
+          ? <span className="truncate">{describeProgressionRule(templateExercise.progressionRule, templateExercise.exercise?.weightUnit ?? "lbs")}</span>
+          : <span>Add progression rule</span>}
+      </button>
     </div>
   );
 
@@ -954,6 +1352,140 @@ export default function TemplateDetail() {
             }}
           />
         )}
+
+        {progressionLog && progressionLog.length > 0 && (
+          <Card className="p-4 space-y-3" data-testid="card-progression-log">
+            <div className="flex items-center gap-2">
+              <TrendingUp className="h-4 w-4 text-primary" />
+              <h3 className="font-medium">Progression History</h3>
+            </div>
+            <div className="space-y-2">
+              {progressionLog.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-2 text-sm py-1 border-b border-border last:border-b-0">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{entry.exerciseName}</p>
+                    <p className="text-xs text-muted-foreground">{describeProgressionChange(
+                      entry,
+                      template.exercises?.find(te => te.id === entry.templateExerciseId)?.exercise?.weightUnit ?? "lbs",
+                    )}</p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                    <Badge variant={entry.outcome === "reset" ? "outline" : "secondary"} className="text-xs">
+                      {entry.outcome === "reset" ? "Reset" : "Progressed"}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{format(new Date(entry.createdAt), "MMM d")}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <Dialog open={!!progressionExercise} onOpenChange={(open) => !open && setProgressionExercise(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Progression: {progressionExercise?.exercise?.name}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label>Rule</Label>
+                <Select
+                  value={progressionForm.type}
+                  onValueChange={(value) => setProgressionForm(prev => ({ ...prev, type: value as ProgressionForm["type"] }))}
+                >
+                  <SelectTrigger data-testid="select-progression-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="linear">Linear - add weight after every successful session</SelectItem>
+                    <SelectItem value="double">Double - add reps up to the top of a range, then weight</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Weight increment ({progressionExercise?.exercise?.weightUnit ?? "lbs"})</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={progressionForm.weightIncrement}
+                    onChange={(e) => setProgressionForm(prev => ({ ...prev, weightIncrement: e.target.value }))}
+                    data-testid="input-progression-increment"
+                  />
+                </div>
+                {progressionForm.type === "double" && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Rep range</Label>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min="1"
+                        value={progressionForm.minReps}
+                        onChange={(e) => setProgressionForm(prev => ({ ...prev, minReps: e.target.value }))}
+                        data-testid="input-progression-min-reps"
+                      />
+                      <span className="text-muted-foreground">-</span>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={progressionForm.maxReps}
+                        onChange={(e) => setProgressionForm(prev => ({ ...prev, maxReps: e.target.value }))}
+                        data-testid="input-progression-max-reps"
+                      />
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label className="text-xs">Reset after misses</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Never"
+                    value={progressionForm.failuresBeforeReset}
+                    onChange={(e) => setProgressionForm(prev => ({ ...prev, failuresBeforeReset: e.target.value }))}
+                    data-testid="input-progression-failures"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Reset drop (%)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="50"
+                    value={progressionForm.resetPercent}
+                    onChange={(e) => setProgressionForm(prev => ({ ...prev, resetPercent: e.target.value }))}
+                    disabled={!progressionForm.failuresBeforeReset}
+                    data-testid="input-progression-reset-percent"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Evaluated when you finish a workout from this template. A session succeeds when every working set meets its target reps and weight.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  className="flex-1"
+                  onClick={handleSaveProgression}
+                  disabled={saveProgressionMutation.isPending}
+                  data-testid="button-save-progression"
+                >
+                  Save Rule
+                </Button>
+                {progressionExercise?.progressionRule && (
+                  <Button
+                    variant="outline"
+                    onClick={() => removeProgressionMutation.mutate(progressionExercise.id)}
+                    disabled={removeProgressionMutation.isPending}
+                    data-testid="button-remove-progression"
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
       </div>
     </AppLayout>
   );
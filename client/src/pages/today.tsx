@@ -8,12 +8,13 @@ import { ListSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { Calendar, Play, CheckCircle2, XCircle, Clock, Dumbbell, Plus, Search } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Calendar, Play, CheckCircle2, XCircle, Clock, Dumbbell, Plus, Search, SkipForward, Target, CalendarRange, TimerOff } from "lucide-react";
 import { Link, useLocation } from "wouter";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { WorkoutScheduleItem, WorkoutTemplate, WorkoutSession } from "@shared/schema";
+import type { WorkoutScheduleItem, WorkoutTemplate, WorkoutSession, Program, ProgramRun, ProgressionLogEntry } from "@shared/schema";
 
 interface ScheduleWithTemplate extends WorkoutScheduleItem {
   template?: WorkoutTemplate;
@@ -27,12 +28,26 @@ interface TemplateWithCount extends WorkoutTemplate {
   exerciseCount: number;
 }
 
+interface ActiveProgramRun extends ProgramRun {
+  program: Program;
+  weekNumber: number | null;
+  dayNumber: number | null;
+  totalWorkouts: number;
+  completedWorkouts: number;
+}
+
+interface OverviewData {
+  planAdherence: { completed: number; skipped: number; adherencePct: number | null };
+}
+
 export default function Today() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const today = format(new Date(), "yyyy-MM-dd");
   const [startWorkoutOpen, setStartWorkoutOpen] = useState(false);
   const [templateSearchQuery, setTemplateSearchQuery] = useState("");
+  const [skippingSchedule, setSkippingSchedule] = useState<ScheduleWithTemplate | null>(null);
+  const [skipReason, setSkipReason] = useState("");
 
   const { data: todaySchedule, isLoading: scheduleLoading } = useQuery<ScheduleWithTemplate[]>({
     queryKey: ["/api/schedule", today],
@@ -42,6 +57,67 @@ export default function Today() {
     queryKey: ["/api/sessions/active"],
   });
 
+  const { data: autoEndedSessions } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions/auto-ended"],
+  });
+
+  const { data: activeProgram } = useQuery<ActiveProgramRun | null>({
+    queryKey: ["/api/programs/active"],
+  });
+
+  const { data: overview } = useQuery<OverviewData>({
+    queryKey: ["/api/analytics/overview"],
+  });
+
+  const keepSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return await apiRequest<WorkoutSession & { progressions: ProgressionLogEntry[] }>("POST", `/api/sessions/${sessionId}/keep`);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/auto-ended"] });
+      if (data.progressions.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      }
+      toast({ title: "Workout kept" });
+    },
+    onError: () => {
+      toast({ title: "Failed to keep workout", variant: "destructive" });
+    },
+  });
+
+  const reopenSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return await apiRequest<WorkoutSession>("POST", `/api/sessions/${sessionId}/reopen`);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/auto-ended"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      navigate(`/session/${data.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reopen workout", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const skipWorkoutMutation = useMutation({
+    mutationFn: async ({ scheduleId, reason }: { scheduleId: string; reason: string }) => {
+      return await apiRequest("POST", `/api/schedule/${scheduleId}/skip`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/overview"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/programs/active"] });
+      setSkippingSchedule(null);
+      setSkipReason("");
+      toast({ title: "Workout skipped" });
+    },
+    onError: () => {
+      toast({ title: "Failed to skip workout", variant: "destructive" });
+    },
+  });
+
   const startWorkoutMutation = useMutation({
     mutationFn: async (scheduleId: string) => {
       const res = await apiRequest("POST", `/api/sessions/start/${scheduleId}`);
@@ -105,6 +181,81 @@ export default function Today() {
           </p>
         </div>
 
+        {activeProgram && (
+          <Link href="/programs">
+            <Card className="p-4 hover-elevate" data-testid="card-active-program">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                  <CalendarRange className="h-5 w-5 text-primary" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="font-semibold truncate">{activeProgram.program.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {activeProgram.weekNumber
+                      ? `Week ${activeProgram.weekNumber} of ${activeProgram.program.weekCount} · Day ${activeProgram.dayNumber}`
+                      : `Starts ${format(parseISO(activeProgram.startDate), "EEE, MMM d")}`}
+                  </p>
+                </div>
+                <span className="text-sm text-muted-foreground flex-shrink-0">
+                  {activeProgram.completedWorkouts}/{activeProgram.totalWorkouts}
+                </span>
+              </div>
+            </Card>
+          </Link>
+        )}
+
+        {overview?.planAdherence.adherencePct != null && (
+          <Card className="p-4" data-testid="card-plan-adherence">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
+                <Target className="h-5 w-5 text-muted-foreground" />
+              </div>
+              <div>
+                <p className="font-semibold">{overview.planAdherence.adherencePct}% plan adherence</p>
+                <p className="text-sm text-muted-foreground">
+                  {overview.planAdherence.completed} done, {overview.planAdherence.skipped} skipped in the last 4 weeks
+                </p>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {autoEndedSessions?.map((session) => (
+          <Card key={session.id} className="p-4" data-testid={`card-auto-ended-${session.id}`}>
+            <div className="flex items-start gap-3">
+              <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                <TimerOff className="h-5 w-5 text-muted-foreground" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold">Workout ended automatically</p>
+                <p className="text-sm text-muted-foreground">
+                  {session.template?.name || "Ad-hoc workout"} from {format(new Date(session.startedAt), "EEE, MMM d")} had
+                  no sets logged for a while, so it was ended at {format(new Date(session.endedAt!), "h:mm a")}.
+                </p>
+                <div className="flex gap-2 mt-3">
+                  <Button
+                    size="sm"
+                    onClick={() => keepSessionMutation.mutate(session.id)}
+                    disabled={keepSessionMutation.isPending}
+                    data-testid={`button-keep-auto-ended-${session.id}`}
+                  >
+                    Keep
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => reopenSessionMutation.mutate(session.id)}
+                    disabled={reopenSessionMutation.isPending}
+                    data-testid={`button-undo-auto-ended-${session.id}`}
+                  >
+                    Undo
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </Card>
+        ))}
+
         {activeSession && (
           <Card className="p-4 border-primary bg-primary/5" data-testid="card-active-session">
             <div className="flex items-center justify-between gap-3">
@@ -157,18 +308,32 @@ export default function Today() {
                           {schedule.template?.name || "Workout"}
                         </p>
                         {getStatusBadge(schedule.status || "planned")}
+                        {schedule.status === "skipped" && schedule.skipReason && (
+                          <p className="text-xs text-muted-foreground mt-1 truncate">{schedule.skipReason}</p>
+                        )}
                       </div>
                     </div>
                     {schedule.status === "planned" && !activeSession && (
-                      <Button 
-                        size="sm"
-                        onClick={() => startWorkoutMutation.mutate(schedule.id)}
-                        disabled={startWorkoutMutation.isPending}
-                        data-testid={`button-start-${schedule.id}`}
-                      >
-                        <Play className="h-4 w-4 mr-1" />
-                        Start
-                      </Button>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setSkippingSchedule(schedule)}
+                          data-testid={`button-skip-${schedule.id}`}
+                        >
+                          <SkipForward className="h-4 w-4 mr-1" />
+                          Skip
+                        </Button>
+                        <Button 
+                          size="sm"
+                          onClick={() => startWorkoutMutation.mutate(schedule.id)}
+                          disabled={startWorkoutMutation.isPending}
+                          data-testid={`button-start-${schedule.id}`}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Start
+                        </Button>
+                      </div>
                     )}
                   </div>
                 </Card>
@@ -256,6 +421,42 @@ export default function Today() {
             </Dialog>
           </div>
         )}
+
+        <Dialog open={!!skippingSchedule} onOpenChange={(open) => {
+          if (!open) {
+            setSkippingSchedule(null);
+            setSkipReason("");
+          }
+        }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Skip {skippingSchedule?.template?.name || "Workout"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="skip-reason">Reason (optional)</Label>
+                <Input
+                  id="skip-reason"
+                  placeholder="e.g., Sick, traveling, rest day"
+                  value={skipReason}
+                  onChange={(e) => setSkipReason(e.target.value)}
+                  maxLength={200}
+                  data-testid="input-skip-reason"
+                />
+              </div>
+              <Button
+                className="w-full"
+                variant="outline"
+                onClick={() => skippingSchedule && skipWorkoutMutation.mutate({ scheduleId: skippingSchedule.id, reason: skipReason })}
+                disabled={skipWorkoutMutation.isPending}
+                data-testid="button-confirm-skip"
+              >
+                <SkipForward className="h-4 w-4 mr-2" />
+                Skip Workout
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
       </div>
     </AppLayout>
   );
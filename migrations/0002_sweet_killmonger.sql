@@ -0,0 +1,8 @@
+ALTER TABLE "exercises" ALTER COLUMN "default_tracking" SET DEFAULT '{"weight":true,"reps":true,"time":false,"distance":false}'::jsonb;--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "weight_unit" text DEFAULT 'lbs';--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "distance_unit" text DEFAULT 'mi';--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "time_unit" text DEFAULT 'sec';--> statement-breakpoint
+ALTER TABLE "performed_sets" ADD COLUMN "actual_distance" numeric;--> statement-breakpoint
+ALTER TABLE "planned_sets" ADD COLUMN "target_distance" numeric;--> statement-breakpoint
+ALTER TABLE "supplement_schedule" ADD COLUMN "interval_days" integer;--> statement-breakpoint
+ALTER TABLE "supplement_schedule" ADD COLUMN "start_date" date;
\ No newline at end of file
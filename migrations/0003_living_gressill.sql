@@ -0,0 +1,18 @@
+CREATE TYPE "public"."schedule_recurrence" AS ENUM('weekly', 'interval');--> statement-breakpoint
+CREATE TABLE "workout_schedule_series" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"template_id" varchar NOT NULL,
+	"recurrence" "schedule_recurrence" NOT NULL,
+	"days_of_week" integer[],
+	"interval_days" integer,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"generated_through" date,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "workout_schedule" ADD COLUMN "series_id" varchar;--> statement-breakpoint
+CREATE INDEX "schedule_series_user_idx" ON "workout_schedule_series" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "schedule_series_idx" ON "workout_schedule" USING btree ("series_id","scheduled_date");
\ No newline at end of file
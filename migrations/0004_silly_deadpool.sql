@@ -0,0 +1 @@
+ALTER TABLE "workout_schedule" ADD COLUMN "skip_reason" text;
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "program_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"program_id" varchar NOT NULL,
+	"start_date" date NOT NULL,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "program_workouts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"program_id" varchar NOT NULL,
+	"week_number" integer NOT NULL,
+	"day_number" integer NOT NULL,
+	"template_id" varchar NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "programs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"notes" text,
+	"week_count" integer DEFAULT 4 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "workout_schedule" ADD COLUMN "program_run_id" varchar;--> statement-breakpoint
+CREATE INDEX "program_runs_user_idx" ON "program_runs" USING btree ("user_id","start_date");--> statement-breakpoint
+CREATE INDEX "program_workouts_program_idx" ON "program_workouts" USING btree ("program_id","week_number","day_number");--> statement-breakpoint
+CREATE INDEX "programs_user_idx" ON "programs" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "schedule_program_run_idx" ON "workout_schedule" USING btree ("program_run_id","scheduled_date");
\ No newline at end of file
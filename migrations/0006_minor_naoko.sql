@@ -0,0 +1,34 @@
+CREATE TYPE "public"."progression_outcome" AS ENUM('progressed', 'reset');--> statement-breakpoint
+CREATE TYPE "public"."progression_type" AS ENUM('linear', 'double');--> statement-breakpoint
+CREATE TABLE "progression_log" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"template_id" varchar NOT NULL,
+	"template_exercise_id" varchar NOT NULL,
+	"exercise_id" varchar NOT NULL,
+	"session_id" varchar NOT NULL,
+	"outcome" "progression_outcome" NOT NULL,
+	"previous_weight" numeric,
+	"new_weight" numeric,
+	"previous_reps" integer,
+	"new_reps" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "progression_rules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"template_exercise_id" varchar NOT NULL,
+	"type" "progression_type" NOT NULL,
+	"weight_increment" numeric DEFAULT '5' NOT NULL,
+	"min_reps" integer,
+	"max_reps" integer,
+	"failures_before_reset" integer,
+	"reset_percent" integer DEFAULT 10 NOT NULL,
+	"consecutive_failures" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "progression_rules_template_exercise_unique" UNIQUE("template_exercise_id")
+);
+--> statement-breakpoint
+CREATE INDEX "progression_log_template_idx" ON "progression_log" USING btree ("template_id","created_at");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "training_maxes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"exercise_id" varchar NOT NULL,
+	"weight" numeric NOT NULL,
+	"rounding_increment" numeric DEFAULT '5' NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "training_maxes_user_exercise_unique" UNIQUE("user_id","exercise_id")
+);
+--> statement-breakpoint
+ALTER TABLE "planned_sets" ADD COLUMN "target_percent" numeric;--> statement-breakpoint
+ALTER TABLE "session_exercises" ADD COLUMN "resolved_weights" jsonb;
\ No newline at end of file
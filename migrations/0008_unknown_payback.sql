@@ -0,0 +1,12 @@
+CREATE TYPE "public"."muscle_group" AS ENUM('chest', 'front_delts', 'side_delts', 'rear_delts', 'lats', 'upper_back', 'traps', 'lower_back', 'biceps', 'triceps', 'forearms', 'abs', 'obliques', 'quads', 'hamstrings', 'glutes', 'adductors', 'calves');--> statement-breakpoint
+CREATE TABLE "muscle_targets" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"muscle" "muscle_group" NOT NULL,
+	"min_sets" integer NOT NULL,
+	"max_sets" integer NOT NULL,
+	CONSTRAINT "muscle_targets_user_muscle_unique" UNIQUE("user_id","muscle")
+);
+--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "primary_muscles" "muscle_group"[];--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "secondary_muscles" "muscle_group"[];
\ No newline at end of file
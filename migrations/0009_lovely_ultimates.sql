@@ -0,0 +1,11 @@
+CREATE TABLE "idempotency_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"key" varchar NOT NULL,
+	"status_code" integer NOT NULL,
+	"response" jsonb,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "idempotency_keys_user_key_unique" UNIQUE("user_id","key")
+);
+--> statement-breakpoint
+CREATE INDEX "idempotency_keys_created_idx" ON "idempotency_keys" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "session_exercises" ADD COLUMN "template_exercise_id" varchar;--> statement-breakpoint
+ALTER TABLE "session_exercises" ADD COLUMN "substituted_exercise_id" varchar;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "user_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"auto_end_after_hours" integer DEFAULT 6,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_settings_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workout_sessions" ADD COLUMN "auto_ended_at" timestamp;
\ No newline at end of file
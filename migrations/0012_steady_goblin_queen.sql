@@ -0,0 +1,6 @@
+ALTER TABLE "performed_sets" ADD COLUMN "actual_rpe" numeric;--> statement-breakpoint
+ALTER TABLE "performed_sets" ADD COLUMN "actual_rir" integer;--> statement-breakpoint
+ALTER TABLE "performed_sets" ADD COLUMN "actual_tempo" varchar;--> statement-breakpoint
+ALTER TABLE "planned_sets" ADD COLUMN "target_rpe" numeric;--> statement-breakpoint
+ALTER TABLE "planned_sets" ADD COLUMN "target_rir" integer;--> statement-breakpoint
+ALTER TABLE "planned_sets" ADD COLUMN "target_tempo" varchar;
\ No newline at end of file
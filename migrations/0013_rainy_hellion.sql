@@ -0,0 +1,7 @@
+CREATE TYPE "public"."set_type" AS ENUM('normal', 'warmup', 'drop', 'amrap', 'rest_pause', 'cluster', 'failure');--> statement-breakpoint
+ALTER TABLE "performed_sets" ADD COLUMN "set_type" "set_type" DEFAULT 'normal' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performed_sets" ADD COLUMN "parent_set_id" varchar;--> statement-breakpoint
+ALTER TABLE "planned_sets" ADD COLUMN "set_type" "set_type" DEFAULT 'normal' NOT NULL;--> statement-breakpoint
+ALTER TABLE "planned_sets" ADD COLUMN "parent_set_id" varchar;--> statement-breakpoint
+UPDATE "performed_sets" SET "set_type" = 'warmup' WHERE "is_warmup" = true;--> statement-breakpoint
+UPDATE "planned_sets" SET "set_type" = 'warmup' WHERE "is_warmup" = true;
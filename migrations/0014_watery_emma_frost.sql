@@ -0,0 +1,3 @@
+ALTER TABLE "user_settings" ADD COLUMN "warmup_scheme" jsonb DEFAULT '[{"percent":0,"reps":10},{"percent":40,"reps":5},{"percent":60,"reps":3},{"percent":80,"reps":1}]'::jsonb;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "bar_weight" numeric DEFAULT '45';--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "smallest_plate" numeric DEFAULT '2.5';
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TYPE "public"."equipment_type" AS ENUM('barbell', 'plate_loaded', 'dumbbell', 'machine', 'bodyweight', 'other');--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "equipment" "equipment_type";--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "bar_weights" jsonb DEFAULT '[45]'::jsonb;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "plates" jsonb DEFAULT '[45,35,25,10,5,2.5]'::jsonb;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "dumbbell_increment" numeric DEFAULT '5';--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "machine_step" numeric DEFAULT '5';--> statement-breakpoint
+UPDATE "user_settings" SET "bar_weights" = jsonb_build_array("bar_weight"::numeric) WHERE "bar_weight" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" DROP COLUMN "bar_weight";--> statement-breakpoint
+ALTER TABLE "user_settings" DROP COLUMN "smallest_plate";
\ No newline at end of file
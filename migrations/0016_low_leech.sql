@@ -0,0 +1,2 @@
+ALTER TABLE "performed_sets" ADD COLUMN "weight_unit" text;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "weight_unit" text DEFAULT 'lbs' NOT NULL;
\ No newline at end of file
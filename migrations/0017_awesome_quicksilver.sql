@@ -0,0 +1,3 @@
+ALTER TABLE "circuits" ADD COLUMN "format" text DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "circuits" ADD COLUMN "interval_seconds" integer;--> statement-breakpoint
+ALTER TABLE "circuits" ADD COLUMN "time_cap_seconds" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "workout_sessions" ADD COLUMN "rest_timer" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "performed_sets" ADD COLUMN "completed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "progression_log" ADD COLUMN "previous_targets" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_settings" ALTER COLUMN "auto_end_after_hours" DROP DEFAULT;
\ No newline at end of file
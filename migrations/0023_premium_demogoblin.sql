@@ -0,0 +1 @@
+ALTER TABLE "progression_log" ALTER COLUMN "previous_targets" SET NOT NULL;
\ No newline at end of file
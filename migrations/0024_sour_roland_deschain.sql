@@ -0,0 +1 @@
+ALTER TABLE "workout_schedule_series" ADD COLUMN "excluded_dates" text[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
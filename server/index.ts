@@ -1,6 +1,7 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -100,4 +101,16 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  // Mark past planned workouts that were never started as skipped. Schedule
+  // and dashboard reads also do this per user, for deploys without this process
+  const sweepMissedWorkouts = () => {
+    storage.markMissedSchedulesSkipped()
+      .then((count) => {
+        if (count > 0) log(`marked ${count} missed workouts as skipped`, "schedule");
+      })
+      .catch((error) => console.error("Error marking missed workouts as skipped:", error));
+  };
+  sweepMissedWorkouts();
+  setInterval(sweepMissedWorkouts, 60 * 60 * 1000);
 })();
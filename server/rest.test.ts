@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PerformedSet } from "../shared/schema";
+import { MAX_REST_SECONDS, restIntervals, restOnTarget, restPacing, type PlannedRest } from "./rest";
+
+const start = new Date("2026-01-05T18:00:00Z").getTime();
+
+// A working set of the session exercise, done the given seconds into the workout
+function performed(sessionExerciseId: string, setNumber: number, seconds: number | null, data: Partial<PerformedSet> = {}): PerformedSet {
+  return {
+    id: `${sessionExerciseId}-${setNumber}`,
+    userId: "user",
+    sessionExerciseId,
+    setNumber,
+    actualReps: 5,
+    actualWeight: "225",
+    weightUnit: "lbs",
+    actualTimeSeconds: null,
+    actualDistance: null,
+    actualRpe: null,
+    actualRir: null,
+    actualTempo: null,
+    restSeconds: null,
+    isWarmup: false,
+    setType: "normal",
+    parentSetId: null,
+    completedAt: seconds === null ? null : new Date(start + seconds * 1000),
+    createdAt: new Date(start),
+    ...data,
+  };
+}
+
+function planned(sessionExerciseId: string, restSeconds: number | null, count = 5): PlannedRest[] {
+  return Array.from({ length: count }, (_, i) => ({ sessionExerciseId, setNumber: i + 1, restSeconds }));
+}
+
+describe("restIntervals", () => {
+  it("measures rest between sets of the same exercise against the planned rest after the set", () => {
+    const sets = [performed("squat", 1, 0), performed("squat", 2, 190), performed("squat", 3, 400)];
+    const plan = [
+      { sessionExerciseId: "squat", setNumber: 1, restSeconds: 180 },
+      { sessionExerciseId: "squat", setNumber: 2, restSeconds: 240 },
+    ];
+    assert.deepEqual(restIntervals(sets, plan), [
+      { sessionExerciseId: "squat", actualSeconds: 190, targetSeconds: 180 },
+      { sessionExerciseId: "squat", actualSeconds: 210, targetSeconds: 240 },
+    ]);
+  });
+
+  it("ignores the rest typed into the logged set", () => {
+    const sets = [performed("squat", 1, 0, { restSeconds: 60 }), performed("squat", 2, 200)];
+    assert.equal(restIntervals(sets, [])[0].targetSeconds, null);
+    assert.equal(restIntervals(sets, planned("squat", 180))[0].targetSeconds, 180);
+  });
+
+  it("keeps exercises apart and works in completion order", () => {
+    const sets = [
+      performed("bench", 2, 500),
+      performed("squat", 1, 0),
+      performed("bench", 1, 300),
+      performed("squat", 2, 150),
+    ];
+    assert.deepEqual(restIntervals(sets, [...planned("squat", 120), ...planned("bench", 90)]), [
+      { sessionExerciseId: "squat", actualSeconds: 150, targetSeconds: 120 },
+      { sessionExerciseId: "bench", actualSeconds: 200, targetSeconds: 90 },
+    ]);
+  });
+
+  it("leaves out rest after warm-ups, into drop sets, over the break limit and around untimed sets", () => {
+    const sets = [
+      performed("squat", 1, 0, { isWarmup: true, setType: "warmup" }),
+      performed("squat", 2, 60),
+      performed("squat", 3, 70, { setType: "drop" }),
+      performed("squat", 4, 70 + MAX_REST_SECONDS + 1),
+      performed("squat", 5, null),
+    ];
+    assert.deepEqual(restIntervals(sets, planned("squat", 120)), []);
+  });
+
+  it("leaves out rest after sets only flagged as warm-ups", () => {
+    const sets = [performed("squat", 1, 0, { isWarmup: true }), performed("squat", 2, 90)];
+    assert.deepEqual(restIntervals(sets, planned("squat", 120)), []);
+  });
+});
+
+describe("restOnTarget", () => {
+  it("allows 20% either way, and at least 15 seconds", () => {
+    assert.equal(restOnTarget({ sessionExerciseId: "squat", actualSeconds: 240, targetSeconds: 200 }), true);
+    assert.equal(restOnTarget({ sessionExerciseId: "squat", actualSeconds: 241, targetSeconds: 200 }), false);
+    assert.equal(restOnTarget({ sessionExerciseId: "squat", actualSeconds: 45, targetSeconds: 60 }), true);
+    assert.equal(restOnTarget({ sessionExerciseId: "squat", actualSeconds: 44, targetSeconds: 60 }), false);
+  });
+
+  it("is never on target without a planned rest", () => {
+    assert.equal(restOnTarget({ sessionExerciseId: "squat", actualSeconds: 90, targetSeconds: null }), false);
+  });
+});
+
+describe("restPacing", () => {
+  it("averages actual rest over every interval and targets over planned ones", () => {
+    assert.deepEqual(restPacing([
+      { sessionExerciseId: "squat", actualSeconds: 180, targetSeconds: 180 },
+      { sessionExerciseId: "squat", actualSeconds: 300, targetSeconds: 120 },
+      { sessionExerciseId: "curl", actualSeconds: 61, targetSeconds: null },
+    ]), { avgRestSeconds: 180, targetRestSeconds: 150, onTargetPct: 50 });
+  });
+
+  it("is null with nothing to average", () => {
+    assert.deepEqual(restPacing([]), { avgRestSeconds: null, targetRestSeconds: null, onTargetPct: null });
+  });
+});
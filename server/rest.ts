@@ -0,0 +1,51 @@
+import type { PerformedSet, PlannedSet } from "../shared/schema";
+
+// Actual rest is the gap between one set's completion and the next set of the
+// same session exercise. Gaps after warm-ups, into drop sets (which have no
+// rest) or long enough to be a break rather than rest are left out
+export const MAX_REST_SECONDS = 900;
+
+export type RestInterval = { sessionExerciseId: string; actualSeconds: number; targetSeconds: number | null };
+
+// A planned set as it applies to one session exercise
+export type PlannedRest = Pick<PlannedSet, "setNumber" | "restSeconds"> & { sessionExerciseId: string };
+
+// The target is the rest the template plans after the set, not what was typed
+// into the logged set, which is often the actual rest or left blank
+export function restIntervals(sets: PerformedSet[], plannedSets: PlannedRest[]): RestInterval[] {
+  const plannedRest = new Map(plannedSets.map(set => [`${set.sessionExerciseId}:${set.setNumber}`, set.restSeconds]));
+  const completedAt = (set: PerformedSet) => new Date(set.completedAt!).getTime();
+  const timed = sets.filter(set => set.completedAt).sort((a, b) => completedAt(a) - completedAt(b));
+  const previousSet = new Map<string, PerformedSet>();
+  const intervals: RestInterval[] = [];
+  for (const set of timed) {
+    const previous = previousSet.get(set.sessionExerciseId);
+    previousSet.set(set.sessionExerciseId, set);
+    if (!previous || previous.isWarmup || previous.setType === "warmup" || set.setType === "drop") continue;
+    const seconds = Math.round((completedAt(set) - completedAt(previous)) / 1000);
+    if (seconds <= 0 || seconds > MAX_REST_SECONDS) continue;
+    const targetSeconds = plannedRest.get(`${previous.sessionExerciseId}:${previous.setNumber}`) || null;
+    intervals.push({ sessionExerciseId: set.sessionExerciseId, actualSeconds: seconds, targetSeconds });
+  }
+  return intervals;
+}
+
+// Rest within 20% (and at least 15 seconds) of the planned rest, either way
+export function restOnTarget(interval: RestInterval): boolean {
+  if (!interval.targetSeconds) return false;
+  const tolerance = Math.max(15, interval.targetSeconds * 0.2);
+  return Math.abs(interval.actualSeconds - interval.targetSeconds) <= tolerance;
+}
+
+// Average actual and planned rest, and the share of planned rests kept to.
+// Null where there is nothing to average
+export function restPacing(intervals: RestInterval[]) {
+  const average = (values: number[]) =>
+    values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+  const targeted = intervals.filter(i => i.targetSeconds);
+  return {
+    avgRestSeconds: average(intervals.map(i => i.actualSeconds)),
+    targetRestSeconds: average(targeted.map(i => i.targetSeconds!)),
+    onTargetPct: targeted.length ? Math.round(targeted.filter(restOnTarget).length / targeted.length * 100) : null,
+  };
+}
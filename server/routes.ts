@@ -1,6 +1,6 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type OneRepMaxFormula } from "./storage";
 import { setupAuth, isAuthenticated, getUserId } from "./auth";
 import { z, ZodSchema } from "zod";
 import {
@@ -10,11 +10,22 @@ import {
   insertWorkoutTemplateSchema,
   insertWorkoutTemplateExerciseSchema,
   insertPlannedSetSchema,
+  insertProgressionRuleSchema,
+  insertTrainingMaxSchema,
+  insertMuscleTargetSchema,
+  muscleGroups,
+  setTypes,
+  weightUnits,
   insertWorkoutScheduleSchema,
+  insertWorkoutScheduleSeriesSchema,
+  insertProgramSchema,
+  insertProgramWorkoutSchema,
   insertSupplementSchema,
+  insertSupplementScheduleSchema,
   insertSupplementLogSchema,
   insertBodyWeightLogSchema,
   insertPerformedSetSchema,
+  insertUserSettingsSchema,
 } from "../shared/schema";
 
 // Validation helper
@@ -26,6 +37,246 @@ function validateBody<T>(schema: ZodSchema<T>, body: unknown): { success: true;
   return { success: true, data: result.data };
 }
 
+const supplementScheduleFieldsSchema = insertSupplementScheduleSchema.omit({ userId: true, supplementId: true }).extend({
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullish(),
+  intervalDays: z.number().int().min(1).nullish(),
+});
+
+// Weekly schedules need days to fall on; custom schedules repeat every N days
+// counted from their start date
+const supplementScheduleBodySchema = supplementScheduleFieldsSchema
+  .refine(s => s.scheduleType !== "weekly" || (s.daysOfWeek?.length ?? 0) > 0, {
+    message: "Weekly schedules need at least one day",
+    path: ["daysOfWeek"],
+  })
+  .refine(s => s.scheduleType !== "custom" || !!s.intervalDays, {
+    message: "Custom schedules need an interval",
+    path: ["intervalDays"],
+  })
+  .refine(s => s.scheduleType !== "custom" || !!s.startDate, {
+    message: "Custom schedules need a start date",
+    path: ["startDate"],
+  });
+
+const trainingMaxBodySchema = insertTrainingMaxSchema.omit({ userId: true, exerciseId: true }).extend({
+  weight: z.string().regex(/^\d+(\.\d+)?$/, "Expected a number"),
+  roundingIncrement: z.string().regex(/^\d+(\.\d+)?$/, "Expected a number").optional(),
+});
+
+// How long a replay waits for an earlier copy of itself to finish before
+// giving up with a 409, which the client retries later
+const IDEMPOTENCY_WAIT_MS = 5000;
+const IDEMPOTENCY_POLL_MS = 250;
+
+// Offline clients replay queued mutations with an Idempotency-Key header. The
+// key is reserved before the handler runs, so of two copies in flight at once
+// only one runs; a key that was already handled gets its stored response
+async function sendIdempotent(
+  req: Request,
+  res: Response,
+  userId: string,
+  handler: () => Promise<{ status: number; body?: unknown }>,
+) {
+  const key = req.get("Idempotency-Key");
+  let result: { status: number; body?: unknown } | undefined;
+  if (!key) {
+    result = await handler();
+  }
+
+  const deadline = Date.now() + IDEMPOTENCY_WAIT_MS;
+  while (key && !result) {
+    const { reserved, record } = await storage.reserveIdempotencyKey(userId, key);
+    if (reserved) {
+      try {
+        result = await handler();
+      } catch (error) {
+        await storage.releaseIdempotencyKey(userId, key);
+        throw error;
+      }
+      await storage.completeIdempotencyKey(userId, key, result.status, result.body ?? null);
+    } else if (record && record.statusCode !== null) {
+      result = { status: record.statusCode, body: record.response };
+    } else if (Date.now() >= deadline) {
+      result = { status: 409, body: { message: "This change is still being saved" } };
+    } else {
+      await new Promise(resolve => setTimeout(resolve, IDEMPOTENCY_POLL_MS));
+    }
+  }
+
+  if (!result) return;
+  if (result.body === undefined || result.body === null) {
+    return res.status(result.status).send();
+  }
+  res.status(result.status).json(result.body);
+}
+
+const sessionUpdateSchema = z.object({
+  startedAt: z.coerce.date().optional(),
+  endedAt: z.coerce.date().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const restTimerBodySchema = z.object({
+  timer: z.object({
+    endsAt: z.string().datetime().nullable(),
+    durationSeconds: z.number().int().min(1).max(3600),
+    pausedRemainingSeconds: z.number().int().min(0).max(3600).nullable(),
+  }).nullable(),
+});
+
+// When a set was done. Offline clients send the time it was logged so queued
+// sets keep their real spacing; a missing time means now. Null for unreadable
+// times and ones in the future or outside the session, allowing a minute of
+// drift between the client's clock and ours
+const COMPLETED_AT_CLOCK_DRIFT_MS = 60 * 1000;
+
+function parseCompletedAt(value: unknown, session: { startedAt: Date | string; endedAt: Date | string | null }): Date | null {
+  const now = Date.now();
+  if (value === undefined || value === null) return new Date(now);
+  const time = typeof value === "string" ? new Date(value).getTime() : NaN;
+  if (isNaN(time)) return null;
+  const start = new Date(session.startedAt).getTime();
+  const end = session.endedAt ? Math.min(new Date(session.endedAt).getTime(), now) : now;
+  if (time < start - COMPLETED_AT_CLOCK_DRIFT_MS || time > end + COMPLETED_AT_CLOCK_DRIFT_MS) return null;
+  return new Date(Math.min(Math.max(time, start), end));
+}
+
+// Schedule reads take dates from the URL, and expanding recurring series
+// compares them as strings, so anything else is turned away
+const dateKeyParamSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+  .refine(v => !isNaN(Date.parse(v)), "Expected a valid date");
+
+const backfillSetSchema = z.object({
+  actualReps: z.number().int().min(0).nullish(),
+  actualWeight: z.string().regex(/^\d+(\.\d+)?$/, "Expected a number").nullish(),
+  weightUnit: z.enum(weightUnits).nullish(),
+  actualTimeSeconds: z.number().int().min(0).nullish(),
+  actualDistance: z.string().regex(/^\d+(\.\d+)?$/, "Expected a number").nullish(),
+  actualRpe: z.string().regex(/^\d+(\.\d+)?$/, "Expected a number").refine(v => Number(v) <= 10, "Must be 10 or less").nullish(),
+  isWarmup: z.boolean().optional(),
+  setType: z.enum(setTypes).optional(),
+});
+
+const backfillSessionSchema = z.object({
+  templateId: z.string().nullish(),
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date(),
+  notes: z.string().nullish(),
+  exercises: z.array(z.object({
+    exerciseId: z.string(),
+    circuitId: z.string().nullish(),
+    circuitRound: z.number().int().min(1).nullish(),
+    circuitRounds: z.number().int().min(1).nullish(),
+    notes: z.string().nullish(),
+    sets: z.array(backfillSetSchema),
+  })).min(1, "Add at least one exercise"),
+})
+  .refine(s => s.endedAt >= s.startedAt, {
+    message: "Must be after startedAt",
+    path: ["endedAt"],
+  })
+  .refine(s => s.endedAt.getTime() <= Date.now(), {
+    message: "Cannot be in the future",
+    path: ["endedAt"],
+  });
+
+const sessionExerciseReorderSchema = z.object({
+  exerciseIds: z.array(z.string()).min(1),
+});
+
+const sessionExerciseSubstituteSchema = z.object({
+  exerciseId: z.string(),
+});
+
+const positiveDecimal = z.string().regex(/^\d+(\.\d+)?$/, "Expected a number").refine(v => Number(v) > 0, "Must be greater than 0");
+
+const userSettingsBodySchema = insertUserSettingsSchema.omit({ userId: true }).extend({
+  autoEndAfterHours: z.number().int().min(1).max(72).nullable().optional(),
+  weightUnit: z.enum(weightUnits).optional(),
+  warmupScheme: z.array(z.object({
+    percent: z.number().min(0).max(100),
+    reps: z.number().int().min(1).max(50),
+  })).max(10).optional(),
+  barWeights: z.array(z.number().min(0).max(200)).min(1).max(6).optional(),
+  plates: z.array(z.number().positive().max(100)).max(12).optional(),
+  dumbbellIncrement: positiveDecimal.optional(),
+  machineStep: positiveDecimal.optional(),
+});
+
+const muscleParamSchema = z.enum(muscleGroups);
+
+const muscleTargetBodySchema = insertMuscleTargetSchema.omit({ userId: true, muscle: true }).extend({
+  minSets: z.number().int().min(0),
+  maxSets: z.number().int().min(0),
+}).refine(t => t.maxSets >= t.minSets, {
+  message: "maxSets must be at least minSets",
+  path: ["maxSets"],
+});
+
+const progressionRuleBodySchema = insertProgressionRuleSchema.omit({ userId: true, templateExerciseId: true }).extend({
+  weightIncrement: z.string().regex(/^\d+(\.\d+)?$/, "Expected a number").optional(),
+  minReps: z.number().int().min(1).nullish(),
+  maxReps: z.number().int().min(1).nullish(),
+  failuresBeforeReset: z.number().int().min(1).nullish(),
+  resetPercent: z.number().int().min(1).max(50).optional(),
+})
+  .refine(r => r.type !== "double" || (r.minReps != null && r.maxReps != null && r.minReps <= r.maxReps), {
+    message: "Double progression needs a rep range",
+    path: ["maxReps"],
+  });
+
+const scheduleSeriesFieldsSchema = insertWorkoutScheduleSeriesSchema.omit({ userId: true }).extend({
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullish(),
+  intervalDays: z.number().int().min(1).nullish(),
+});
+
+// No end date stops the series after yesterday
+const seriesEndBodySchema = z.object({
+  endDate: dateKeyParamSchema.optional(),
+});
+
+const scheduleSeriesBodySchema = scheduleSeriesFieldsSchema
+  .refine(s => s.recurrence !== "weekly" || (s.daysOfWeek?.length ?? 0) > 0, {
+    message: "Weekly series need at least one day",
+    path: ["daysOfWeek"],
+  })
+  .refine(s => s.recurrence !== "interval" || !!s.intervalDays, {
+    message: "Interval series need an interval",
+    path: ["intervalDays"],
+  })
+  .refine(s => !s.endDate || s.endDate >= s.startDate, {
+    message: "End date must not be before the start date",
+    path: ["endDate"],
+  });
+
+const scheduleUpdateSchema = z.object({
+  scheduledDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(),
+  templateId: z.string().optional(),
+});
+
+const scheduleSkipSchema = z.object({
+  reason: z.string().max(200).optional(),
+});
+
+const programWorkoutBodySchema = insertProgramWorkoutSchema.omit({ userId: true, programId: true }).extend({
+  weekNumber: z.number().int().min(1),
+  dayNumber: z.number().int().min(1).max(7),
+});
+
+const programBodySchema = insertProgramSchema.omit({ userId: true }).extend({
+  weekCount: z.number().int().min(1).max(52),
+  workouts: z.array(programWorkoutBodySchema),
+})
+  .refine(p => p.workouts.every(w => w.weekNumber <= p.weekCount), {
+    message: "Workouts must fall within the program's weeks",
+    path: ["workouts"],
+  });
+
+const programStartSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+});
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -91,7 +342,9 @@ export async function registerRoutes(
       if (!validation.success) {
         return res.status(400).json({ message: validation.error });
       }
-      const exercise = await storage.createExercise({ ...validation.data, userId });
+      // New exercises are logged in the user's unit unless told otherwise
+      const weightUnit = validation.data.weightUnit ?? (await storage.getUserSettings(userId)).weightUnit;
+      const exercise = await storage.createExercise({ ...validation.data, weightUnit, userId });
       res.status(201).json(exercise);
     } catch (error) {
       console.error("Error creating exercise:", error);
@@ -158,6 +411,9 @@ export async function registerRoutes(
         weightUnit: original.weightUnit || undefined,
         distanceUnit: original.distanceUnit || undefined,
         timeUnit: original.timeUnit || undefined,
+        primaryMuscles: original.primaryMuscles || undefined,
+        secondaryMuscles: original.secondaryMuscles || undefined,
+        equipment: original.equipment || undefined,
       });
       res.status(201).json(copy);
     } catch (error) {
@@ -220,7 +476,11 @@ export async function registerRoutes(
       if (existing.isSystem) {
         return res.status(403).json({ message: "System circuits cannot be modified" });
       }
-      const circuit = await storage.updateCircuit(userId, req.params.id as string, req.body);
+      const validation = validateBody(insertCircuitSchema.omit({ userId: true }).partial(), req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const circuit = await storage.updateCircuit(userId, req.params.id as string, validation.data);
       res.json(circuit);
     } catch (error) {
       console.error("Error updating circuit:", error);
@@ -479,13 +739,60 @@ export async function registerRoutes(
     try {
       const userId = getUserId(req);
       await storage.reorderPlannedSets(userId, req.params.exerciseId, req.body.setIds);
-      res.status(200).send();
+      res.status(204).send();
     } catch (error) {
       console.error("Error reordering planned sets:", error);
       res.status(500).json({ message: "Failed to reorder planned sets" });
     }
   });
 
+  // Progression Rules
+  app.put("/api/templates/:templateId/exercises/:exerciseId/progression", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(progressionRuleBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const template = await storage.getTemplate(userId, req.params.templateId as string);
+      const templateExercise = template?.exercises.find((te: any) => te.id === req.params.exerciseId);
+      if (!templateExercise) {
+        return res.status(404).json({ message: "Template exercise not found" });
+      }
+      const rule = await storage.upsertProgressionRule({
+        ...validation.data,
+        userId,
+        templateExerciseId: templateExercise.id,
+      });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error saving progression rule:", error);
+      res.status(500).json({ message: "Failed to save progression rule" });
+    }
+  });
+
+  app.delete("/api/templates/:templateId/exercises/:exerciseId/progression", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.deleteProgressionRule(userId, req.params.exerciseId as string);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting progression rule:", error);
+      res.status(500).json({ message: "Failed to delete progression rule" });
+    }
+  });
+
+  app.get("/api/templates/:templateId/progression-log", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const log = await storage.getProgressionLog(userId, req.params.templateId as string);
+      res.json(log);
+    } catch (error) {
+      console.error("Error fetching progression log:", error);
+      res.status(500).json({ message: "Failed to fetch progression log" });
+    }
+  });
+
   // Template-Circuit Integration
   app.post("/api/templates/:templateId/circuits", isAuthenticated, async (req, res) => {
     try {
@@ -522,14 +829,140 @@ export async function registerRoutes(
     }
   });
 
+  // ============================================
+  // TRAINING MAXES
+  // ============================================
+
+  app.get("/api/training-maxes", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const maxes = await storage.getTrainingMaxes(userId);
+      res.json(maxes);
+    } catch (error) {
+      console.error("Error fetching training maxes:", error);
+      res.status(500).json({ message: "Failed to fetch training maxes" });
+    }
+  });
+
+  app.put("/api/training-maxes/:exerciseId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(trainingMaxBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const exercise = await storage.getExercise(userId, req.params.exerciseId as string);
+      if (!exercise) {
+        return res.status(404).json({ message: "Exercise not found" });
+      }
+      const max = await storage.upsertTrainingMax({ ...validation.data, userId, exerciseId: exercise.id });
+      res.json(max);
+    } catch (error) {
+      console.error("Error saving training max:", error);
+      res.status(500).json({ message: "Failed to save training max" });
+    }
+  });
+
+  app.delete("/api/training-maxes/:exerciseId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.deleteTrainingMax(userId, req.params.exerciseId as string);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting training max:", error);
+      res.status(500).json({ message: "Failed to delete training max" });
+    }
+  });
+
   // ============================================
   // SCHEDULE
   // ============================================
 
+  // Recurring series - must be before :date route
+  app.get("/api/schedule/series", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const series = await storage.getScheduleSeries(userId);
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching schedule series:", error);
+      res.status(500).json({ message: "Failed to fetch schedule series" });
+    }
+  });
+
+  app.post("/api/schedule/series", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(scheduleSeriesBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const template = await storage.getTemplate(userId, validation.data.templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const series = await storage.createScheduleSeries({ ...validation.data, userId });
+      res.status(201).json(series);
+    } catch (error) {
+      console.error("Error creating schedule series:", error);
+      res.status(500).json({ message: "Failed to create schedule series" });
+    }
+  });
+
+  app.patch("/api/schedule/series/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getScheduleSeriesById(userId, req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+      const validation = validateBody(scheduleSeriesBodySchema, { ...existing, ...req.body });
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const { templateId, recurrence, daysOfWeek, intervalDays, startDate, endDate } = validation.data;
+      const series = await storage.updateScheduleSeries(userId, existing.id, {
+        templateId, recurrence, daysOfWeek, intervalDays, startDate, endDate,
+      });
+      res.json(series);
+    } catch (error) {
+      console.error("Error updating schedule series:", error);
+      res.status(500).json({ message: "Failed to update schedule series" });
+    }
+  });
+
+  app.post("/api/schedule/series/:id/end", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getScheduleSeriesById(userId, req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+      const validation = validateBody(seriesEndBodySchema, req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const { endDate } = validation.data;
+      if (endDate && endDate < existing.startDate) {
+        return res.status(400).json({ message: "End date must not be before the start date" });
+      }
+      const series = await storage.endScheduleSeries(userId, existing.id, endDate);
+      res.json(series);
+    } catch (error) {
+      console.error("Error ending schedule series:", error);
+      res.status(500).json({ message: "Failed to end schedule series" });
+    }
+  });
+
   app.get("/api/schedule/:date", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const schedule = await storage.getScheduleForDate(userId, req.params.date);
+      const validation = validateBody(dateKeyParamSchema, req.params.date);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      await storage.markMissedSchedulesSkipped(userId);
+      const schedule = await storage.getScheduleForDate(userId, validation.data);
       res.json(schedule);
     } catch (error) {
       console.error("Error fetching schedule:", error);
@@ -540,7 +973,12 @@ export async function registerRoutes(
   app.get("/api/schedule/week/:startDate", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const schedule = await storage.getScheduleForWeek(userId, req.params.startDate);
+      const validation = validateBody(dateKeyParamSchema, req.params.startDate);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      await storage.markMissedSchedulesSkipped(userId);
+      const schedule = await storage.getScheduleForWeek(userId, validation.data);
       res.json(schedule);
     } catch (error) {
       console.error("Error fetching week schedule:", error);
@@ -551,7 +989,12 @@ export async function registerRoutes(
   app.get("/api/schedule/range/:startDate/:endDate", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const schedule = await storage.getScheduleForRange(userId, req.params.startDate, req.params.endDate);
+      const validation = validateBody(z.object({ startDate: dateKeyParamSchema, endDate: dateKeyParamSchema }), req.params);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      await storage.markMissedSchedulesSkipped(userId);
+      const schedule = await storage.getScheduleForRange(userId, validation.data.startDate, validation.data.endDate);
       res.json(schedule);
     } catch (error) {
       console.error("Error fetching schedule range:", error);
@@ -570,6 +1013,219 @@ export async function registerRoutes(
     }
   });
 
+  app.patch("/api/schedule/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(scheduleUpdateSchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const existing = await storage.getScheduleItem(userId, req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ message: "Scheduled workout not found" });
+      }
+      if (existing.status === "completed") {
+        return res.status(409).json({ message: "Completed workouts cannot be changed" });
+      }
+      if (validation.data.templateId) {
+        const template = await storage.getTemplate(userId, validation.data.templateId);
+        if (!template) {
+          return res.status(404).json({ message: "Template not found" });
+        }
+      }
+      const schedule = await storage.updateSchedule(userId, existing.id, validation.data);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error updating schedule:", error);
+      res.status(500).json({ message: "Failed to update schedule" });
+    }
+  });
+
+  app.post("/api/schedule/:id/skip", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(scheduleSkipSchema, req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const existing = await storage.getScheduleItem(userId, req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ message: "Scheduled workout not found" });
+      }
+      if (existing.status === "completed") {
+        return res.status(409).json({ message: "Completed workouts cannot be skipped" });
+      }
+      const schedule = await storage.skipSchedule(userId, existing.id, validation.data.reason?.trim() || null);
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error skipping schedule:", error);
+      res.status(500).json({ message: "Failed to skip workout" });
+    }
+  });
+
+  app.delete("/api/schedule/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getScheduleItem(userId, req.params.id as string);
+      if (!existing) {
+        return res.status(204).send();
+      }
+      if (existing.status === "completed") {
+        return res.status(409).json({ message: "Completed workouts cannot be deleted" });
+      }
+      await storage.deleteSchedule(userId, existing.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      res.status(500).json({ message: "Failed to delete schedule" });
+    }
+  });
+
+  // ============================================
+  // PROGRAMS
+  // ============================================
+
+  // Programs may only reference the user's own templates
+  const findUnknownTemplate = async (userId: string, templateIds: string[]) => {
+    const templates = await storage.getTemplates(userId);
+    const owned = new Set(templates.map(t => t.id));
+    return templateIds.find(id => !owned.has(id));
+  };
+
+  app.get("/api/programs", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const programList = await storage.getPrograms(userId);
+      res.json(programList);
+    } catch (error) {
+      console.error("Error fetching programs:", error);
+      res.status(500).json({ message: "Failed to fetch programs" });
+    }
+  });
+
+  // Active program routes must be before :id routes
+  app.get("/api/programs/active", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.markMissedSchedulesSkipped(userId);
+      const run = await storage.getActiveProgramRun(userId);
+      res.json(run || null);
+    } catch (error) {
+      console.error("Error fetching active program:", error);
+      res.status(500).json({ message: "Failed to fetch active program" });
+    }
+  });
+
+  app.post("/api/programs/active/end", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const active = await storage.getActiveProgramRun(userId);
+      if (!active) {
+        return res.status(404).json({ message: "No active program" });
+      }
+      const run = await storage.endProgramRun(userId, active.id);
+      res.json(run);
+    } catch (error) {
+      console.error("Error ending program:", error);
+      res.status(500).json({ message: "Failed to end program" });
+    }
+  });
+
+  app.get("/api/programs/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const program = await storage.getProgram(userId, req.params.id as string);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+      res.json(program);
+    } catch (error) {
+      console.error("Error fetching program:", error);
+      res.status(500).json({ message: "Failed to fetch program" });
+    }
+  });
+
+  app.post("/api/programs", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(programBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const { workouts, ...data } = validation.data;
+      if (await findUnknownTemplate(userId, workouts.map(w => w.templateId))) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const program = await storage.createProgram({ ...data, userId }, workouts);
+      res.status(201).json(program);
+    } catch (error) {
+      console.error("Error creating program:", error);
+      res.status(500).json({ message: "Failed to create program" });
+    }
+  });
+
+  app.patch("/api/programs/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const existing = await storage.getProgram(userId, req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+      const current = {
+        name: existing.name,
+        notes: existing.notes,
+        weekCount: existing.weekCount,
+        workouts: existing.workouts.map((w: any) => ({ weekNumber: w.weekNumber, dayNumber: w.dayNumber, templateId: w.templateId })),
+      };
+      const validation = validateBody(programBodySchema, { ...current, ...req.body });
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const { workouts, ...data } = validation.data;
+      if (await findUnknownTemplate(userId, workouts.map(w => w.templateId))) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const program = await storage.updateProgram(userId, existing.id, data, req.body.workouts !== undefined ? workouts : undefined);
+      res.json(program);
+    } catch (error) {
+      console.error("Error updating program:", error);
+      res.status(500).json({ message: "Failed to update program" });
+    }
+  });
+
+  app.delete("/api/programs/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.deleteProgram(userId, req.params.id as string);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting program:", error);
+      res.status(500).json({ message: "Failed to delete program" });
+    }
+  });
+
+  app.post("/api/programs/:id/start", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(programStartSchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const program = await storage.getProgram(userId, req.params.id as string);
+      if (!program) {
+        return res.status(404).json({ message: "Program not found" });
+      }
+      if (program.workouts.length === 0) {
+        return res.status(400).json({ message: "Program has no workouts" });
+      }
+      const run = await storage.startProgram(userId, program.id, validation.data.startDate);
+      res.status(201).json(run);
+    } catch (error) {
+      console.error("Error starting program:", error);
+      res.status(500).json({ message: "Failed to start program" });
+    }
+  });
+
   // ============================================
   // SESSIONS
   // ============================================
@@ -588,6 +1244,7 @@ export async function registerRoutes(
   app.get("/api/sessions/active", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
+      await storage.autoEndInactiveSessions(userId);
       const session = await storage.getActiveSession(userId);
       res.json(session);
     } catch (error) {
@@ -596,6 +1253,19 @@ export async function registerRoutes(
     }
   });
 
+  // Sessions closed for inactivity that the user hasn't kept or undone yet
+  app.get("/api/sessions/auto-ended", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.autoEndInactiveSessions(userId);
+      const sessions = await storage.getAutoEndedSessions(userId);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching auto-ended sessions:", error);
+      res.status(500).json({ message: "Failed to fetch auto-ended sessions" });
+    }
+  });
+
   // Export all sessions with full details - must be before :id route
   app.get("/api/sessions/export", isAuthenticated, async (req, res) => {
     try {
@@ -624,6 +1294,20 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/sessions/:id/summary", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const summary = await storage.getSessionSummary(userId, req.params.id as string, parseFormula(req.query.formula as string | undefined));
+      if (!summary) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching session summary:", error);
+      res.status(500).json({ message: "Failed to fetch session summary" });
+    }
+  });
+
   app.get("/api/sessions/:id", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -660,6 +1344,30 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/sessions/backfill", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(backfillSessionSchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const data = validation.data;
+      if (data.templateId && !(await storage.getTemplate(userId, data.templateId))) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      for (const ex of data.exercises) {
+        if (!(await storage.getExercise(userId, ex.exerciseId))) {
+          return res.status(404).json({ message: "Exercise not found" });
+        }
+      }
+      const session = await storage.createBackfilledSession(userId, data);
+      res.status(201).json(session);
+    } catch (error) {
+      console.error("Error backfilling session:", error);
+      res.status(500).json({ message: "Failed to log past workout" });
+    }
+  });
+
   app.post("/api/sessions/start-from-template/:templateId", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -686,6 +1394,98 @@ export async function registerRoutes(
     }
   });
 
+  app.put("/api/sessions/:id/rest-timer", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(restTimerBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const session = await storage.setRestTimer(userId, req.params.id as string, validation.data.timer);
+      if (!session) {
+        return res.status(404).json({ message: "Active session not found" });
+      }
+      res.json(session.restTimer);
+    } catch (error) {
+      console.error("Error saving rest timer:", error);
+      res.status(500).json({ message: "Failed to save rest timer" });
+    }
+  });
+
+  app.post("/api/sessions/:id/reopen", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const active = await storage.getActiveSession(userId);
+      if (active) {
+        return res.status(409).json({ message: "Finish your current workout before reopening another" });
+      }
+      const session = await storage.reopenAutoEndedSession(userId, req.params.id as string);
+      if (!session) {
+        return res.status(404).json({ message: "No auto-ended session to reopen" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error reopening session:", error);
+      res.status(500).json({ message: "Failed to reopen session" });
+    }
+  });
+
+  app.post("/api/sessions/:id/keep", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const session = await storage.keepAutoEndedSession(userId, req.params.id as string);
+      if (!session) {
+        return res.status(404).json({ message: "No auto-ended session to keep" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error keeping session:", error);
+      res.status(500).json({ message: "Failed to keep session" });
+    }
+  });
+
+  app.patch("/api/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(sessionUpdateSchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const existing = await storage.getSession(userId, req.params.id as string);
+      if (!existing) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      // Ending goes through /end so progression rules and the schedule stay in step
+      if (validation.data.endedAt && !existing.endedAt) {
+        return res.status(409).json({ message: "End the workout before changing its end time" });
+      }
+      const startedAt = validation.data.startedAt ?? new Date(existing.startedAt);
+      const endedAt = validation.data.endedAt ?? (existing.endedAt ? new Date(existing.endedAt) : null);
+      if (startedAt.getTime() > Date.now()) {
+        return res.status(400).json({ message: "startedAt: Cannot be in the future" });
+      }
+      if (endedAt && endedAt.getTime() < startedAt.getTime()) {
+        return res.status(400).json({ message: "endedAt: Must be after startedAt" });
+      }
+      const session = await storage.updateSession(userId, req.params.id as string, validation.data);
+      res.json(session);
+    } catch (error) {
+      console.error("Error updating session:", error);
+      res.status(500).json({ message: "Failed to update session" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.deleteSession(userId, req.params.id as string);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      res.status(500).json({ message: "Failed to delete session" });
+    }
+  });
+
   // Session Exercises
   app.post("/api/sessions/:sessionId/exercises", isAuthenticated, async (req, res) => {
     try {
@@ -702,16 +1502,80 @@ export async function registerRoutes(
     }
   });
 
+  app.patch("/api/sessions/:sessionId/exercises/reorder", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(sessionExerciseReorderSchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      await storage.reorderSessionExercises(userId, req.params.sessionId as string, validation.data.exerciseIds);
+      res.status(200).json({ success: true });
+    } catch (error) {
+      console.error("Error reordering session exercises:", error);
+      res.status(500).json({ message: "Failed to reorder exercises" });
+    }
+  });
+
+  app.patch("/api/sessions/:sessionId/exercises/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(sessionExerciseSubstituteSchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const session = await storage.getSession(userId, req.params.sessionId as string);
+      const sessionExercise = session?.exercises?.find((se: { id: string }) => se.id === req.params.id);
+      if (!sessionExercise) {
+        return res.status(404).json({ message: "Session exercise not found" });
+      }
+      // Logged sets belong to the exercise they were done on
+      if (sessionExercise.performedSets.length > 0) {
+        return res.status(409).json({ message: "Delete the logged sets before swapping this exercise" });
+      }
+      if (!(await storage.getExercise(userId, validation.data.exerciseId))) {
+        return res.status(404).json({ message: "Exercise not found" });
+      }
+      const updated = await storage.substituteSessionExercise(userId, req.params.sessionId as string, req.params.id as string, validation.data.exerciseId);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error substituting session exercise:", error);
+      res.status(500).json({ message: "Failed to swap exercise" });
+    }
+  });
+
+  app.delete("/api/sessions/:sessionId/exercises/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.removeSessionExercise(userId, req.params.sessionId as string, req.params.id as string);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing session exercise:", error);
+      res.status(500).json({ message: "Failed to remove exercise from session" });
+    }
+  });
+
   // Performed Sets
   app.post("/api/sessions/:sessionId/exercises/:exerciseId/sets", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const set = await storage.addPerformedSet({
-        ...req.body,
-        userId,
-        sessionExerciseId: req.params.exerciseId,
+      await sendIdempotent(req, res, userId, async () => {
+        const session = await storage.getSession(userId, req.params.sessionId as string);
+        if (!session) {
+          return { status: 404, body: { message: "Session not found" } };
+        }
+        const completedAt = parseCompletedAt(req.body.completedAt, session);
+        if (!completedAt) {
+          return { status: 400, body: { message: "Set completion time must be a time during the session" } };
+        }
+        const set = await storage.addPerformedSet({
+          ...req.body,
+          userId,
+          sessionExerciseId: req.params.exerciseId,
+          completedAt,
+        });
+        return { status: 201, body: set };
       });
-      res.status(201).json(set);
     } catch (error) {
       console.error("Error adding performed set:", error);
       res.status(500).json({ message: "Failed to log set" });
@@ -721,11 +1585,13 @@ export async function registerRoutes(
   app.patch("/api/sessions/:sessionId/exercises/:exerciseId/sets/:setId", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const set = await storage.updatePerformedSet(userId, req.params.setId as string, req.body);
-      if (!set) {
-        return res.status(404).json({ message: "Set not found" });
-      }
-      res.json(set);
+      await sendIdempotent(req, res, userId, async () => {
+        const set = await storage.updatePerformedSet(userId, req.params.setId as string, req.body);
+        if (!set) {
+          return { status: 404, body: { message: "Set not found" } };
+        }
+        return { status: 200, body: set };
+      });
     } catch (error) {
       console.error("Error updating performed set:", error);
       res.status(500).json({ message: "Failed to update set" });
@@ -735,8 +1601,10 @@ export async function registerRoutes(
   app.delete("/api/sessions/:sessionId/exercises/:exerciseId/sets/:setId", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      await storage.deletePerformedSet(userId, req.params.setId as string);
-      res.status(204).send();
+      await sendIdempotent(req, res, userId, async () => {
+        await storage.deletePerformedSet(userId, req.params.setId as string);
+        return { status: 204 };
+      });
     } catch (error) {
       console.error("Error deleting performed set:", error);
       res.status(500).json({ message: "Failed to delete set" });
@@ -798,6 +1666,94 @@ export async function registerRoutes(
     }
   });
 
+  // Supplement Schedules
+  app.get("/api/supplements/:id/schedules", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const supplement = await storage.getSupplement(userId, req.params.id as string);
+      if (!supplement) {
+        return res.status(404).json({ message: "Supplement not found" });
+      }
+      const schedules = await storage.getSupplementSchedules(userId, supplement.id);
+      res.json(schedules);
+    } catch (error) {
+      console.error("Error fetching supplement schedules:", error);
+      res.status(500).json({ message: "Failed to fetch supplement schedules" });
+    }
+  });
+
+  app.post("/api/supplements/:id/schedules", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const supplement = await storage.getSupplement(userId, req.params.id as string);
+      if (!supplement) {
+        return res.status(404).json({ message: "Supplement not found" });
+      }
+      const validation = validateBody(supplementScheduleBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const schedule = await storage.createSupplementSchedule({
+        ...validation.data,
+        userId,
+        supplementId: supplement.id,
+      });
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error("Error creating supplement schedule:", error);
+      res.status(500).json({ message: "Failed to create supplement schedule" });
+    }
+  });
+
+  app.patch("/api/supplements/:id/schedules/:scheduleId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const supplementId = req.params.id as string;
+      const scheduleId = req.params.scheduleId as string;
+      const existing = await storage.getSupplementSchedule(userId, supplementId, scheduleId);
+      if (!existing) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      // Validate the schedule as it will be saved, so a partial update can't
+      // leave a weekly schedule without days or a custom one without an interval
+      const validation = validateBody(supplementScheduleBodySchema, { ...existing, ...req.body });
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const schedule = await storage.updateSupplementSchedule(userId, supplementId, scheduleId, validation.data);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error updating supplement schedule:", error);
+      res.status(500).json({ message: "Failed to update supplement schedule" });
+    }
+  });
+
+  app.delete("/api/supplements/:id/schedules/:scheduleId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      await storage.deleteSupplementSchedule(userId, req.params.id as string, req.params.scheduleId as string);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting supplement schedule:", error);
+      res.status(500).json({ message: "Failed to delete supplement schedule" });
+    }
+  });
+
+  app.get("/api/supplements/adherence", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const since = parseSince((req.query.range as string | undefined) ?? "1mo");
+      const adherence = await storage.getSupplementAdherence(userId, since);
+      res.json(adherence);
+    } catch (error) {
+      console.error("Error fetching supplement adherence:", error);
+      res.status(500).json({ message: "Failed to fetch supplement adherence" });
+    }
+  });
+
   // Supplement Logs
   app.get("/api/supplements/logs", isAuthenticated, async (req, res) => {
     try {
@@ -868,6 +1824,36 @@ export async function registerRoutes(
     }
   });
 
+  // ============================================
+  // SETTINGS
+  // ============================================
+
+  app.get("/api/settings", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const settings = await storage.getUserSettings(userId);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.patch("/api/settings", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const validation = validateBody(userSettingsBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const settings = await storage.updateUserSettings(userId, validation.data);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
   // ============================================
   // BODY WEIGHT
   // ============================================
@@ -908,6 +1894,7 @@ export async function registerRoutes(
   function parseSince(range: string | undefined): Date | undefined {
     if (!range || range === "all") return undefined;
     const now = new Date();
+    if (range === "1wk") return new Date(now.getFullYear(), now.getMonth(), now.getDate() - 7);
     if (range === "1mo") return new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
     if (range === "3mo") return new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
     if (range === "6mo") return new Date(now.getFullYear(), now.getMonth() - 6, now.getDate());
@@ -915,9 +1902,14 @@ export async function registerRoutes(
     return undefined;
   }
 
+  function parseFormula(formula: string | undefined): OneRepMaxFormula {
+    return formula === "brzycki" ? "brzycki" : "epley";
+  }
+
   app.get("/api/analytics/overview", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
+      await storage.markMissedSchedulesSkipped(userId);
       const overview = await storage.getAnalyticsOverview(userId);
       res.json(overview);
     } catch (error) {
@@ -941,7 +1933,7 @@ export async function registerRoutes(
   app.get("/api/analytics/prs", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const prs = await storage.getPersonalRecords(userId);
+      const prs = await storage.getPersonalRecords(userId, parseFormula(req.query.formula as string | undefined));
       res.json(prs);
     } catch (error) {
       console.error("Error fetching personal records:", error);
@@ -973,12 +1965,71 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/analytics/rest-discipline", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const since = parseSince(req.query.range as string | undefined);
+      const data = await storage.getRestDiscipline(userId, since);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching rest discipline:", error);
+      res.status(500).json({ message: "Failed to fetch rest discipline" });
+    }
+  });
+
+  app.get("/api/analytics/muscle-sets", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const weeks = Math.min(Math.max(parseInt(req.query.weeks as string) || 4, 1), 12);
+      const data = await storage.getWeeklyMuscleSets(userId, weeks);
+      res.json(data);
+    } catch (error) {
+      console.error("Error fetching weekly muscle sets:", error);
+      res.status(500).json({ message: "Failed to fetch weekly muscle sets" });
+    }
+  });
+
+  app.put("/api/muscle-targets/:muscle", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const muscle = muscleParamSchema.safeParse(req.params.muscle);
+      if (!muscle.success) {
+        return res.status(400).json({ message: "Unknown muscle group" });
+      }
+      const validation = validateBody(muscleTargetBodySchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error });
+      }
+      const target = await storage.upsertMuscleTarget({ ...validation.data, userId, muscle: muscle.data });
+      res.json(target);
+    } catch (error) {
+      console.error("Error saving muscle target:", error);
+      res.status(500).json({ message: "Failed to save muscle target" });
+    }
+  });
+
+  app.delete("/api/muscle-targets/:muscle", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const muscle = muscleParamSchema.safeParse(req.params.muscle);
+      if (!muscle.success) {
+        return res.status(400).json({ message: "Unknown muscle group" });
+      }
+      await storage.deleteMuscleTarget(userId, muscle.data);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting muscle target:", error);
+      res.status(500).json({ message: "Failed to delete muscle target" });
+    }
+  });
+
   app.get("/api/analytics/exercise/:id", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
       const { id } = req.params;
       const since = parseSince(req.query.range as string | undefined);
-      const analytics = await storage.getExerciseAnalytics(userId, id, since);
+      const formula = parseFormula(req.query.formula as string | undefined);
+      const analytics = await storage.getExerciseAnalytics(userId, id, since, formula);
       res.json(analytics);
     } catch (error) {
       console.error("Error fetching exercise analytics:", error);
@@ -986,5 +2037,16 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/analytics/exercise/:id/rep-prs", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const records = await storage.getRepRangeRecords(userId, req.params.id as string);
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching rep-range PRs:", error);
+      res.status(500).json({ message: "Failed to fetch rep-range PRs" });
+    }
+  });
+
   return httpServer;
 }
@@ -3,7 +3,7 @@ import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { db } from "./db";
-import { exercises } from "../shared/schema";
+import { exercises, muscleGroups, equipmentTypes, type MuscleGroup, type EquipmentType } from "../shared/schema";
 import { eq, and } from "drizzle-orm";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -19,6 +19,25 @@ function resolveTracking(category: string | null, trackingCol: string | null) {
     return { weight: true, reps: true, time: false, distance: false };
 }
 
+// Comma-separated muscle keys; unknown names are dropped with a warning
+function parseMuscles(col: string | undefined, exerciseName: string): MuscleGroup[] {
+    const names = (col ?? "").split(",").map(m => m.trim().toLowerCase()).filter(Boolean);
+    const unknown = names.filter(m => !(muscleGroups as readonly string[]).includes(m));
+    if (unknown.length > 0) console.warn(`⚠️  Unknown muscles for ${exerciseName}: ${unknown.join(", ")}`);
+    return names.filter((m): m is MuscleGroup => (muscleGroups as readonly string[]).includes(m));
+}
+
+// Blank or unknown equipment seeds as unset, with a warning for unknown names
+function parseEquipment(col: string | undefined, exerciseName: string): EquipmentType | null {
+    const name = col?.trim().toLowerCase();
+    if (!name) return null;
+    if (!(equipmentTypes as readonly string[]).includes(name)) {
+        console.warn(`⚠️  Unknown equipment for ${exerciseName}: ${name}`);
+        return null;
+    }
+    return name as EquipmentType;
+}
+
 async function seed() {
     try {
         const csvPath = path.resolve(__dirname, "../exercises-seed.csv");
@@ -43,6 +62,9 @@ async function seed() {
             notes: header.findIndex(h => h.trim().toLowerCase() === "notes"),
             url: header.findIndex(h => h.trim().toLowerCase() === "url"),
             tracking: header.findIndex(h => h.trim().toLowerCase() === "tracking"),
+            primaryMuscles: header.findIndex(h => h.trim().toLowerCase() === "primary_muscles"),
+            secondaryMuscles: header.findIndex(h => h.trim().toLowerCase() === "secondary_muscles"),
+            equipment: header.findIndex(h => h.trim().toLowerCase() === "equipment"),
         };
 
         // Load all existing system exercises once for name lookups
@@ -68,6 +90,9 @@ async function seed() {
             if (!name) continue;
 
             const defaultTracking = resolveTracking(category, trackingCol);
+            const primaryMuscles = indices.primaryMuscles >= 0 ? parseMuscles(values[indices.primaryMuscles], name) : [];
+            const secondaryMuscles = indices.secondaryMuscles >= 0 ? parseMuscles(values[indices.secondaryMuscles], name) : [];
+            const equipment = indices.equipment >= 0 ? parseEquipment(values[indices.equipment], name) : null;
             const match = existingByName.get(name.toLowerCase());
 
             if (match) {
@@ -78,6 +103,9 @@ async function seed() {
                         notes: notes || undefined,
                         url: url || undefined,
                         defaultTracking,
+                        primaryMuscles,
+                        secondaryMuscles,
+                        equipment,
                     })
                     .where(and(eq(exercises.id, match.id), eq(exercises.isSystem, true)));
                 console.log(`🔄 Updated: ${name}`);
@@ -90,6 +118,9 @@ async function seed() {
                     notes: notes || undefined,
                     url: url || undefined,
                     defaultTracking,
+                    primaryMuscles,
+                    secondaryMuscles,
+                    equipment,
                     isSystem: true,
                     userId: null,
                 });
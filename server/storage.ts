@@ -1,9 +1,10 @@
 import { db } from "./db";
-import { eq, desc, and, gte, lte, sql, or, inArray, not } from "drizzle-orm";
+import { eq, desc, and, gte, lte, lt, sql, or, inArray, not, isNull, isNotNull } from "drizzle-orm";
 import {
   exercises, hiddenSystemExercises, workoutTemplates, workoutTemplateExercises, plannedSets,
-  workoutSchedule, workoutSessions, sessionExercises, performedSets,
-  supplements, supplementSchedule, supplementLogs, bodyWeightLogs,
+  progressionRules, progressionLog, trainingMaxes, muscleTargets, muscleGroups,
+  workoutSchedule, workoutScheduleSeries, programs, programWorkouts, programRuns, workoutSessions, sessionExercises, performedSets,
+  supplements, supplementSchedule, supplementLogs, bodyWeightLogs, idempotencyKeys, userSettings,
   circuits, circuitExercises, hiddenSystemCircuits,
   type Exercise, type InsertExercise,
   type Circuit, type InsertCircuit,
@@ -11,15 +12,240 @@ import {
   type WorkoutTemplate, type InsertWorkoutTemplate,
   type WorkoutTemplateExercise, type InsertWorkoutTemplateExercise,
   type PlannedSet, type InsertPlannedSet,
+  type ProgressionRule, type InsertProgressionRule,
+  type ProgressionLogEntry,
+  type TrainingMax, type InsertTrainingMax,
+  type MuscleGroup, type MuscleTarget, type InsertMuscleTarget, type SetType,
   type WorkoutScheduleItem, type InsertWorkoutSchedule,
+  type WorkoutScheduleSeries, type InsertWorkoutScheduleSeries,
+  type Program, type InsertProgram,
+  type InsertProgramWorkout,
+  type ProgramRun,
   type WorkoutSession, type InsertWorkoutSession,
   type SessionExercise, type InsertSessionExercise,
   type PerformedSet, type InsertPerformedSet,
+  type IdempotencyRecord,
   type Supplement, type InsertSupplement,
   type SupplementScheduleItem, type InsertSupplementSchedule,
   type SupplementLog, type InsertSupplementLog,
   type BodyWeightLog, type InsertBodyWeightLog,
+  type UserSettings, type WarmupStep, type WeightUnit, type RestTimerState,
 } from "../shared/schema";
+import { getEquipmentProfile, loadingEquipment, roundToLoadable, type RoundMode } from "../shared/equipment";
+import { LBS_PER_KG, convertWeight, roundWeight } from "../shared/units";
+import { restIntervals, restPacing, type PlannedRest } from "./rest";
+
+// Local calendar-day helpers for schedule expansion (YYYY-MM-DD keys)
+function toDateKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function parseDateKey(key: string): Date {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function shiftDateKey(key: string, days: number): string {
+  const d = parseDateKey(key);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
+}
+
+// Workouts dated before this are missed. Clients schedule in their own time
+// zone, which can be a day behind the server's, so the server's yesterday may
+// still be today for the user
+function missedBeforeDateKey(): string {
+  return shiftDateKey(toDateKey(new Date()), -1);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((parseDateKey(toDateKey(to)).getTime() - parseDateKey(toDateKey(from)).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function isSupplementDueOn(schedule: SupplementScheduleItem, day: Date): boolean {
+  if (schedule.scheduleType === "weekly") {
+    return (schedule.daysOfWeek || []).includes(day.getDay());
+  }
+  if (schedule.scheduleType === "custom") {
+    if (!schedule.intervalDays || !schedule.startDate) return false;
+    const offset = daysBetween(parseDateKey(schedule.startDate), day);
+    return offset >= 0 && offset % schedule.intervalDays === 0;
+  }
+  return true;
+}
+
+function isSeriesOccurrence(series: WorkoutScheduleSeries, day: Date): boolean {
+  if (series.recurrence === "weekly") {
+    return (series.daysOfWeek || []).includes(day.getDay());
+  }
+  if (!series.intervalDays) return false;
+  const offset = daysBetween(parseDateKey(series.startDate), day);
+  return offset >= 0 && offset % series.intervalDays === 0;
+}
+
+// How far ahead recurring series are expanded into concrete schedule rows.
+// Reads further out extend that, up to the max
+const SERIES_HORIZON_DAYS = 28;
+const SERIES_MAX_HORIZON_DAYS = 366;
+
+// Percentage-based targets resolve against the training max, rounded to the
+// nearest plate increment
+function resolvePercentWeight(percent: string, max: TrainingMax): string {
+  const raw = Number(max.weight) * Number(percent) / 100;
+  const increment = Number(max.roundingIncrement);
+  const rounded = increment > 0 ? Math.round(raw / increment) * increment : raw;
+  return String(Math.round(rounded * 100) / 100);
+}
+
+// Fields PATCH /api/settings can change
+export interface UserSettingsUpdate {
+  autoEndAfterHours?: number | null;
+  weightUnit?: WeightUnit;
+  warmupScheme?: WarmupStep[];
+  barWeights?: number[];
+  plates?: number[];
+  dumbbellIncrement?: string;
+  machineStep?: string;
+}
+
+// A workout entered after the fact: a completed session with every set given up front
+export interface BackfillSessionInput {
+  templateId?: string | null;
+  startedAt: Date;
+  endedAt: Date;
+  notes?: string | null;
+  exercises: {
+    exerciseId: string;
+    circuitId?: string | null;
+    circuitRound?: number | null;
+    circuitRounds?: number | null;
+    notes?: string | null;
+    sets: {
+      actualReps?: number | null;
+      actualWeight?: string | null;
+      weightUnit?: WeightUnit | null;
+      actualTimeSeconds?: number | null;
+      actualDistance?: string | null;
+      actualRpe?: string | null;
+      isWarmup?: boolean;
+      setType?: SetType;
+    }[];
+  }[];
+}
+
+// Estimated one-rep max from a single set. Estimates get unreliable at high rep
+// counts, so sets past E1RM_MAX_REPS don't produce one
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+const E1RM_MAX_REPS = 12;
+
+// Rep counts tracked as rep-range PRs (heaviest weight lifted for at least that many reps)
+const REP_RANGE_PR_REPS = [1, 3, 5, 8, 10];
+
+function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula): number | null {
+  if (weight <= 0 || reps < 1 || reps > E1RM_MAX_REPS) return null;
+  if (reps === 1) return weight;
+  const estimate = formula === "brzycki" ? weight * 36 / (37 - reps) : weight * (1 + reps / 30);
+  return Math.round(estimate * 10) / 10;
+}
+
+// isWarmup predates setType and most queries still filter on it, so whichever
+// of the two a client sends, the other is set to match
+function withSetType<T extends { setType?: SetType; isWarmup?: boolean | null }>(data: T): T {
+  if (data.setType) return { ...data, isWarmup: data.setType === "warmup" };
+  if (data.isWarmup != null) return { ...data, setType: data.isWarmup ? "warmup" : "normal" };
+  return data;
+}
+
+// Reps from rest-pause and cluster sets are spread over several mini-sets, and
+// drop sets start fatigued, so only these types feed e1RM and rep-range PRs
+const STRAIGHT_SET_TYPES: SetType[] = ["normal", "amrap", "failure"];
+
+// A performed set's weight in the given unit, so kg and lb exercises add up.
+// Sets logged before units were recorded are in their exercise's unit, so
+// queries using this must join exercises
+function weightInUnit(unit: WeightUnit) {
+  const other = unit === "kg" ? "lbs" : "kg";
+  const factor = unit === "kg" ? 1 / LBS_PER_KG : LBS_PER_KG;
+  return sql`ROUND(${performedSets.actualWeight}::numeric * CASE WHEN COALESCE(${performedSets.weightUnit}, ${exercises.weightUnit}) = ${other} THEN ${sql.raw(factor.toFixed(6))} ELSE 1 END, 2)`;
+}
+
+// Offline clients replay within days, not weeks, so keys are kept for a week.
+// A key still pending after a couple of minutes belongs to a request that died
+const IDEMPOTENCY_KEY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const IDEMPOTENCY_PENDING_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Weekly hard sets per muscle: a set counts fully for each primary muscle and
+// partially for each secondary one. Defaults apply until the user sets a range
+const SECONDARY_MUSCLE_CREDIT = 0.5;
+const DEFAULT_WEEKLY_SET_TARGET = { minSets: 10, maxSets: 20 };
+
+// What a progression rule does to the working-set targets after one session:
+// add weight, add a rep (double progression), drop the weight after too many
+// failures, or count another failure. Null when the exercise wasn't performed
+type ProgressionStep = "weight" | "reps" | "reset" | "failed";
+
+function evaluateProgression(
+  rule: ProgressionRule,
+  planned: PlannedSet[],
+  performed: PerformedSet[],
+  resolvedWeights: Record<string, string> | null,
+): ProgressionStep | null {
+  // Drop sets extend the set before them rather than counting as working sets
+  const working = planned.filter(s => !s.isWarmup && s.setType !== "drop");
+  const done = performed.filter(s => !s.isWarmup && s.setType !== "drop");
+  if (working.length === 0 || done.length === 0) return null;
+
+  // Success means each working set was matched, in order, at or above its targets.
+  // The weight to beat is the one the session showed, resolved and rounded to
+  // what the equipment can load when it started
+  const hitTargets = working.every((target, i) => {
+    const set = done[i];
+    if (!set) return false;
+    const targetWeight = resolvedWeights?.[target.id] ?? target.targetWeight;
+    if (target.targetReps != null && (set.actualReps ?? 0) < target.targetReps) return false;
+    if (targetWeight != null && Number(set.actualWeight ?? 0) < Number(targetWeight)) return false;
+    return true;
+  });
+
+  if (hitTargets) {
+    if (rule.type === "double" && rule.maxReps != null && working.some(s => (s.targetReps ?? 0) < rule.maxReps!)) {
+      return "reps";
+    }
+    return "weight";
+  }
+  if (rule.failuresBeforeReset != null && rule.consecutiveFailures + 1 >= rule.failuresBeforeReset) {
+    return "reset";
+  }
+  return "failed";
+}
+
+// New weights are rounded to something the equipment can load; added weight
+// rounds up so a small increment still moves the target forward
+function applyProgressionStep(
+  rule: ProgressionRule,
+  step: ProgressionStep,
+  set: PlannedSet,
+  roundWeight: (weight: number, mode: RoundMode) => number,
+): { targetWeight: string | null; targetReps: number | null } {
+  const increment = Number(rule.weightIncrement);
+  const weight = set.targetWeight != null ? Number(set.targetWeight) : null;
+  const bottomReps = rule.type === "double" && rule.minReps != null ? rule.minReps : set.targetReps;
+
+  if (step === "reps") {
+    return { targetWeight: set.targetWeight, targetReps: Math.min((set.targetReps ?? 0) + 1, rule.maxReps ?? Infinity) };
+  }
+  if (step === "weight") {
+    return { targetWeight: weight != null ? String(roundWeight(weight + increment, "up")) : null, targetReps: bottomReps };
+  }
+  if (step === "reset" && weight != null) {
+    // Drop by the reset percentage, rounded to the nearest increment
+    const reduced = weight * (1 - rule.resetPercent / 100);
+    const rounded = increment > 0 ? Math.round(reduced / increment) * increment : reduced;
+    return { targetWeight: String(roundWeight(Math.round(rounded * 100) / 100, "nearest")), targetReps: bottomReps };
+  }
+  return { targetWeight: set.targetWeight, targetReps: set.targetReps };
+}
 
 export interface IStorage {
   // Circuits
@@ -69,12 +295,45 @@ export interface IStorage {
   reorderPlannedSets(userId: string, templateExerciseId: string, setIds: string[]): Promise<void>;
   deletePlannedSet(userId: string, id: string): Promise<void>;
 
+  // Training Maxes
+  getTrainingMaxes(userId: string): Promise<any[]>;
+  upsertTrainingMax(data: InsertTrainingMax): Promise<TrainingMax>;
+  deleteTrainingMax(userId: string, exerciseId: string): Promise<void>;
+
+  // Progression Rules
+  upsertProgressionRule(data: InsertProgressionRule): Promise<ProgressionRule>;
+  deleteProgressionRule(userId: string, templateExerciseId: string): Promise<void>;
+  getProgressionLog(userId: string, templateId: string): Promise<any[]>;
+
   // Schedule
   getScheduleForDate(userId: string, date: string): Promise<any[]>;
   getScheduleForWeek(userId: string, startDate: string): Promise<any[]>;
   getScheduleForRange(userId: string, startDate: string, endDate: string): Promise<any[]>;
+  getScheduleItem(userId: string, id: string): Promise<WorkoutScheduleItem | undefined>;
   createSchedule(data: InsertWorkoutSchedule): Promise<WorkoutScheduleItem>;
+  updateSchedule(userId: string, id: string, data: { scheduledDate?: string; templateId?: string }): Promise<WorkoutScheduleItem | undefined>;
+  deleteSchedule(userId: string, id: string): Promise<void>;
   updateScheduleStatus(userId: string, id: string, status: string): Promise<void>;
+  skipSchedule(userId: string, id: string, reason: string | null): Promise<WorkoutScheduleItem | undefined>;
+  markMissedSchedulesSkipped(userId?: string): Promise<number>;
+
+  // Schedule Series
+  getScheduleSeries(userId: string): Promise<any[]>;
+  getScheduleSeriesById(userId: string, id: string): Promise<WorkoutScheduleSeries | undefined>;
+  createScheduleSeries(data: InsertWorkoutScheduleSeries): Promise<WorkoutScheduleSeries>;
+  updateScheduleSeries(userId: string, id: string, data: Partial<InsertWorkoutScheduleSeries>): Promise<WorkoutScheduleSeries | undefined>;
+  endScheduleSeries(userId: string, id: string, endDate?: string): Promise<WorkoutScheduleSeries | undefined>;
+  expandScheduleSeries(userId: string, throughDate: string): Promise<void>;
+
+  // Programs
+  getPrograms(userId: string): Promise<any[]>;
+  getProgram(userId: string, id: string): Promise<any | undefined>;
+  createProgram(data: InsertProgram, workouts: Omit<InsertProgramWorkout, "userId" | "programId">[]): Promise<Program>;
+  updateProgram(userId: string, id: string, data: Partial<InsertProgram>, workouts?: Omit<InsertProgramWorkout, "userId" | "programId">[]): Promise<Program | undefined>;
+  deleteProgram(userId: string, id: string): Promise<void>;
+  startProgram(userId: string, programId: string, startDate: string): Promise<ProgramRun>;
+  getActiveProgramRun(userId: string): Promise<any | undefined>;
+  endProgramRun(userId: string, runId: string): Promise<ProgramRun | undefined>;
 
   // Sessions
   getSessions(userId: string): Promise<any[]>;
@@ -83,16 +342,35 @@ export interface IStorage {
   startSession(userId: string, scheduleId: string): Promise<WorkoutSession>;
   createAdhocSession(userId: string): Promise<WorkoutSession>;
   startSessionFromTemplate(userId: string, templateId: string): Promise<WorkoutSession>;
-  endSession(userId: string, id: string, notes?: string): Promise<WorkoutSession | undefined>;
+  endSession(userId: string, id: string, notes?: string): Promise<(WorkoutSession & { progressions: ProgressionLogEntry[] }) | undefined>;
+  updateSession(userId: string, id: string, data: { startedAt?: Date; endedAt?: Date; notes?: string | null }): Promise<WorkoutSession | undefined>;
+  setRestTimer(userId: string, id: string, timer: RestTimerState | null): Promise<WorkoutSession | undefined>;
+  deleteSession(userId: string, id: string): Promise<void>;
+  createBackfilledSession(userId: string, data: BackfillSessionInput): Promise<WorkoutSession>;
+  autoEndInactiveSessions(userId: string): Promise<number>;
+  getAutoEndedSessions(userId: string): Promise<any[]>;
+  reopenAutoEndedSession(userId: string, id: string): Promise<WorkoutSession | undefined>;
+  keepAutoEndedSession(userId: string, id: string): Promise<(WorkoutSession & { progressions: ProgressionLogEntry[] }) | undefined>;
+  getSessionSummary(userId: string, id: string, formula?: OneRepMaxFormula): Promise<any | undefined>;
 
   // Session Exercises
   addSessionExercise(data: InsertSessionExercise): Promise<SessionExercise>;
+  getSessionExercise(userId: string, sessionId: string, id: string): Promise<SessionExercise | undefined>;
+  removeSessionExercise(userId: string, sessionId: string, id: string): Promise<void>;
+  reorderSessionExercises(userId: string, sessionId: string, exerciseIds: string[]): Promise<void>;
+  substituteSessionExercise(userId: string, sessionId: string, id: string, exerciseId: string): Promise<SessionExercise | undefined>;
 
   // Performed Sets
   addPerformedSet(data: InsertPerformedSet): Promise<PerformedSet>;
-  updatePerformedSet(userId: string, setId: string, data: { actualReps?: number; actualWeight?: string; actualTimeSeconds?: number; actualDistance?: string; restSeconds?: number; isWarmup?: boolean }): Promise<PerformedSet | undefined>;
+  updatePerformedSet(userId: string, setId: string, data: { actualReps?: number; actualWeight?: string; actualTimeSeconds?: number; actualDistance?: string; actualRpe?: string; actualRir?: number; actualTempo?: string; restSeconds?: number; isWarmup?: boolean; setType?: SetType; parentSetId?: string | null }): Promise<PerformedSet | undefined>;
   deletePerformedSet(userId: string, setId: string): Promise<void>;
 
+  // Idempotency keys (replayed offline mutations)
+  getIdempotencyRecord(userId: string, key: string): Promise<IdempotencyRecord | undefined>;
+  reserveIdempotencyKey(userId: string, key: string): Promise<{ reserved: boolean; record?: IdempotencyRecord }>;
+  completeIdempotencyKey(userId: string, key: string, statusCode: number, response: unknown): Promise<void>;
+  releaseIdempotencyKey(userId: string, key: string): Promise<void>;
+
   // Exercise History
   getExerciseHistory(userId: string, exerciseId: string): Promise<any[]>;
 
@@ -100,12 +378,26 @@ export interface IStorage {
   getLastPerformance(userId: string, exerciseIds: string[]): Promise<Record<string, PerformedSet[]>>;
 
   // Supplements
-  getSupplements(userId: string): Promise<Supplement[]>;
+  getSupplements(userId: string): Promise<(Supplement & { schedules: SupplementScheduleItem[] })[]>;
   getSupplement(userId: string, id: string): Promise<Supplement | undefined>;
   createSupplement(data: InsertSupplement): Promise<Supplement>;
   updateSupplement(userId: string, id: string, data: Partial<InsertSupplement>): Promise<Supplement | undefined>;
   deleteSupplement(userId: string, id: string): Promise<void>;
 
+  // Supplement Schedules
+  getSupplementSchedules(userId: string, supplementId: string): Promise<SupplementScheduleItem[]>;
+  createSupplementSchedule(data: InsertSupplementSchedule): Promise<SupplementScheduleItem>;
+  getSupplementSchedule(userId: string, supplementId: string, id: string): Promise<SupplementScheduleItem | undefined>;
+  updateSupplementSchedule(userId: string, supplementId: string, id: string, data: Partial<InsertSupplementSchedule>): Promise<SupplementScheduleItem | undefined>;
+  deleteSupplementSchedule(userId: string, supplementId: string, id: string): Promise<void>;
+  getSupplementAdherence(userId: string, since?: Date): Promise<{
+    startDate: string;
+    endDate: string;
+    today: { scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null; taken: boolean }[];
+    supplements: { supplementId: string; supplementName: string; taken: number; missed: number; takenToday: number; adherencePct: number | null }[];
+    missed: { date: string; scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null }[];
+  }>;
+
   // Supplement Logs
   getSupplementLogs(userId: string): Promise<SupplementLog[]>;
   getTodaySupplementLogs(userId: string): Promise<SupplementLog[]>;
@@ -117,6 +409,10 @@ export interface IStorage {
   getWeightLogs(userId: string): Promise<BodyWeightLog[]>;
   logWeight(data: InsertBodyWeightLog): Promise<BodyWeightLog>;
 
+  // Settings
+  getUserSettings(userId: string): Promise<UserSettings>;
+  updateUserSettings(userId: string, data: UserSettingsUpdate): Promise<UserSettings>;
+
   // Export
   getSessionsForExport(userId: string): Promise<any[]>;
 
@@ -124,30 +420,43 @@ export interface IStorage {
   getPerformedExercises(userId: string): Promise<Exercise[]>;
 
   // Analytics
-  getExerciseAnalytics(userId: string, exerciseId: string, since?: Date): Promise<{
+  getExerciseAnalytics(userId: string, exerciseId: string, since?: Date, formula?: OneRepMaxFormula): Promise<{
     date: string;
     maxWeight: number | null;
+    estimated1RM: number | null;
     totalEffort: number | null;
     bestTime: number | null;
+    avgRpe: number | null;
     totalSets: number;
   }[]>;
+  getRepRangeRecords(userId: string, exerciseId: string): Promise<{ reps: number; weight: number | null; date: string | null }[]>;
   getAnalyticsOverview(userId: string): Promise<{
     workoutsThisWeek: number;
     workoutsThisMonth: number;
     currentStreak: number;
     avgSessionsPerWeek: number;
     weeklyVolume: { week: string; volume: number }[];
+    planAdherence: { completed: number; skipped: number; adherencePct: number | null };
   }>;
   getTrainingVolume(userId: string, since?: Date): Promise<{ date: string; volume: number }[]>;
-  getPersonalRecords(userId: string): Promise<{
+  getPersonalRecords(userId: string, formula?: OneRepMaxFormula): Promise<{
     date: string;
     exerciseId: string;
     exerciseName: string;
-    metric: "weight" | "time";
+    metric: "weight" | "time" | "e1rm";
     value: number;
+    sessionExerciseIds: string[];
   }[]>;
   getVolumeByCategory(userId: string, since?: Date): Promise<{ category: string; volume: number }[]>;
   getSessionDurations(userId: string, since?: Date): Promise<{ date: string; durationMin: number }[]>;
+  getRestDiscipline(userId: string, since?: Date): Promise<{ date: string; avgRestSeconds: number; targetRestSeconds: number | null; onTargetPct: number | null }[]>;
+  getWeeklyMuscleSets(userId: string, weeks: number): Promise<{
+    weeks: string[];
+    muscles: { muscle: MuscleGroup; minSets: number; maxSets: number; sets: number[] }[];
+  }>;
+  getMuscleTargets(userId: string): Promise<MuscleTarget[]>;
+  upsertMuscleTarget(data: InsertMuscleTarget): Promise<MuscleTarget>;
+  deleteMuscleTarget(userId: string, muscle: MuscleGroup): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -283,6 +592,9 @@ export class DatabaseStorage implements IStorage {
       category: original.category,
       restBetweenExercisesSeconds: original.restBetweenExercisesSeconds,
       restBetweenRoundsSeconds: original.restBetweenRoundsSeconds,
+      format: original.format,
+      intervalSeconds: original.intervalSeconds,
+      timeCapSeconds: original.timeCapSeconds,
       notes: original.notes,
     }).returning();
 
@@ -494,7 +806,8 @@ export class DatabaseStorage implements IStorage {
     const exercisesWithDetails = await Promise.all(templateExercises.map(async (te) => {
       const [exercise] = await db.select().from(exercises).where(eq(exercises.id, te.exerciseId));
       const sets = await db.select().from(plannedSets).where(eq(plannedSets.templateExerciseId, te.id)).orderBy(plannedSets.setNumber);
-      return { ...te, exercise, plannedSets: sets };
+      const [progressionRule] = await db.select().from(progressionRules).where(eq(progressionRules.templateExerciseId, te.id));
+      return { ...te, exercise, plannedSets: sets, progressionRule: progressionRule ?? null };
     }));
 
     // Resolve circuit names for any circuit-grouped exercises
@@ -525,6 +838,9 @@ export class DatabaseStorage implements IStorage {
     await db.delete(plannedSets).where(
       sql`${plannedSets.templateExerciseId} IN (SELECT id FROM workout_template_exercises WHERE template_id = ${id})`
     );
+    await db.delete(progressionRules).where(
+      sql`${progressionRules.templateExerciseId} IN (SELECT id FROM workout_template_exercises WHERE template_id = ${id})`
+    );
     await db.delete(workoutTemplateExercises).where(eq(workoutTemplateExercises.templateId, id));
     await db.delete(workoutTemplates).where(and(eq(workoutTemplates.id, id), eq(workoutTemplates.userId, userId)));
   }
@@ -551,16 +867,38 @@ export class DatabaseStorage implements IStorage {
         notes: te.notes,
       }).returning();
 
+      // Drop sets point at their parent's copy
+      const copiedSetIds = new Map<string, string>();
       for (const set of te.plannedSets || []) {
-        await db.insert(plannedSets).values({
+        const [newSet] = await db.insert(plannedSets).values({
           userId,
           templateExerciseId: newTe.id,
           setNumber: set.setNumber,
           targetReps: set.targetReps,
           targetWeight: set.targetWeight,
+          targetPercent: set.targetPercent,
           targetTimeSeconds: set.targetTimeSeconds,
+          targetRpe: set.targetRpe,
+          targetRir: set.targetRir,
+          targetTempo: set.targetTempo,
           restSeconds: set.restSeconds,
           isWarmup: set.isWarmup,
+          setType: set.setType,
+          parentSetId: set.parentSetId ? copiedSetIds.get(set.parentSetId) ?? null : null,
+        }).returning();
+        copiedSetIds.set(set.id, newSet.id);
+      }
+
+      if (te.progressionRule) {
+        await db.insert(progressionRules).values({
+          userId,
+          templateExerciseId: newTe.id,
+          type: te.progressionRule.type,
+          weightIncrement: te.progressionRule.weightIncrement,
+          minReps: te.progressionRule.minReps,
+          maxReps: te.progressionRule.maxReps,
+          failuresBeforeReset: te.progressionRule.failuresBeforeReset,
+          resetPercent: te.progressionRule.resetPercent,
         });
       }
     }
@@ -576,6 +914,7 @@ export class DatabaseStorage implements IStorage {
 
   async removeTemplateExercise(userId: string, templateId: string, id: string): Promise<void> {
     await db.delete(plannedSets).where(eq(plannedSets.templateExerciseId, id));
+    await db.delete(progressionRules).where(eq(progressionRules.templateExerciseId, id));
     await db.delete(workoutTemplateExercises).where(and(eq(workoutTemplateExercises.id, id), eq(workoutTemplateExercises.userId, userId)));
   }
 
@@ -595,18 +934,115 @@ export class DatabaseStorage implements IStorage {
 
   // Planned Sets
   async addPlannedSet(data: InsertPlannedSet): Promise<PlannedSet> {
-    const [set] = await db.insert(plannedSets).values(data).returning();
+    const [set] = await db.insert(plannedSets).values(withSetType(data)).returning();
     return set;
   }
 
   async updatePlannedSet(userId: string, id: string, data: Partial<InsertPlannedSet>): Promise<PlannedSet | undefined> {
     const [set] = await db.update(plannedSets)
-      .set(data)
+      .set(withSetType(data))
       .where(and(eq(plannedSets.id, id), eq(plannedSets.userId, userId)))
       .returning();
     return set;
   }
 
+  // Training Maxes
+  async getTrainingMaxes(userId: string): Promise<any[]> {
+    return await db.select({
+      id: trainingMaxes.id,
+      exerciseId: trainingMaxes.exerciseId,
+      exerciseName: exercises.name,
+      weight: trainingMaxes.weight,
+      roundingIncrement: trainingMaxes.roundingIncrement,
+      updatedAt: trainingMaxes.updatedAt,
+    })
+      .from(trainingMaxes)
+      .innerJoin(exercises, eq(trainingMaxes.exerciseId, exercises.id))
+      .where(eq(trainingMaxes.userId, userId))
+      .orderBy(exercises.name);
+  }
+
+  async upsertTrainingMax(data: InsertTrainingMax): Promise<TrainingMax> {
+    const [max] = await db.insert(trainingMaxes)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [trainingMaxes.userId, trainingMaxes.exerciseId],
+        set: { weight: data.weight, roundingIncrement: data.roundingIncrement, updatedAt: new Date() },
+      })
+      .returning();
+    return max;
+  }
+
+  async deleteTrainingMax(userId: string, exerciseId: string): Promise<void> {
+    await db.delete(trainingMaxes).where(and(eq(trainingMaxes.userId, userId), eq(trainingMaxes.exerciseId, exerciseId)));
+  }
+
+  // Resolves a template exercise's planned sets to the weights to load today,
+  // keyed by planned set id: percentage-based sets from the user's current
+  // training max, and every target rounded to what the user's equipment can
+  // load. Sets already loadable as written are left out
+  private async resolveTargetWeights(userId: string, templateExercise: WorkoutTemplateExercise): Promise<Record<string, string> | null> {
+    const sets = await db.select().from(plannedSets).where(eq(plannedSets.templateExerciseId, templateExercise.id));
+    const weightedSets = sets.filter(set => set.targetPercent != null || set.targetWeight != null);
+    if (weightedSets.length === 0) return null;
+
+    const [max] = await db.select().from(trainingMaxes)
+      .where(and(eq(trainingMaxes.userId, userId), eq(trainingMaxes.exerciseId, templateExercise.exerciseId)));
+    const [exercise] = await db.select({ equipment: exercises.equipment, weightUnit: exercises.weightUnit }).from(exercises)
+      .where(eq(exercises.id, templateExercise.exerciseId));
+    const profile = getEquipmentProfile(await this.getUserSettings(userId));
+    const equipment = loadingEquipment(exercise, profile);
+
+    const resolved: Record<string, string> = {};
+    for (const set of weightedSets) {
+      if (set.targetPercent != null) {
+        if (!max) continue;
+        resolved[set.id] = String(roundToLoadable(Number(resolvePercentWeight(set.targetPercent, max)), equipment, profile));
+      } else {
+        const loadable = roundToLoadable(Number(set.targetWeight), equipment, profile);
+        if (loadable !== Number(set.targetWeight)) resolved[set.id] = String(loadable);
+      }
+    }
+    return Object.keys(resolved).length > 0 ? resolved : null;
+  }
+
+  // Progression Rules
+  async upsertProgressionRule(data: InsertProgressionRule): Promise<ProgressionRule> {
+    const [rule] = await db.insert(progressionRules)
+      .values(data)
+      .onConflictDoUpdate({
+        target: progressionRules.templateExerciseId,
+        set: { ...data, consecutiveFailures: 0, updatedAt: new Date() },
+      })
+      .returning();
+    return rule;
+  }
+
+  async deleteProgressionRule(userId: string, templateExerciseId: string): Promise<void> {
+    await db.delete(progressionRules).where(and(eq(progressionRules.templateExerciseId, templateExerciseId), eq(progressionRules.userId, userId)));
+  }
+
+  async getProgressionLog(userId: string, templateId: string): Promise<any[]> {
+    return await db.select({
+      id: progressionLog.id,
+      templateExerciseId: progressionLog.templateExerciseId,
+      exerciseId: progressionLog.exerciseId,
+      exerciseName: exercises.name,
+      sessionId: progressionLog.sessionId,
+      outcome: progressionLog.outcome,
+      previousWeight: progressionLog.previousWeight,
+      newWeight: progressionLog.newWeight,
+      previousReps: progressionLog.previousReps,
+      newReps: progressionLog.newReps,
+      createdAt: progressionLog.createdAt,
+    })
+      .from(progressionLog)
+      .innerJoin(exercises, eq(progressionLog.exerciseId, exercises.id))
+      .where(and(eq(progressionLog.userId, userId), eq(progressionLog.templateId, templateId)))
+      .orderBy(desc(progressionLog.createdAt))
+      .limit(50);
+  }
+
   async reorderPlannedSets(userId: string, templateExerciseId: string, setIds: string[]): Promise<void> {
     for (let i = 0; i < setIds.length; i++) {
       await db.update(plannedSets)
@@ -623,10 +1059,14 @@ export class DatabaseStorage implements IStorage {
 
   async deletePlannedSet(userId: string, id: string): Promise<void> {
     await db.delete(plannedSets).where(and(eq(plannedSets.id, id), eq(plannedSets.userId, userId)));
+    await db.update(plannedSets)
+      .set({ parentSetId: null })
+      .where(and(eq(plannedSets.parentSetId, id), eq(plannedSets.userId, userId)));
   }
 
   // Schedule
   async getScheduleForDate(userId: string, date: string): Promise<any[]> {
+    await this.expandScheduleSeries(userId, date);
     const schedules = await db.select().from(workoutSchedule).where(and(eq(workoutSchedule.userId, userId), eq(workoutSchedule.scheduledDate, date)));
 
     return Promise.all(schedules.map(async (s) => {
@@ -638,6 +1078,7 @@ export class DatabaseStorage implements IStorage {
   async getScheduleForWeek(userId: string, startDate: string): Promise<any[]> {
     const endDate = new Date(startDate);
     endDate.setDate(endDate.getDate() + 6);
+    await this.expandScheduleSeries(userId, endDate.toISOString().split('T')[0]);
 
     const schedules = await db.select().from(workoutSchedule).where(
       and(
@@ -654,6 +1095,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getScheduleForRange(userId: string, startDate: string, endDate: string): Promise<any[]> {
+    await this.expandScheduleSeries(userId, endDate);
     const schedules = await db.select().from(workoutSchedule).where(
       and(
         eq(workoutSchedule.userId, userId),
@@ -668,15 +1110,333 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getScheduleItem(userId: string, id: string): Promise<WorkoutScheduleItem | undefined> {
+    const [schedule] = await db.select().from(workoutSchedule).where(and(eq(workoutSchedule.id, id), eq(workoutSchedule.userId, userId)));
+    return schedule;
+  }
+
   async createSchedule(data: InsertWorkoutSchedule): Promise<WorkoutScheduleItem> {
     const [schedule] = await db.insert(workoutSchedule).values(data).returning();
     return schedule;
   }
 
+  async updateSchedule(userId: string, id: string, data: { scheduledDate?: string; templateId?: string }): Promise<WorkoutScheduleItem | undefined> {
+    // A moved or re-templated occurrence no longer follows its series, and its
+    // date is excluded so regenerating the series doesn't bring it back.
+    // Moving a skipped workout puts it back on the plan
+    const existing = await this.getScheduleItem(userId, id);
+    if (existing?.seriesId) await this.excludeSeriesDate(userId, existing.seriesId, existing.scheduledDate);
+    const [schedule] = await db.update(workoutSchedule)
+      .set(data.scheduledDate
+        ? { ...data, seriesId: null, status: "planned", skipReason: null }
+        : { ...data, seriesId: null })
+      .where(and(eq(workoutSchedule.id, id), eq(workoutSchedule.userId, userId)))
+      .returning();
+    return schedule;
+  }
+
+  async deleteSchedule(userId: string, id: string): Promise<void> {
+    const existing = await this.getScheduleItem(userId, id);
+    if (existing?.seriesId) await this.excludeSeriesDate(userId, existing.seriesId, existing.scheduledDate);
+    await db.delete(workoutSchedule).where(and(eq(workoutSchedule.id, id), eq(workoutSchedule.userId, userId)));
+  }
+
   async updateScheduleStatus(userId: string, id: string, status: string): Promise<void> {
     await db.update(workoutSchedule).set({ status: status as any }).where(and(eq(workoutSchedule.id, id), eq(workoutSchedule.userId, userId)));
   }
 
+  async skipSchedule(userId: string, id: string, reason: string | null): Promise<WorkoutScheduleItem | undefined> {
+    const [schedule] = await db.update(workoutSchedule)
+      .set({ status: "skipped", skipReason: reason })
+      .where(and(eq(workoutSchedule.id, id), eq(workoutSchedule.userId, userId)))
+      .returning();
+    return schedule;
+  }
+
+  async markMissedSchedulesSkipped(userId?: string): Promise<number> {
+    // Planned workouts from past days that no session ever started from
+    const conditions = [
+      eq(workoutSchedule.status, "planned"),
+      lt(workoutSchedule.scheduledDate, missedBeforeDateKey()),
+      sql`${workoutSchedule.id} NOT IN (SELECT schedule_id FROM workout_sessions WHERE schedule_id IS NOT NULL)`,
+    ];
+    if (userId) conditions.push(eq(workoutSchedule.userId, userId));
+
+    const skipped = await db.update(workoutSchedule)
+      .set({ status: "skipped" })
+      .where(and(...conditions))
+      .returning({ id: workoutSchedule.id });
+    return skipped.length;
+  }
+
+  // Schedule Series
+  async getScheduleSeries(userId: string): Promise<any[]> {
+    const seriesList = await db.select().from(workoutScheduleSeries)
+      .where(eq(workoutScheduleSeries.userId, userId))
+      .orderBy(desc(workoutScheduleSeries.createdAt));
+
+    return Promise.all(seriesList.map(async (series) => {
+      const [template] = await db.select().from(workoutTemplates).where(eq(workoutTemplates.id, series.templateId));
+      return { ...series, template };
+    }));
+  }
+
+  async getScheduleSeriesById(userId: string, id: string): Promise<WorkoutScheduleSeries | undefined> {
+    const [series] = await db.select().from(workoutScheduleSeries)
+      .where(and(eq(workoutScheduleSeries.id, id), eq(workoutScheduleSeries.userId, userId)));
+    return series;
+  }
+
+  async createScheduleSeries(data: InsertWorkoutScheduleSeries): Promise<WorkoutScheduleSeries> {
+    const [series] = await db.insert(workoutScheduleSeries).values(data).returning();
+    return await this.expandSeries(series, shiftDateKey(toDateKey(new Date()), SERIES_HORIZON_DAYS));
+  }
+
+  async updateScheduleSeries(userId: string, id: string, data: Partial<InsertWorkoutScheduleSeries>): Promise<WorkoutScheduleSeries | undefined> {
+    const [series] = await db.update(workoutScheduleSeries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(workoutScheduleSeries.id, id), eq(workoutScheduleSeries.userId, userId)))
+      .returning();
+    if (!series) return undefined;
+
+    // Regenerate upcoming occurrences under the new rule; past, completed and
+    // in-progress occurrences are left as they are, and moved or deleted ones
+    // stay moved or deleted
+    const today = toDateKey(new Date());
+    await this.removeUpcomingOccurrences(userId, id, today);
+    const [reset] = await db.update(workoutScheduleSeries)
+      .set({ generatedThrough: shiftDateKey(today, -1) })
+      .where(eq(workoutScheduleSeries.id, id))
+      .returning();
+    return await this.expandSeries(reset, shiftDateKey(today, SERIES_HORIZON_DAYS));
+  }
+
+  async endScheduleSeries(userId: string, id: string, endDate?: string): Promise<WorkoutScheduleSeries | undefined> {
+    // Ending without a date stops the series after yesterday, dropping today's occurrence too
+    endDate = endDate ?? shiftDateKey(toDateKey(new Date()), -1);
+    const [series] = await db.update(workoutScheduleSeries)
+      .set({ endDate, updatedAt: new Date() })
+      .where(and(eq(workoutScheduleSeries.id, id), eq(workoutScheduleSeries.userId, userId)))
+      .returning();
+    if (!series) return undefined;
+
+    await this.removeUpcomingOccurrences(userId, id, shiftDateKey(endDate, 1));
+    return series;
+  }
+
+  async expandScheduleSeries(userId: string, throughDate: string): Promise<void> {
+    const today = toDateKey(new Date());
+    const horizon = shiftDateKey(today, SERIES_HORIZON_DAYS);
+    const maxHorizon = shiftDateKey(today, SERIES_MAX_HORIZON_DAYS);
+    const target = throughDate > maxHorizon ? maxHorizon : throughDate > horizon ? throughDate : horizon;
+
+    const seriesList = await db.select().from(workoutScheduleSeries).where(eq(workoutScheduleSeries.userId, userId));
+    for (const series of seriesList) {
+      const last = series.endDate && series.endDate < target ? series.endDate : target;
+      if (series.generatedThrough && series.generatedThrough >= last) continue;
+      await this.expandSeries(series, target);
+    }
+  }
+
+  // Creates the series' occurrences from where it was last generated (never
+  // before today) through the target date, skipping dates that already have one
+  private async expandSeries(series: WorkoutScheduleSeries, target: string): Promise<WorkoutScheduleSeries> {
+    const today = toDateKey(new Date());
+    const last = series.endDate && series.endDate < target ? series.endDate : target;
+    let from = series.generatedThrough ? shiftDateKey(series.generatedThrough, 1) : series.startDate;
+    if (from < series.startDate) from = series.startDate;
+    if (from < today) from = today;
+    if (from > last) return series;
+
+    const existing = await db.select({ scheduledDate: workoutSchedule.scheduledDate }).from(workoutSchedule)
+      .where(and(
+        eq(workoutSchedule.seriesId, series.id),
+        gte(workoutSchedule.scheduledDate, from),
+        lte(workoutSchedule.scheduledDate, last)
+      ));
+    const existingDates = new Set(existing.map(e => e.scheduledDate));
+
+    const rows: InsertWorkoutSchedule[] = [];
+    for (let day = parseDateKey(from); toDateKey(day) <= last; day.setDate(day.getDate() + 1)) {
+      const dateKey = toDateKey(day);
+      if (isSeriesOccurrence(series, day) && !existingDates.has(dateKey) && !series.excludedDates.includes(dateKey)) {
+        rows.push({ userId: series.userId, templateId: series.templateId, scheduledDate: dateKey, seriesId: series.id });
+      }
+    }
+    if (rows.length > 0) {
+      await db.insert(workoutSchedule).values(rows);
+    }
+
+    const [updated] = await db.update(workoutScheduleSeries)
+      .set({ generatedThrough: last })
+      .where(eq(workoutScheduleSeries.id, series.id))
+      .returning();
+    return updated;
+  }
+
+  private async excludeSeriesDate(userId: string, seriesId: string, dateKey: string): Promise<void> {
+    await db.update(workoutScheduleSeries)
+      .set({ excludedDates: sql`array_append(${workoutScheduleSeries.excludedDates}, ${dateKey})` })
+      .where(and(eq(workoutScheduleSeries.id, seriesId), eq(workoutScheduleSeries.userId, userId)));
+  }
+
+  private async removeUpcomingOccurrences(userId: string, seriesId: string, fromDate: string): Promise<void> {
+    await db.delete(workoutSchedule).where(and(
+      eq(workoutSchedule.seriesId, seriesId),
+      eq(workoutSchedule.userId, userId),
+      eq(workoutSchedule.status, "planned"),
+      gte(workoutSchedule.scheduledDate, fromDate),
+      sql`${workoutSchedule.id} NOT IN (SELECT schedule_id FROM workout_sessions WHERE schedule_id IS NOT NULL)`
+    ));
+  }
+
+  // Programs
+  async getPrograms(userId: string): Promise<any[]> {
+    const programList = await db.select().from(programs)
+      .where(eq(programs.userId, userId))
+      .orderBy(desc(programs.createdAt));
+
+    return Promise.all(programList.map(async (program) => {
+      const workouts = await db.select({ id: programWorkouts.id }).from(programWorkouts).where(eq(programWorkouts.programId, program.id));
+      return { ...program, workoutCount: workouts.length };
+    }));
+  }
+
+  async getProgram(userId: string, id: string): Promise<any | undefined> {
+    const [program] = await db.select().from(programs).where(and(eq(programs.id, id), eq(programs.userId, userId)));
+    if (!program) return undefined;
+
+    const workouts = await db.select().from(programWorkouts)
+      .where(eq(programWorkouts.programId, id))
+      .orderBy(programWorkouts.weekNumber, programWorkouts.dayNumber);
+    const workoutsWithTemplates = await Promise.all(workouts.map(async (pw) => {
+      const [template] = await db.select().from(workoutTemplates).where(eq(workoutTemplates.id, pw.templateId));
+      return { ...pw, template };
+    }));
+
+    return { ...program, workouts: workoutsWithTemplates };
+  }
+
+  async createProgram(data: InsertProgram, workouts: Omit<InsertProgramWorkout, "userId" | "programId">[]): Promise<Program> {
+    const [program] = await db.insert(programs).values(data).returning();
+    if (workouts.length > 0) {
+      await db.insert(programWorkouts).values(workouts.map(w => ({ ...w, userId: data.userId, programId: program.id })));
+    }
+    return program;
+  }
+
+  async updateProgram(userId: string, id: string, data: Partial<InsertProgram>, workouts?: Omit<InsertProgramWorkout, "userId" | "programId">[]): Promise<Program | undefined> {
+    const [program] = await db.update(programs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(programs.id, id), eq(programs.userId, userId)))
+      .returning();
+    if (!program) return undefined;
+
+    // The week layout is replaced as a whole; runs already started keep the
+    // workouts they were scheduled with
+    if (workouts) {
+      await db.delete(programWorkouts).where(eq(programWorkouts.programId, id));
+      if (workouts.length > 0) {
+        await db.insert(programWorkouts).values(workouts.map(w => ({ ...w, userId, programId: id })));
+      }
+    }
+    return program;
+  }
+
+  async deleteProgram(userId: string, id: string): Promise<void> {
+    const [program] = await db.select().from(programs).where(and(eq(programs.id, id), eq(programs.userId, userId)));
+    if (!program) return;
+
+    const today = toDateKey(new Date());
+    const runs = await db.select().from(programRuns).where(eq(programRuns.programId, id));
+    for (const run of runs) {
+      await this.removeUpcomingProgramWorkouts(userId, run.id, today);
+    }
+    await db.update(workoutSchedule).set({ programRunId: null }).where(and(
+      eq(workoutSchedule.userId, userId),
+      sql`${workoutSchedule.programRunId} IN (SELECT id FROM program_runs WHERE program_id = ${id})`
+    ));
+    await db.delete(programRuns).where(eq(programRuns.programId, id));
+    await db.delete(programWorkouts).where(eq(programWorkouts.programId, id));
+    await db.delete(programs).where(eq(programs.id, id));
+  }
+
+  async startProgram(userId: string, programId: string, startDate: string): Promise<ProgramRun> {
+    // Only one program runs at a time; starting another ends the current one
+    const active = await this.getActiveProgramRun(userId);
+    if (active) await this.endProgramRun(userId, active.id);
+
+    const [run] = await db.insert(programRuns).values({ userId, programId, startDate }).returning();
+    const workouts = await db.select().from(programWorkouts).where(eq(programWorkouts.programId, programId));
+    if (workouts.length > 0) {
+      await db.insert(workoutSchedule).values(workouts.map(w => ({
+        userId,
+        templateId: w.templateId,
+        scheduledDate: shiftDateKey(startDate, (w.weekNumber - 1) * 7 + (w.dayNumber - 1)),
+        programRunId: run.id,
+      })));
+    }
+    return run;
+  }
+
+  async getActiveProgramRun(userId: string): Promise<any | undefined> {
+    const today = toDateKey(new Date());
+    const runs = await db.select().from(programRuns)
+      .where(and(eq(programRuns.userId, userId), sql`${programRuns.endedAt} IS NULL`))
+      .orderBy(desc(programRuns.startDate));
+
+    for (const run of runs) {
+      const [program] = await db.select().from(programs).where(eq(programs.id, run.programId));
+      if (!program) continue;
+      const lastDay = shiftDateKey(run.startDate, program.weekCount * 7 - 1);
+      if (lastDay < today) continue;
+
+      const occurrences = await db.select().from(workoutSchedule)
+        .where(and(eq(workoutSchedule.programRunId, run.id), eq(workoutSchedule.userId, userId)))
+        .orderBy(workoutSchedule.scheduledDate);
+      const next = occurrences.find(o => o.status === "planned" && o.scheduledDate >= today);
+      const [nextTemplate] = next
+        ? await db.select().from(workoutTemplates).where(eq(workoutTemplates.id, next.templateId))
+        : [];
+
+      // Week/day are null until the start date arrives
+      const dayIndex = daysBetween(parseDateKey(run.startDate), new Date());
+      return {
+        ...run,
+        program,
+        endDate: lastDay,
+        weekNumber: dayIndex >= 0 ? Math.floor(dayIndex / 7) + 1 : null,
+        dayNumber: dayIndex >= 0 ? (dayIndex % 7) + 1 : null,
+        totalWorkouts: occurrences.length,
+        completedWorkouts: occurrences.filter(o => o.status === "completed").length,
+        skippedWorkouts: occurrences.filter(o => o.status === "skipped").length,
+        nextWorkout: next ? { ...next, template: nextTemplate } : null,
+      };
+    }
+    return undefined;
+  }
+
+  async endProgramRun(userId: string, runId: string): Promise<ProgramRun | undefined> {
+    const [run] = await db.update(programRuns)
+      .set({ endedAt: new Date() })
+      .where(and(eq(programRuns.id, runId), eq(programRuns.userId, userId)))
+      .returning();
+    if (!run) return undefined;
+
+    await this.removeUpcomingProgramWorkouts(userId, runId, toDateKey(new Date()));
+    return run;
+  }
+
+  private async removeUpcomingProgramWorkouts(userId: string, runId: string, fromDate: string): Promise<void> {
+    await db.delete(workoutSchedule).where(and(
+      eq(workoutSchedule.programRunId, runId),
+      eq(workoutSchedule.userId, userId),
+      eq(workoutSchedule.status, "planned"),
+      gte(workoutSchedule.scheduledDate, fromDate),
+      sql`${workoutSchedule.id} NOT IN (SELECT schedule_id FROM workout_sessions WHERE schedule_id IS NOT NULL)`
+    ));
+  }
+
   // Sessions
   async getSessions(userId: string): Promise<any[]> {
     const sessions = await db.select().from(workoutSessions).where(eq(workoutSessions.userId, userId)).orderBy(desc(workoutSessions.startedAt));
@@ -719,25 +1479,43 @@ export class DatabaseStorage implements IStorage {
 
       let plannedSetsList: PlannedSet[] = [];
       if (session.templateId) {
-        const [templateExercise] = await db.select().from(workoutTemplateExercises)
-          .where(and(eq(workoutTemplateExercises.templateId, session.templateId), eq(workoutTemplateExercises.exerciseId, se.exerciseId)));
+        // Older sessions have no stored link and fall back to matching the exercise
+        const [templateExercise] = se.templateExerciseId
+          ? [{ id: se.templateExerciseId }]
+          : await db.select().from(workoutTemplateExercises)
+            .where(and(eq(workoutTemplateExercises.templateId, session.templateId), eq(workoutTemplateExercises.exerciseId, se.exerciseId)));
         if (templateExercise) {
           plannedSetsList = await db.select().from(plannedSets).where(eq(plannedSets.templateExerciseId, templateExercise.id)).orderBy(plannedSets.setNumber);
+          // Percentage-based and unloadable targets show the weight resolved when the session started
+          plannedSetsList = plannedSetsList.map(set => {
+            const resolved = se.resolvedWeights?.[set.id];
+            return resolved ? { ...set, targetWeight: resolved } : set;
+          });
         }
       }
 
-      return { ...se, exercise, performedSets: sets, plannedSets: plannedSetsList };
+      let substitutedExerciseName: string | null = null;
+      if (se.substitutedExerciseId) {
+        const [original] = await db.select({ name: exercises.name }).from(exercises).where(eq(exercises.id, se.substitutedExerciseId));
+        substitutedExerciseName = original?.name ?? null;
+      }
+
+      return { ...se, exercise, performedSets: sets, plannedSets: plannedSetsList, substitutedExerciseName };
     }));
 
-    // Resolve circuit names
+    // Resolve circuit names, and the format and timings the circuit player runs them with
     const circuitIds = [...new Set(exercisesWithDetails.filter(e => e.circuitId).map(e => e.circuitId!))];
     const circuitNames: Record<string, string> = {};
+    const circuitDetails: Record<string, Circuit> = {};
     for (const cid of circuitIds) {
       const [c] = await db.select().from(circuits).where(eq(circuits.id, cid));
-      if (c) circuitNames[cid] = c.name;
+      if (c) {
+        circuitNames[cid] = c.name;
+        circuitDetails[cid] = c;
+      }
     }
 
-    return { ...session, templateName, exercises: exercisesWithDetails, circuitNames };
+    return { ...session, templateName, exercises: exercisesWithDetails, circuitNames, circuitDetails };
   }
 
   async getActiveSession(userId: string): Promise<any | undefined> {
@@ -775,11 +1553,13 @@ export class DatabaseStorage implements IStorage {
         userId,
         sessionId: session.id,
         exerciseId: te.exerciseId,
+        templateExerciseId: te.id,
         position: te.position,
         circuitId: te.circuitId,
         circuitRound: te.circuitRound,
         circuitRounds: te.circuitRounds,
         notes: te.notes,
+        resolvedWeights: await this.resolveTargetWeights(userId, te),
       });
     }
 
@@ -810,45 +1590,537 @@ export class DatabaseStorage implements IStorage {
         userId,
         sessionId: session.id,
         exerciseId: te.exerciseId,
+        templateExerciseId: te.id,
         position: te.position,
         circuitId: te.circuitId,
         circuitRound: te.circuitRound,
         circuitRounds: te.circuitRounds,
         notes: te.notes,
+        resolvedWeights: await this.resolveTargetWeights(userId, te),
       });
     }
 
     return session;
   }
 
-  async endSession(userId: string, id: string, notes?: string): Promise<WorkoutSession | undefined> {
+  async endSession(userId: string, id: string, notes?: string): Promise<(WorkoutSession & { progressions: ProgressionLogEntry[] }) | undefined> {
+    const [existing] = await db.select().from(workoutSessions).where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId)));
+    if (!existing) return undefined;
+
+    // Ending an auto-ended session keeps it as it was ended, at its last set
+    if (existing.autoEndedAt) {
+      if (notes !== undefined) await this.updateSession(userId, id, { notes });
+      return this.keepAutoEndedSession(userId, id);
+    }
+
     const [session] = await db.update(workoutSessions)
-      .set({ endedAt: new Date(), notes })
+      .set({ endedAt: new Date(), notes, restTimer: null })
       .where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId)))
       .returning();
 
-    if (session?.scheduleId) {
+    if (session.scheduleId) {
       await this.updateScheduleStatus(userId, session.scheduleId, "completed");
     }
 
+    // Progression runs only the first time a session is ended
+    const progressions = existing.endedAt ? [] : await this.applyProgressionRules(userId, session);
+    return { ...session, progressions };
+  }
+
+  async updateSession(userId: string, id: string, data: { startedAt?: Date; endedAt?: Date; notes?: string | null }): Promise<WorkoutSession | undefined> {
+    const [session] = await db.update(workoutSessions)
+      .set(data)
+      .where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId)))
+      .returning();
+    return session;
+  }
+
+  // Only active sessions keep a rest timer
+  async setRestTimer(userId: string, id: string, timer: RestTimerState | null): Promise<WorkoutSession | undefined> {
+    const [session] = await db.update(workoutSessions)
+      .set({ restTimer: timer })
+      .where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId), isNull(workoutSessions.endedAt)))
+      .returning();
+    return session;
+  }
+
+  async deleteSession(userId: string, id: string): Promise<void> {
+    const [session] = await db.select().from(workoutSessions).where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId)));
+    if (!session) return;
+
+    await this.revertProgressions(userId, id);
+    await db.delete(performedSets).where(
+      sql`${performedSets.sessionExerciseId} IN (SELECT id FROM session_exercises WHERE session_id = ${id})`
+    );
+    await db.delete(sessionExercises).where(eq(sessionExercises.sessionId, id));
+    await db.delete(workoutSessions).where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId)));
+
+    // The scheduled workout goes back to what it would be without this session:
+    // still planned, or skipped if its day has passed (unless another session covers it)
+    if (session.scheduleId) {
+      const [otherSession] = await db.select({ id: workoutSessions.id })
+        .from(workoutSessions)
+        .where(and(eq(workoutSessions.scheduleId, session.scheduleId), eq(workoutSessions.userId, userId)))
+        .limit(1);
+      const [schedule] = await db.select().from(workoutSchedule)
+        .where(and(eq(workoutSchedule.id, session.scheduleId), eq(workoutSchedule.userId, userId)));
+      if (schedule && !otherSession) {
+        const missed = schedule.scheduledDate < missedBeforeDateKey();
+        await this.updateScheduleStatus(userId, schedule.id, missed ? "skipped" : "planned");
+      }
+    }
+  }
+
+  // Undoes the target changes the session's progressions made and drops their
+  // log entries. Only an exercise's latest progression is undone; when a later
+  // session has progressed it again, the targets already build on this one
+  private async revertProgressions(userId: string, sessionId: string): Promise<void> {
+    const entries = await db.select().from(progressionLog)
+      .where(and(eq(progressionLog.sessionId, sessionId), eq(progressionLog.userId, userId)));
+
+    for (const entry of entries) {
+      const [later] = await db.select({ id: progressionLog.id }).from(progressionLog)
+        .where(and(
+          eq(progressionLog.templateExerciseId, entry.templateExerciseId),
+          sql`${progressionLog.createdAt} > ${entry.createdAt}`
+        ))
+        .limit(1);
+      if (later) continue;
+
+      for (const set of entry.previousTargets.sets) {
+        await db.update(plannedSets)
+          .set({ targetWeight: set.targetWeight, targetReps: set.targetReps })
+          .where(and(eq(plannedSets.id, set.plannedSetId), eq(plannedSets.userId, userId)));
+      }
+      await db.update(progressionRules)
+        .set({ consecutiveFailures: entry.previousTargets.consecutiveFailures, updatedAt: new Date() })
+        .where(and(eq(progressionRules.templateExerciseId, entry.templateExerciseId), eq(progressionRules.userId, userId)));
+    }
+
+    await db.delete(progressionLog)
+      .where(and(eq(progressionLog.sessionId, sessionId), eq(progressionLog.userId, userId)));
+  }
+
+  // Progression rules are deliberately not applied: an old workout shouldn't
+  // move the targets the user is training against now
+  async createBackfilledSession(userId: string, data: BackfillSessionInput): Promise<WorkoutSession> {
+    // A workout of this template scheduled that day is the one being logged,
+    // even if it was already marked skipped
+    let scheduleId: string | null = null;
+    if (data.templateId) {
+      const [schedule] = await db.select({ id: workoutSchedule.id }).from(workoutSchedule)
+        .where(and(
+          eq(workoutSchedule.userId, userId),
+          eq(workoutSchedule.templateId, data.templateId),
+          eq(workoutSchedule.scheduledDate, toDateKey(data.startedAt)),
+          not(eq(workoutSchedule.status, "completed")),
+          sql`${workoutSchedule.id} NOT IN (SELECT schedule_id FROM workout_sessions WHERE schedule_id IS NOT NULL)`
+        ))
+        .limit(1);
+      scheduleId = schedule?.id ?? null;
+    }
+
+    const [session] = await db.insert(workoutSessions).values({
+      userId,
+      templateId: data.templateId ?? null,
+      scheduleId,
+      startedAt: data.startedAt,
+      endedAt: data.endedAt,
+      notes: data.notes ?? null,
+    }).returning();
+    if (scheduleId) {
+      await db.update(workoutSchedule)
+        .set({ status: "completed", skipReason: null })
+        .where(eq(workoutSchedule.id, scheduleId));
+    }
+
+    // Sets are stamped evenly across the workout so history keeps their order
+    const totalSets = data.exercises.reduce((sum, ex) => sum + ex.sets.length, 0);
+    const step = (data.endedAt.getTime() - data.startedAt.getTime()) / (totalSets + 1);
+    let setIndex = 0;
+
+    for (let i = 0; i < data.exercises.length; i++) {
+      const ex = data.exercises[i];
+      const [sessionExercise] = await db.insert(sessionExercises).values({
+        userId,
+        sessionId: session.id,
+        exerciseId: ex.exerciseId,
+        position: i + 1,
+        circuitId: ex.circuitId ?? null,
+        circuitRound: ex.circuitRound ?? null,
+        circuitRounds: ex.circuitRounds ?? null,
+        notes: ex.notes ?? null,
+      }).returning();
+
+      if (ex.sets.length === 0) continue;
+      const weightUnit = await this.getExerciseWeightUnit(sessionExercise.id);
+      const inserted = await db.insert(performedSets).values(ex.sets.map((set, j) => ({
+        userId,
+        sessionExerciseId: sessionExercise.id,
+        setNumber: j + 1,
+        actualReps: set.actualReps ?? null,
+        actualWeight: set.actualWeight ?? null,
+        weightUnit: set.weightUnit ?? weightUnit,
+        actualTimeSeconds: set.actualTimeSeconds ?? null,
+        actualDistance: set.actualDistance ?? null,
+        actualRpe: set.actualRpe ?? null,
+        ...withSetType({ setType: set.setType, isWarmup: set.isWarmup ?? false }),
+        createdAt: new Date(data.startedAt.getTime() + step * ++setIndex),
+      }))).returning();
+
+      // Drop sets drop from the set logged before them
+      const ordered = inserted.sort((a, b) => a.setNumber - b.setNumber);
+      for (let j = 1; j < ordered.length; j++) {
+        if (ordered[j].setType !== "drop") continue;
+        await db.update(performedSets)
+          .set({ parentSetId: ordered[j - 1].id })
+          .where(eq(performedSets.id, ordered[j].id));
+      }
+    }
+
     return session;
   }
 
+  // Ends open sessions that have gone the user's configured number of hours
+  // without a logged set. They end at the last set (or the start, if nothing
+  // was logged) and stay flagged until the user keeps or undoes them;
+  // progression waits for that decision
+  async autoEndInactiveSessions(userId: string): Promise<number> {
+    const settings = await this.getUserSettings(userId);
+    if (!settings.autoEndAfterHours) return 0;
+
+    const openSessions = await db.select().from(workoutSessions)
+      .where(and(eq(workoutSessions.userId, userId), isNull(workoutSessions.endedAt)));
+    if (openSessions.length === 0) return 0;
+
+    // Sets replayed from the offline queue are created late, so when a set was
+    // done counts where it's known
+    const lastSets = await db.select({
+      sessionId: sessionExercises.sessionId,
+      lastSetAt: sql<Date | null>`MAX(COALESCE(${performedSets.completedAt}, ${performedSets.createdAt}))`.mapWith(performedSets.createdAt),
+    })
+      .from(performedSets)
+      .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
+      .where(inArray(sessionExercises.sessionId, openSessions.map(s => s.id)))
+      .groupBy(sessionExercises.sessionId);
+
+    const cutoff = Date.now() - settings.autoEndAfterHours * 60 * 60 * 1000;
+    let ended = 0;
+    for (const session of openSessions) {
+      const lastActivity = lastSets.find(row => row.sessionId === session.id)?.lastSetAt ?? session.startedAt;
+      if (lastActivity.getTime() > cutoff) continue;
+
+      await db.update(workoutSessions)
+        .set({ endedAt: lastActivity, autoEndedAt: new Date(), restTimer: null })
+        .where(eq(workoutSessions.id, session.id));
+      if (session.scheduleId) {
+        await this.updateScheduleStatus(userId, session.scheduleId, "completed");
+      }
+      ended++;
+    }
+    return ended;
+  }
+
+  async getAutoEndedSessions(userId: string): Promise<any[]> {
+    const sessions = await db.select().from(workoutSessions)
+      .where(and(eq(workoutSessions.userId, userId), isNotNull(workoutSessions.autoEndedAt)))
+      .orderBy(desc(workoutSessions.startedAt));
+
+    return await Promise.all(sessions.map(async (session) => {
+      let template = null;
+      if (session.templateId) {
+        const [t] = await db.select().from(workoutTemplates).where(eq(workoutTemplates.id, session.templateId));
+        template = t;
+      }
+      return { ...session, template };
+    }));
+  }
+
+  async reopenAutoEndedSession(userId: string, id: string): Promise<WorkoutSession | undefined> {
+    const [session] = await db.update(workoutSessions)
+      .set({ endedAt: null, autoEndedAt: null })
+      .where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId), isNotNull(workoutSessions.autoEndedAt)))
+      .returning();
+    if (session?.scheduleId) {
+      await this.updateScheduleStatus(userId, session.scheduleId, "planned");
+    }
+    return session;
+  }
+
+  async keepAutoEndedSession(userId: string, id: string): Promise<(WorkoutSession & { progressions: ProgressionLogEntry[] }) | undefined> {
+    const [session] = await db.update(workoutSessions)
+      .set({ autoEndedAt: null })
+      .where(and(eq(workoutSessions.id, id), eq(workoutSessions.userId, userId), isNotNull(workoutSessions.autoEndedAt)))
+      .returning();
+    if (!session) return undefined;
+    const progressions = await this.applyProgressionRules(userId, session);
+    return { ...session, progressions };
+  }
+
+  // Post-workout recap: totals, planned vs done, PRs set that day and the same
+  // numbers for the previous completed session of the template
+  async getSessionSummary(userId: string, id: string, formula: OneRepMaxFormula = "epley"): Promise<any | undefined> {
+    const session = await this.getSession(userId, id);
+    if (!session) return undefined;
+    const unit = await this.getWeightUnit(userId);
+
+    // Time on an exercise runs from the last set of anything else before its
+    // first set (or the session start) to its own last set. Null for sets
+    // without completion times
+    const timeOnExercise = (s: any, sessionExerciseId: string, allSets: PerformedSet[]) => {
+      const time = (set: PerformedSet) => new Date(set.completedAt!).getTime();
+      const timed = allSets.filter(set => set.completedAt);
+      const own = timed.filter(set => set.sessionExerciseId === sessionExerciseId).map(time);
+      if (own.length === 0) return null;
+      const first = Math.min(...own);
+      const before = timed.filter(set => set.sessionExerciseId !== sessionExerciseId).map(time).filter(t => t < first);
+      const start = Math.max(new Date(s.startedAt).getTime(), ...before);
+      return Math.max(0, Math.round((Math.max(...own) - start) / 1000));
+    };
+
+    // Volume is in the user's unit, whatever each exercise is logged in
+    const totals = (s: any) => {
+      const exs: any[] = s.exercises;
+      const allSets: PerformedSet[] = exs.flatMap(ex => ex.performedSets || []);
+      const planned: PlannedRest[] = exs.flatMap(ex => (ex.plannedSets || []).map((set: PlannedSet) => ({ ...set, sessionExerciseId: ex.id })));
+      const intervals = restIntervals(allSets, planned);
+      const perExercise = exs.map(ex => {
+        const sets: PerformedSet[] = ex.performedSets || [];
+        const pacing = restPacing(intervals.filter(i => i.sessionExerciseId === ex.id));
+        return {
+          sessionExerciseId: ex.id as string,
+          exerciseId: ex.exerciseId as string,
+          exerciseName: (ex.exercise?.name ?? "") as string,
+          plannedSets: (ex.plannedSets?.length || 0) as number,
+          completedSets: sets.length,
+          volume: Math.round(sets.reduce((sum, set) => sum + (set.actualWeight && set.actualReps
+            ? convertWeight(Number(set.actualWeight), set.weightUnit ?? ex.exercise?.weightUnit, unit) * set.actualReps
+            : 0), 0)),
+          durationSeconds: timeOnExercise(s, ex.id, allSets),
+          avgRestSeconds: pacing.avgRestSeconds,
+          targetRestSeconds: pacing.targetRestSeconds,
+        };
+      });
+      return {
+        perExercise,
+        pacing: restPacing(intervals),
+        plannedSets: perExercise.reduce((sum, ex) => sum + ex.plannedSets, 0),
+        completedSets: perExercise.reduce((sum, ex) => sum + ex.completedSets, 0),
+        totalVolume: perExercise.reduce((sum, ex) => sum + ex.volume, 0),
+      };
+    };
+    const durationSeconds = (s: WorkoutSession) =>
+      s.endedAt ? Math.round((new Date(s.endedAt).getTime() - new Date(s.startedAt).getTime()) / 1000) : null;
+
+    const current = totals(session);
+
+    let previous = null;
+    if (session.templateId) {
+      const [prev] = await db.select({ id: workoutSessions.id }).from(workoutSessions)
+        .where(and(
+          eq(workoutSessions.userId, userId),
+          eq(workoutSessions.templateId, session.templateId),
+          lt(workoutSessions.startedAt, session.startedAt),
+          isNotNull(workoutSessions.endedAt)
+        ))
+        .orderBy(desc(workoutSessions.startedAt))
+        .limit(1);
+      if (prev) {
+        const prevSession = await this.getSession(userId, prev.id);
+        const prevTotals = totals(prevSession);
+        previous = {
+          sessionId: prevSession.id,
+          startedAt: prevSession.startedAt,
+          durationSeconds: durationSeconds(prevSession),
+          plannedSets: prevTotals.plannedSets,
+          completedSets: prevTotals.completedSets,
+          totalVolume: prevTotals.totalVolume,
+          pacing: prevTotals.pacing,
+          exercises: prevTotals.perExercise,
+        };
+      }
+    }
+
+    // Only PRs this session's own sets reached, not ones from another workout that day
+    const sessionExerciseIds = new Set(current.perExercise.map(ex => ex.sessionExerciseId));
+    const prs = (await this.getPersonalRecords(userId, formula))
+      .filter(pr => pr.sessionExerciseIds.some(seId => sessionExerciseIds.has(seId)));
+
+    return {
+      sessionId: session.id,
+      templateId: session.templateId,
+      templateName: session.templateName,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      durationSeconds: durationSeconds(session),
+      weightUnit: unit,
+      plannedSets: current.plannedSets,
+      completedSets: current.completedSets,
+      totalVolume: current.totalVolume,
+      pacing: current.pacing,
+      exercises: current.perExercise,
+      skippedExercises: current.perExercise.filter(ex => ex.completedSets === 0),
+      prs,
+      previous,
+    };
+  }
+
+  // Evaluates the template's progression rules against the sets performed in
+  // the session, updates the planned set targets and records what changed
+  private async applyProgressionRules(userId: string, session: WorkoutSession): Promise<ProgressionLogEntry[]> {
+    if (!session.templateId) return [];
+
+    const templateExs = await db.select().from(workoutTemplateExercises)
+      .where(and(eq(workoutTemplateExercises.templateId, session.templateId), eq(workoutTemplateExercises.userId, userId)));
+    if (templateExs.length === 0) return [];
+
+    const rules = await db.select().from(progressionRules)
+      .where(inArray(progressionRules.templateExerciseId, templateExs.map(te => te.id)));
+    if (rules.length === 0) return [];
+
+    const sessionExs = await db.select().from(sessionExercises).where(eq(sessionExercises.sessionId, session.id));
+    const profile = getEquipmentProfile(await this.getUserSettings(userId));
+    const entries: ProgressionLogEntry[] = [];
+
+    for (const rule of rules) {
+      const te = templateExs.find(t => t.id === rule.templateExerciseId)!;
+      // A swapped-in exercise says nothing about the one the rule progresses
+      const se = sessionExs.find(ex => ex.templateExerciseId === te.id);
+      if (!se || se.substitutedExerciseId) continue;
+
+      const performed = await db.select().from(performedSets)
+        .where(eq(performedSets.sessionExerciseId, se.id))
+        .orderBy(performedSets.createdAt);
+      const planned = await db.select().from(plannedSets)
+        .where(eq(plannedSets.templateExerciseId, te.id))
+        .orderBy(plannedSets.setNumber);
+
+      const step = evaluateProgression(rule, planned, performed, se.resolvedWeights);
+      if (!step) continue;
+
+      if (step === "failed") {
+        await db.update(progressionRules)
+          .set({ consecutiveFailures: rule.consecutiveFailures + 1 })
+          .where(eq(progressionRules.id, rule.id));
+        continue;
+      }
+
+      // Drop sets keep their own targets, as evaluateProgression leaves them out
+      const working = planned.filter(s => !s.isWarmup && s.setType !== "drop");
+      const [exercise] = await db.select({ equipment: exercises.equipment, weightUnit: exercises.weightUnit }).from(exercises)
+        .where(eq(exercises.id, te.exerciseId));
+      const equipment = loadingEquipment(exercise, profile);
+      const roundWeight = (weight: number, mode: RoundMode) => roundToLoadable(weight, equipment, profile, mode);
+      const updates = working.map(set => applyProgressionStep(rule, step, set, roundWeight));
+      for (let i = 0; i < working.length; i++) {
+        await db.update(plannedSets).set(updates[i]).where(eq(plannedSets.id, working[i].id));
+      }
+      await db.update(progressionRules)
+        .set({ consecutiveFailures: 0, updatedAt: new Date() })
+        .where(eq(progressionRules.id, rule.id));
+
+      // The first working set stands in for the exercise in the changelog
+      const [entry] = await db.insert(progressionLog).values({
+        userId,
+        templateId: session.templateId,
+        templateExerciseId: te.id,
+        exerciseId: te.exerciseId,
+        sessionId: session.id,
+        outcome: step === "reset" ? "reset" : "progressed",
+        previousWeight: working[0].targetWeight,
+        newWeight: updates[0].targetWeight,
+        previousReps: working[0].targetReps,
+        newReps: updates[0].targetReps,
+        previousTargets: {
+          consecutiveFailures: rule.consecutiveFailures,
+          sets: working.map(set => ({ plannedSetId: set.id, targetWeight: set.targetWeight, targetReps: set.targetReps })),
+        },
+      }).returning();
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
   // Session Exercises
   async addSessionExercise(data: InsertSessionExercise): Promise<SessionExercise> {
     const [se] = await db.insert(sessionExercises).values(data).returning();
     return se;
   }
 
+  async getSessionExercise(userId: string, sessionId: string, id: string): Promise<SessionExercise | undefined> {
+    const [se] = await db.select().from(sessionExercises)
+      .where(and(eq(sessionExercises.id, id), eq(sessionExercises.sessionId, sessionId), eq(sessionExercises.userId, userId)));
+    return se;
+  }
+
+  async removeSessionExercise(userId: string, sessionId: string, id: string): Promise<void> {
+    const se = await this.getSessionExercise(userId, sessionId, id);
+    if (!se) return;
+    await db.delete(performedSets).where(eq(performedSets.sessionExerciseId, id));
+    await db.delete(sessionExercises).where(eq(sessionExercises.id, id));
+  }
+
+  async reorderSessionExercises(userId: string, sessionId: string, exerciseIds: string[]): Promise<void> {
+    for (let i = 0; i < exerciseIds.length; i++) {
+      await db.update(sessionExercises)
+        .set({ position: i + 1 })
+        .where(
+          and(
+            eq(sessionExercises.id, exerciseIds[i]),
+            eq(sessionExercises.userId, userId),
+            eq(sessionExercises.sessionId, sessionId)
+          )
+        );
+    }
+  }
+
+  // Swaps the exercise but keeps the template link, so the planned sets still
+  // show against whatever was done instead. Percentage targets are re-resolved
+  // against the new exercise's training max, if it has one
+  async substituteSessionExercise(userId: string, sessionId: string, id: string, exerciseId: string): Promise<SessionExercise | undefined> {
+    const se = await this.getSessionExercise(userId, sessionId, id);
+    if (!se) return undefined;
+
+    let resolvedWeights = se.resolvedWeights;
+    if (se.templateExerciseId) {
+      const [te] = await db.select().from(workoutTemplateExercises).where(eq(workoutTemplateExercises.id, se.templateExerciseId));
+      if (te) resolvedWeights = await this.resolveTargetWeights(userId, { ...te, exerciseId });
+    }
+
+    // Swapping back to the planned exercise clears the substitution
+    const planned = se.substitutedExerciseId ?? se.exerciseId;
+    const [updated] = await db.update(sessionExercises)
+      .set({
+        exerciseId,
+        substitutedExerciseId: planned === exerciseId ? null : planned,
+        resolvedWeights,
+      })
+      .where(eq(sessionExercises.id, id))
+      .returning();
+    return updated;
+  }
+
   // Performed Sets
   async addPerformedSet(data: InsertPerformedSet): Promise<PerformedSet> {
-    const [set] = await db.insert(performedSets).values(data).returning();
+    const weightUnit = data.weightUnit ?? await this.getExerciseWeightUnit(data.sessionExerciseId);
+    const [set] = await db.insert(performedSets).values(withSetType({ ...data, weightUnit })).returning();
     return set;
   }
 
-  async updatePerformedSet(userId: string, setId: string, data: { actualReps?: number; actualWeight?: string; actualTimeSeconds?: number; actualDistance?: string; restSeconds?: number; isWarmup?: boolean }): Promise<PerformedSet | undefined> {
+  // Sets record the unit their exercise is logged in, so changing the
+  // exercise's unit later doesn't reinterpret weights already lifted
+  private async getExerciseWeightUnit(sessionExerciseId: string): Promise<WeightUnit> {
+    const [row] = await db.select({ weightUnit: exercises.weightUnit })
+      .from(sessionExercises)
+      .innerJoin(exercises, eq(sessionExercises.exerciseId, exercises.id))
+      .where(eq(sessionExercises.id, sessionExerciseId));
+    return row?.weightUnit ?? "lbs";
+  }
+
+  async updatePerformedSet(userId: string, setId: string, data: { actualReps?: number; actualWeight?: string; actualTimeSeconds?: number; actualDistance?: string; actualRpe?: string; actualRir?: number; actualTempo?: string; restSeconds?: number; isWarmup?: boolean; setType?: SetType; parentSetId?: string | null }): Promise<PerformedSet | undefined> {
     const [set] = await db.update(performedSets)
-      .set(data)
+      .set(withSetType(data))
       .where(and(eq(performedSets.id, setId), eq(performedSets.userId, userId)))
       .returning();
     return set;
@@ -856,6 +2128,51 @@ export class DatabaseStorage implements IStorage {
 
   async deletePerformedSet(userId: string, setId: string): Promise<void> {
     await db.delete(performedSets).where(and(eq(performedSets.id, setId), eq(performedSets.userId, userId)));
+    await db.update(performedSets)
+      .set({ parentSetId: null })
+      .where(and(eq(performedSets.parentSetId, setId), eq(performedSets.userId, userId)));
+  }
+
+  // Idempotency keys
+  async getIdempotencyRecord(userId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    const [record] = await db.select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+    return record;
+  }
+
+  // Claims the key with a pending row before the request runs; the unique key
+  // means only one copy of a replayed request gets it. Expired keys are pruned
+  // here, along with pending ones whose request never finished
+  async reserveIdempotencyKey(userId: string, key: string): Promise<{ reserved: boolean; record?: IdempotencyRecord }> {
+    const now = Date.now();
+    await db.delete(idempotencyKeys).where(or(
+      lt(idempotencyKeys.createdAt, new Date(now - IDEMPOTENCY_KEY_TTL_MS)),
+      and(
+        eq(idempotencyKeys.userId, userId),
+        isNull(idempotencyKeys.statusCode),
+        lt(idempotencyKeys.createdAt, new Date(now - IDEMPOTENCY_PENDING_TIMEOUT_MS))
+      )
+    ));
+
+    const [reserved] = await db.insert(idempotencyKeys)
+      .values({ userId, key })
+      .onConflictDoNothing()
+      .returning();
+    if (reserved) return { reserved: true };
+    return { reserved: false, record: await this.getIdempotencyRecord(userId, key) };
+  }
+
+  async completeIdempotencyKey(userId: string, key: string, statusCode: number, response: unknown): Promise<void> {
+    await db.update(idempotencyKeys)
+      .set({ statusCode, response })
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)));
+  }
+
+  // Frees a key whose request failed, so a replay can run it again
+  async releaseIdempotencyKey(userId: string, key: string): Promise<void> {
+    await db.delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key), isNull(idempotencyKeys.statusCode)));
   }
 
   // Exercise History
@@ -932,8 +2249,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Supplements
-  async getSupplements(userId: string): Promise<Supplement[]> {
-    return await db.select().from(supplements).where(eq(supplements.userId, userId)).orderBy(supplements.name);
+  async getSupplements(userId: string): Promise<(Supplement & { schedules: SupplementScheduleItem[] })[]> {
+    const supplementList = await db.select().from(supplements).where(eq(supplements.userId, userId)).orderBy(supplements.name);
+    const schedules = await db.select().from(supplementSchedule)
+      .where(eq(supplementSchedule.userId, userId))
+      .orderBy(supplementSchedule.createdAt);
+
+    return supplementList.map(supplement => ({
+      ...supplement,
+      schedules: schedules.filter(s => s.supplementId === supplement.id),
+    }));
   }
 
   async getSupplement(userId: string, id: string): Promise<Supplement | undefined> {
@@ -960,6 +2285,133 @@ export class DatabaseStorage implements IStorage {
     await db.delete(supplements).where(and(eq(supplements.id, id), eq(supplements.userId, userId)));
   }
 
+  // Supplement Schedules
+  async getSupplementSchedules(userId: string, supplementId: string): Promise<SupplementScheduleItem[]> {
+    return await db.select().from(supplementSchedule)
+      .where(and(eq(supplementSchedule.supplementId, supplementId), eq(supplementSchedule.userId, userId)))
+      .orderBy(supplementSchedule.createdAt);
+  }
+
+  async createSupplementSchedule(data: InsertSupplementSchedule): Promise<SupplementScheduleItem> {
+    const [schedule] = await db.insert(supplementSchedule).values(data).returning();
+    return schedule;
+  }
+
+  async getSupplementSchedule(userId: string, supplementId: string, id: string): Promise<SupplementScheduleItem | undefined> {
+    const [schedule] = await db.select().from(supplementSchedule)
+      .where(and(
+        eq(supplementSchedule.id, id),
+        eq(supplementSchedule.supplementId, supplementId),
+        eq(supplementSchedule.userId, userId)
+      ));
+    return schedule;
+  }
+
+  async updateSupplementSchedule(userId: string, supplementId: string, id: string, data: Partial<InsertSupplementSchedule>): Promise<SupplementScheduleItem | undefined> {
+    const [schedule] = await db.update(supplementSchedule)
+      .set(data)
+      .where(and(
+        eq(supplementSchedule.id, id),
+        eq(supplementSchedule.supplementId, supplementId),
+        eq(supplementSchedule.userId, userId)
+      ))
+      .returning();
+    return schedule;
+  }
+
+  async deleteSupplementSchedule(userId: string, supplementId: string, id: string): Promise<void> {
+    await db.delete(supplementSchedule).where(and(
+      eq(supplementSchedule.id, id),
+      eq(supplementSchedule.supplementId, supplementId),
+      eq(supplementSchedule.userId, userId)
+    ));
+  }
+
+  async getSupplementAdherence(userId: string, since?: Date): Promise<{
+    startDate: string;
+    endDate: string;
+    today: { scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null; taken: boolean }[];
+    supplements: { supplementId: string; supplementName: string; taken: number; missed: number; takenToday: number; adherencePct: number | null }[];
+    missed: { date: string; scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null }[];
+  }> {
+    const supplementList = await this.getSupplements(userId);
+    const activeSchedules = supplementList.flatMap(s => s.schedules.filter(sch => sch.active));
+
+    const today = parseDateKey(toDateKey(new Date()));
+    let rangeStart = since ? parseDateKey(toDateKey(since)) : today;
+    if (!since) {
+      // "All time" starts at the oldest active schedule
+      for (const schedule of activeSchedules) {
+        if (schedule.createdAt && schedule.createdAt < rangeStart) rangeStart = parseDateKey(toDateKey(schedule.createdAt));
+      }
+    }
+
+    const logs = await db.select().from(supplementLogs).where(
+      and(eq(supplementLogs.userId, userId), gte(supplementLogs.takenAt, rangeStart))
+    );
+
+    // Count logs per supplement per day; each log covers one due dose that day
+    const logCounts = new Map<string, number>();
+    for (const log of logs) {
+      const key = `${log.supplementId}:${toDateKey(log.takenAt)}`;
+      logCounts.set(key, (logCounts.get(key) || 0) + 1);
+    }
+
+    const todayItems: { scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null; taken: boolean }[] = [];
+    const missed: { date: string; scheduleId: string; supplementId: string; supplementName: string; timeOfDay: string | null; dose: string | null }[] = [];
+    const summaries = [];
+
+    for (const supplement of supplementList) {
+      let taken = 0;
+      let missedCount = 0;
+      const schedules = supplement.schedules.filter(s => s.active);
+
+      for (let day = new Date(rangeStart); day <= today; day.setDate(day.getDate() + 1)) {
+        const dateKey = toDateKey(day);
+        // Schedules only count from the day they were created
+        const due = schedules.filter(s =>
+          (!s.createdAt || toDateKey(s.createdAt) <= dateKey) && isSupplementDueOn(s, day)
+        );
+        let available = logCounts.get(`${supplement.id}:${dateKey}`) || 0;
+        const isToday = dateKey === toDateKey(today);
+
+        for (const schedule of due) {
+          const doseTaken = available > 0;
+          if (doseTaken) available--;
+          const dose = schedule.dose || supplement.defaultDose;
+
+          if (isToday) {
+            todayItems.push({ scheduleId: schedule.id, supplementId: supplement.id, supplementName: supplement.name, timeOfDay: schedule.timeOfDay, dose, taken: doseTaken });
+            if (doseTaken) taken++;
+          } else if (doseTaken) {
+            taken++;
+          } else {
+            missedCount++;
+            missed.push({ date: dateKey, scheduleId: schedule.id, supplementId: supplement.id, supplementName: supplement.name, timeOfDay: schedule.timeOfDay, dose });
+          }
+        }
+      }
+
+      summaries.push({
+        supplementId: supplement.id,
+        supplementName: supplement.name,
+        taken,
+        missed: missedCount,
+        takenToday: logCounts.get(`${supplement.id}:${toDateKey(today)}`) || 0,
+        adherencePct: taken + missedCount > 0 ? Math.round((taken / (taken + missedCount)) * 100) : null,
+      });
+    }
+
+    return {
+      startDate: toDateKey(rangeStart),
+      endDate: toDateKey(today),
+      today: todayItems,
+      supplements: summaries,
+      // Newest first
+      missed: missed.sort((a, b) => b.date.localeCompare(a.date)),
+    };
+  }
+
   // Supplement Logs
   async getSupplementLogs(userId: string): Promise<SupplementLog[]> {
     return await db.select().from(supplementLogs).where(eq(supplementLogs.userId, userId)).orderBy(desc(supplementLogs.takenAt));
@@ -1007,8 +2459,31 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  // Settings
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    await db.insert(userSettings).values({ userId }).onConflictDoNothing();
+    const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings;
+  }
+
+  private async getWeightUnit(userId: string): Promise<WeightUnit> {
+    return (await this.getUserSettings(userId)).weightUnit;
+  }
+
+  async updateUserSettings(userId: string, data: UserSettingsUpdate): Promise<UserSettings> {
+    const [settings] = await db.insert(userSettings)
+      .values({ userId, ...data })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
   // Export
   async getSessionsForExport(userId: string): Promise<any[]> {
+    const unit = await this.getWeightUnit(userId);
     const allSessions = await db.select().from(workoutSessions)
       .where(eq(workoutSessions.userId, userId))
       .orderBy(desc(workoutSessions.startedAt));
@@ -1032,11 +2507,14 @@ export class DatabaseStorage implements IStorage {
 
         let plannedSetsList: PlannedSet[] = [];
         if (session.templateId) {
-          const [templateExercise] = await db.select().from(workoutTemplateExercises)
-            .where(and(
-              eq(workoutTemplateExercises.templateId, session.templateId),
-              eq(workoutTemplateExercises.exerciseId, se.exerciseId)
-            ));
+          // Older sessions have no stored link and fall back to matching the exercise
+          const [templateExercise] = se.templateExerciseId
+            ? [{ id: se.templateExerciseId }]
+            : await db.select().from(workoutTemplateExercises)
+              .where(and(
+                eq(workoutTemplateExercises.templateId, session.templateId),
+                eq(workoutTemplateExercises.exerciseId, se.exerciseId)
+              ));
           if (templateExercise) {
             plannedSetsList = await db.select().from(plannedSets)
               .where(eq(plannedSets.templateExerciseId, templateExercise.id))
@@ -1044,10 +2522,15 @@ export class DatabaseStorage implements IStorage {
           }
         }
 
+        // Exported weights are in the user's unit so the columns add up
+        const toUnit = (weight: string | null, from: string | null | undefined) =>
+          weight != null ? String(roundWeight(convertWeight(Number(weight), from, unit))) : null;
+
         return {
           exerciseName: exercise?.name || "Unknown",
-          performedSets: sets,
-          plannedSets: plannedSetsList
+          weightUnit: unit,
+          performedSets: sets.map(set => ({ ...set, actualWeight: toUnit(set.actualWeight, set.weightUnit ?? exercise?.weightUnit) })),
+          plannedSets: plannedSetsList.map(set => ({ ...set, targetWeight: toUnit(set.targetWeight, exercise?.weightUnit) }))
         };
       }));
 
@@ -1083,11 +2566,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Analytics
-  async getExerciseAnalytics(userId: string, exerciseId: string, since?: Date): Promise<{
+  async getExerciseAnalytics(userId: string, exerciseId: string, since?: Date, formula: OneRepMaxFormula = "epley"): Promise<{
     date: string;
     maxWeight: number | null;
+    estimated1RM: number | null;
     totalEffort: number | null;
     bestTime: number | null;
+    avgRpe: number | null;
     totalSets: number;
   }[]> {
     const conditions = [
@@ -1096,38 +2581,110 @@ export class DatabaseStorage implements IStorage {
       eq(performedSets.isWarmup, false),
     ];
     if (since) conditions.push(gte(workoutSessions.startedAt, since));
+    const unitWeight = weightInUnit(await this.getWeightUnit(userId));
 
     const results = await db.select({
       date: sql<string>`DATE(${workoutSessions.startedAt})`.as('date'),
-      maxWeight: sql<number>`MAX(${performedSets.actualWeight}::numeric)`.as('max_weight'),
-      totalEffort: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${performedSets.actualWeight}::numeric, 0))`.as('total_effort'),
+      maxWeight: sql<number>`MAX(${unitWeight})`.as('max_weight'),
+      totalEffort: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${unitWeight}, 0))`.as('total_effort'),
       bestTime: sql<number>`MIN(${performedSets.actualTimeSeconds})`.as('best_time'),
+      avgRpe: sql<number | null>`AVG(${performedSets.actualRpe}::numeric)`.as('avg_rpe'),
       totalSets: sql<number>`COUNT(${performedSets.id})`.as('total_sets'),
     })
       .from(performedSets)
       .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
       .innerJoin(workoutSessions, eq(sessionExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(sessionExercises.exerciseId, exercises.id))
       .where(and(...conditions))
       .groupBy(sql`DATE(${workoutSessions.startedAt})`)
       .orderBy(sql`DATE(${workoutSessions.startedAt})`);
 
+    // Best e1RM per day is computed per set, so it needs the individual sets
+    const loadedSets = await this.getLoadedSets(userId, exerciseId, since);
+    const e1rmByDate = new Map<string, number>();
+    for (const set of loadedSets) {
+      const e1rm = estimateOneRepMax(set.weight, set.reps, formula);
+      if (e1rm !== null && e1rm > (e1rmByDate.get(set.date) ?? 0)) e1rmByDate.set(set.date, e1rm);
+    }
+
     return results.map(r => ({
       date: r.date,
       maxWeight: r.maxWeight ? Number(r.maxWeight) : null,
+      estimated1RM: e1rmByDate.get(r.date) ?? null,
       totalEffort: r.totalEffort ? Number(r.totalEffort) : null,
       bestTime: r.bestTime ? Number(r.bestTime) : null,
+      avgRpe: r.avgRpe !== null ? Math.round(Number(r.avgRpe) * 10) / 10 : null,
       totalSets: Number(r.totalSets),
     }));
   }
 
+  async getRepRangeRecords(userId: string, exerciseId: string): Promise<{ reps: number; weight: number | null; date: string | null }[]> {
+    const loadedSets = await this.getLoadedSets(userId, exerciseId);
+    return REP_RANGE_PR_REPS.map(reps => {
+      let best: { weight: number; date: string } | null = null;
+      for (const set of loadedSets) {
+        // Earliest date wins ties, since that's when the record was set
+        if (set.reps >= reps && (!best || set.weight > best.weight)) best = { weight: set.weight, date: set.date };
+      }
+      return { reps, weight: best?.weight ?? null, date: best?.date ?? null };
+    });
+  }
+
+  // Non-warmup sets with both weight and reps, oldest first. Exercise optional
+  private async getLoadedSets(userId: string, exerciseId?: string, since?: Date): Promise<{
+    date: string;
+    sessionExerciseId: string;
+    exerciseId: string;
+    exerciseName: string;
+    weight: number;
+    reps: number;
+  }[]> {
+    const conditions = [
+      eq(performedSets.userId, userId),
+      eq(performedSets.isWarmup, false),
+      inArray(performedSets.setType, STRAIGHT_SET_TYPES),
+      sql`${performedSets.actualWeight} IS NOT NULL`,
+      sql`${performedSets.actualReps} IS NOT NULL`,
+    ];
+    if (exerciseId) conditions.push(eq(sessionExercises.exerciseId, exerciseId));
+    if (since) conditions.push(gte(workoutSessions.startedAt, since));
+    const unitWeight = weightInUnit(await this.getWeightUnit(userId));
+
+    const rows = await db.select({
+      date: sql<string>`DATE(${workoutSessions.startedAt})`.as('date'),
+      sessionExerciseId: performedSets.sessionExerciseId,
+      exerciseId: sessionExercises.exerciseId,
+      exerciseName: exercises.name,
+      weight: sql<string>`${unitWeight}`,
+      reps: performedSets.actualReps,
+    })
+      .from(performedSets)
+      .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
+      .innerJoin(workoutSessions, eq(sessionExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(sessionExercises.exerciseId, exercises.id))
+      .where(and(...conditions))
+      .orderBy(workoutSessions.startedAt);
+
+    return rows.map(r => ({
+      date: r.date,
+      sessionExerciseId: r.sessionExerciseId,
+      exerciseId: r.exerciseId,
+      exerciseName: r.exerciseName,
+      weight: Number(r.weight) || 0,
+      reps: r.reps ?? 0,
+    }));
+  }
+
   async getAnalyticsOverview(userId: string): Promise<{
     workoutsThisWeek: number;
     workoutsThisMonth: number;
     currentStreak: number;
     avgSessionsPerWeek: number;
     weeklyVolume: { week: string; volume: number }[];
+    planAdherence: { completed: number; skipped: number; adherencePct: number | null };
   }> {
     const now = new Date();
+    const unitWeight = weightInUnit(await this.getWeightUnit(userId));
 
     // Start of current week (Monday)
     const startOfWeek = new Date(now);
@@ -1194,11 +2751,12 @@ export class DatabaseStorage implements IStorage {
     // Weekly volume (last 8 weeks)
     const volumeRows = await db.select({
       week: sql<string>`DATE_TRUNC('week', ${workoutSessions.startedAt})`.as('week'),
-      volume: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${performedSets.actualWeight}::numeric, 0))`.as('volume'),
+      volume: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${unitWeight}, 0))`.as('volume'),
     })
       .from(performedSets)
       .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
       .innerJoin(workoutSessions, eq(sessionExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(sessionExercises.exerciseId, exercises.id))
       .where(and(
         eq(performedSets.userId, userId),
         gte(workoutSessions.startedAt, eightWeeksAgo),
@@ -1207,6 +2765,24 @@ export class DatabaseStorage implements IStorage {
       .groupBy(sql`DATE_TRUNC('week', ${workoutSessions.startedAt})`)
       .orderBy(sql`DATE_TRUNC('week', ${workoutSessions.startedAt})`);
 
+    // Plan adherence (last 4 weeks): completed vs skipped scheduled workouts.
+    // Planned rows are still pending, so they don't count either way
+    const todayKey = toDateKey(now);
+    const statusRows = await db.select({
+      status: workoutSchedule.status,
+      count: sql<number>`COUNT(*)`.as('count'),
+    })
+      .from(workoutSchedule)
+      .where(and(
+        eq(workoutSchedule.userId, userId),
+        gte(workoutSchedule.scheduledDate, shiftDateKey(todayKey, -27)),
+        lte(workoutSchedule.scheduledDate, todayKey)
+      ))
+      .groupBy(workoutSchedule.status);
+    const countFor = (status: string) => Number(statusRows.find(r => r.status === status)?.count ?? 0);
+    const completed = countFor("completed");
+    const skipped = countFor("skipped");
+
     return {
       workoutsThisWeek: thisWeekRows.length,
       workoutsThisMonth: thisMonthRows.length,
@@ -1216,6 +2792,11 @@ export class DatabaseStorage implements IStorage {
         week: r.week.substring(0, 10), // YYYY-MM-DD
         volume: Number(r.volume) || 0,
       })),
+      planAdherence: {
+        completed,
+        skipped,
+        adherencePct: completed + skipped > 0 ? Math.round((completed / (completed + skipped)) * 100) : null,
+      },
     };
   }
 
@@ -1225,14 +2806,16 @@ export class DatabaseStorage implements IStorage {
       eq(performedSets.isWarmup, false),
     ];
     if (since) conditions.push(gte(workoutSessions.startedAt, since));
+    const unitWeight = weightInUnit(await this.getWeightUnit(userId));
 
     const results = await db.select({
       date: sql<string>`DATE(${workoutSessions.startedAt})`.as('date'),
-      volume: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${performedSets.actualWeight}::numeric, 0))`.as('volume'),
+      volume: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${unitWeight}, 0))`.as('volume'),
     })
       .from(performedSets)
       .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
       .innerJoin(workoutSessions, eq(sessionExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(sessionExercises.exerciseId, exercises.id))
       .where(and(...conditions))
       .groupBy(sql`DATE(${workoutSessions.startedAt})`)
       .orderBy(sql`DATE(${workoutSessions.startedAt})`);
@@ -1243,20 +2826,24 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async getPersonalRecords(userId: string): Promise<{
+  async getPersonalRecords(userId: string, formula: OneRepMaxFormula = "epley"): Promise<{
     date: string;
     exerciseId: string;
     exerciseName: string;
-    metric: "weight" | "time";
+    metric: "weight" | "time" | "e1rm";
     value: number;
+    sessionExerciseIds: string[];
   }[]> {
+    const unitWeight = weightInUnit(await this.getWeightUnit(userId));
     // Get best weight and best time per exercise per day (aggregate to avoid counting
-    // multiple sets in the same session as separate PRs)
-    const dailyBests = await db.select({
+    // multiple sets in the same session as separate PRs). Bests come per session
+    // exercise so each PR knows which workouts reached it
+    const bestRows = await db.select({
       date: sql<string>`DATE(${workoutSessions.startedAt})`.as('date'),
+      sessionExerciseId: performedSets.sessionExerciseId,
       exerciseId: sessionExercises.exerciseId,
       exerciseName: exercises.name,
-      bestWeight: sql<number>`MAX(${performedSets.actualWeight}::numeric)`.as('best_weight'),
+      bestWeight: sql<number>`MAX(${unitWeight})`.as('best_weight'),
       bestTime: sql<number | null>`MIN(${performedSets.actualTimeSeconds})`.as('best_time'),
     })
       .from(performedSets)
@@ -1269,35 +2856,73 @@ export class DatabaseStorage implements IStorage {
       ))
       .groupBy(
         sql`DATE(${workoutSessions.startedAt})`,
+        performedSets.sessionExerciseId,
         sessionExercises.exerciseId,
         exercises.name
       )
       .orderBy(sql`DATE(${workoutSessions.startedAt})`);
 
+    type DailyBest = { value: number; sessionExerciseIds: string[] };
+    // Keeps the better of a day's values, collecting every session exercise that reached it
+    const mergeBest = (current: DailyBest | null, value: number, sessionExerciseId: string, better: (a: number, b: number) => boolean): DailyBest => {
+      if (!current || better(value, current.value)) return { value, sessionExerciseIds: [sessionExerciseId] };
+      if (value === current.value) current.sessionExerciseIds.push(sessionExerciseId);
+      return current;
+    };
+    const higher = (a: number, b: number) => a > b;
+    const lower = (a: number, b: number) => a < b;
+
+    const dailyBests = new Map<string, { date: string; exerciseId: string; exerciseName: string; weight: DailyBest | null; time: DailyBest | null }>();
+    for (const row of bestRows) {
+      const key = `${row.exerciseId}:${row.date}`;
+      const day = dailyBests.get(key) ?? { date: row.date, exerciseId: row.exerciseId, exerciseName: row.exerciseName, weight: null, time: null };
+      day.weight = mergeBest(day.weight, Number(row.bestWeight) || 0, row.sessionExerciseId, higher);
+      if (row.bestTime !== null) day.time = mergeBest(day.time, Number(row.bestTime), row.sessionExerciseId, lower);
+      dailyBests.set(key, day);
+    }
+
     // Scan forward per exercise to find PR events
     const bests: Record<string, { weight: number; time: number | null }> = {};
-    const prs: { date: string; exerciseId: string; exerciseName: string; metric: "weight" | "time"; value: number }[] = [];
+    const prs: { date: string; exerciseId: string; exerciseName: string; metric: "weight" | "time" | "e1rm"; value: number; sessionExerciseIds: string[] }[] = [];
 
-    for (const row of dailyBests) {
-      const key = row.exerciseId;
+    for (const day of Array.from(dailyBests.values())) {
+      const key = day.exerciseId;
       if (!bests[key]) bests[key] = { weight: 0, time: null };
       const best = bests[key];
+      const { date, exerciseId, exerciseName } = day;
 
-      const weight = Number(row.bestWeight) || 0;
-      const time = row.bestTime !== null ? Number(row.bestTime) : null;
-
-      if (weight > best.weight) {
-        best.weight = weight;
-        prs.push({ date: row.date, exerciseId: row.exerciseId, exerciseName: row.exerciseName, metric: "weight", value: weight });
+      if (day.weight && day.weight.value > best.weight) {
+        best.weight = day.weight.value;
+        prs.push({ date, exerciseId, exerciseName, metric: "weight", ...day.weight });
       }
-      if (time !== null && (best.time === null || time < best.time)) {
-        best.time = time;
-        prs.push({ date: row.date, exerciseId: row.exerciseId, exerciseName: row.exerciseName, metric: "time", value: time });
+      if (day.time && (best.time === null || day.time.value < best.time)) {
+        best.time = day.time.value;
+        prs.push({ date, exerciseId, exerciseName, metric: "time", ...day.time });
+      }
+    }
+
+    // e1RM PRs catch rep progress at the same weight (5x225 after 1x225).
+    // Take each exercise's best e1RM per day, then scan forward like above
+    const dailyE1rm = new Map<string, { date: string; exerciseId: string; exerciseName: string; best: DailyBest }>();
+    for (const set of await this.getLoadedSets(userId)) {
+      const e1rm = estimateOneRepMax(set.weight, set.reps, formula);
+      if (e1rm === null) continue;
+      const key = `${set.exerciseId}:${set.date}`;
+      const current = dailyE1rm.get(key);
+      const best = mergeBest(current?.best ?? null, e1rm, set.sessionExerciseId, higher);
+      if (!current) dailyE1rm.set(key, { date: set.date, exerciseId: set.exerciseId, exerciseName: set.exerciseName, best });
+      else current.best = best;
+    }
+    const bestE1rm: Record<string, number> = {};
+    for (const { best, ...day } of Array.from(dailyE1rm.values())) {
+      if (best.value > (bestE1rm[day.exerciseId] ?? 0)) {
+        bestE1rm[day.exerciseId] = best.value;
+        prs.push({ ...day, metric: "e1rm", value: best.value, sessionExerciseIds: Array.from(new Set(best.sessionExerciseIds)) });
       }
     }
 
     // Return newest first
-    return prs.reverse();
+    return prs.sort((a, b) => a.date.localeCompare(b.date)).reverse();
   }
 
   async getVolumeByCategory(userId: string, since?: Date): Promise<{ category: string; volume: number }[]> {
@@ -1306,10 +2931,11 @@ export class DatabaseStorage implements IStorage {
       eq(performedSets.isWarmup, false),
     ];
     if (since) conditions.push(gte(workoutSessions.startedAt, since));
+    const unitWeight = weightInUnit(await this.getWeightUnit(userId));
 
     const results = await db.select({
       category: exercises.category,
-      volume: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${performedSets.actualWeight}::numeric, 0))`.as('volume'),
+      volume: sql<number>`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${unitWeight}, 0))`.as('volume'),
     })
       .from(performedSets)
       .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
@@ -1317,7 +2943,7 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(exercises, eq(sessionExercises.exerciseId, exercises.id))
       .where(and(...conditions))
       .groupBy(exercises.category)
-      .orderBy(desc(sql`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${performedSets.actualWeight}::numeric, 0))`));
+      .orderBy(desc(sql`SUM(COALESCE(${performedSets.actualReps}, 0) * COALESCE(${unitWeight}, 0))`));
 
     return results
       .filter(r => Number(r.volume) > 0)
@@ -1349,6 +2975,119 @@ export class DatabaseStorage implements IStorage {
         durationMin: Math.round(Number(r.durationSec) / 60),
       }));
   }
+
+  // Actual rest against planned rest per finished session, from set completion
+  // times. Sessions without timed rest intervals are left out
+  async getRestDiscipline(userId: string, since?: Date): Promise<{ date: string; avgRestSeconds: number; targetRestSeconds: number | null; onTargetPct: number | null }[]> {
+    const conditions = [
+      eq(performedSets.userId, userId),
+      isNotNull(performedSets.completedAt),
+      isNotNull(workoutSessions.endedAt),
+    ];
+    if (since) conditions.push(gte(workoutSessions.startedAt, since));
+
+    const rows = await db.select({
+      sessionId: workoutSessions.id,
+      date: sql<string>`DATE(${workoutSessions.startedAt})`,
+      set: performedSets,
+    })
+      .from(performedSets)
+      .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
+      .innerJoin(workoutSessions, eq(sessionExercises.sessionId, workoutSessions.id))
+      .where(and(...conditions))
+      .orderBy(workoutSessions.startedAt);
+
+    // Targets come from the planned sets of each session exercise's template exercise
+    const sessionExerciseIds = Array.from(new Set(rows.map(row => row.set.sessionExerciseId)));
+    const planned: PlannedRest[] = sessionExerciseIds.length === 0 ? [] : await db.select({
+      sessionExerciseId: sessionExercises.id,
+      setNumber: plannedSets.setNumber,
+      restSeconds: plannedSets.restSeconds,
+    })
+      .from(sessionExercises)
+      .innerJoin(plannedSets, eq(plannedSets.templateExerciseId, sessionExercises.templateExerciseId))
+      .where(inArray(sessionExercises.id, sessionExerciseIds));
+
+    const bySession = new Map<string, { date: string; sets: PerformedSet[] }>();
+    for (const row of rows) {
+      const entry = bySession.get(row.sessionId) ?? { date: row.date, sets: [] };
+      entry.sets.push(row.set);
+      bySession.set(row.sessionId, entry);
+    }
+
+    return Array.from(bySession.values()).flatMap(({ date, sets }) => {
+      const { avgRestSeconds, targetRestSeconds, onTargetPct } = restPacing(restIntervals(sets, planned));
+      return avgRestSeconds === null ? [] : [{ date, avgRestSeconds, targetRestSeconds, onTargetPct }];
+    });
+  }
+
+  async getWeeklyMuscleSets(userId: string, weeks: number): Promise<{
+    weeks: string[];
+    muscles: { muscle: MuscleGroup; minSets: number; maxSets: number; sets: number[] }[];
+  }> {
+    // Monday-start week keys, oldest first, ending with the current week
+    const weekStartOf = (key: string) => shiftDateKey(key, -((parseDateKey(key).getDay() + 6) % 7));
+    const currentWeek = weekStartOf(toDateKey(new Date()));
+    const weekKeys = Array.from({ length: weeks }, (_, i) => shiftDateKey(currentWeek, (i - weeks + 1) * 7));
+
+    // Hard sets = logged working sets with reps, counted per exercise per day.
+    // A drop set is part of the set it drops from, not another hard set
+    const rows = await db.select({
+      date: sql<string>`DATE(${workoutSessions.startedAt})`.as('date'),
+      primaryMuscles: exercises.primaryMuscles,
+      secondaryMuscles: exercises.secondaryMuscles,
+      sets: sql<number>`COUNT(${performedSets.id})`.as('sets'),
+    })
+      .from(performedSets)
+      .innerJoin(sessionExercises, eq(performedSets.sessionExerciseId, sessionExercises.id))
+      .innerJoin(workoutSessions, eq(sessionExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(sessionExercises.exerciseId, exercises.id))
+      .where(and(
+        eq(performedSets.userId, userId),
+        eq(performedSets.isWarmup, false),
+        not(eq(performedSets.setType, "drop")),
+        sql`${performedSets.actualReps} IS NOT NULL`,
+        gte(workoutSessions.startedAt, parseDateKey(weekKeys[0]))
+      ))
+      .groupBy(sql`DATE(${workoutSessions.startedAt})`, exercises.id);
+
+    const totals = new Map<MuscleGroup, number[]>(muscleGroups.map(m => [m, weekKeys.map(() => 0)]));
+    for (const row of rows) {
+      const week = weekKeys.indexOf(weekStartOf(row.date));
+      if (week < 0) continue;
+      const sets = Number(row.sets);
+      for (const muscle of row.primaryMuscles ?? []) totals.get(muscle)![week] += sets;
+      for (const muscle of row.secondaryMuscles ?? []) totals.get(muscle)![week] += sets * SECONDARY_MUSCLE_CREDIT;
+    }
+
+    const targets = await this.getMuscleTargets(userId);
+    return {
+      weeks: weekKeys,
+      muscles: muscleGroups.map(muscle => {
+        const target = targets.find(t => t.muscle === muscle) ?? DEFAULT_WEEKLY_SET_TARGET;
+        return { muscle, minSets: target.minSets, maxSets: target.maxSets, sets: totals.get(muscle)! };
+      }),
+    };
+  }
+
+  async getMuscleTargets(userId: string): Promise<MuscleTarget[]> {
+    return await db.select().from(muscleTargets).where(eq(muscleTargets.userId, userId));
+  }
+
+  async upsertMuscleTarget(data: InsertMuscleTarget): Promise<MuscleTarget> {
+    const [target] = await db.insert(muscleTargets)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [muscleTargets.userId, muscleTargets.muscle],
+        set: { minSets: data.minSets, maxSets: data.maxSets },
+      })
+      .returning();
+    return target;
+  }
+
+  async deleteMuscleTarget(userId: string, muscle: MuscleGroup): Promise<void> {
+    await db.delete(muscleTargets).where(and(eq(muscleTargets.userId, userId), eq(muscleTargets.muscle, muscle)));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_EQUIPMENT, formatPlates, getEquipmentProfile, lightestLoad, loadPlates, loadingEquipment, roundToLoadable,
+} from "./equipment";
+
+const lbs = getEquipmentProfile(null);
+const kg = getEquipmentProfile({ weightUnit: "kg", barWeights: [], plates: null, dumbbellIncrement: null, machineStep: null });
+
+describe("getEquipmentProfile", () => {
+  it("falls back to the defaults for the user's unit", () => {
+    assert.deepEqual(lbs, { unit: "lbs", ...DEFAULT_EQUIPMENT.lbs });
+    assert.deepEqual(kg, { unit: "kg", ...DEFAULT_EQUIPMENT.kg });
+  });
+
+  it("reads numeric settings stored as strings", () => {
+    const profile = getEquipmentProfile({ weightUnit: "lbs", barWeights: [35, 45], plates: [45, 25], dumbbellIncrement: "2.5", machineStep: "10" });
+    assert.deepEqual(profile, { unit: "lbs", barWeights: [35, 45], plates: [45, 25], dumbbellIncrement: 2.5, machineStep: 10 });
+  });
+});
+
+describe("loadingEquipment", () => {
+  it("uses the exercise's equipment when it's in the profile's unit", () => {
+    assert.equal(loadingEquipment({ equipment: "dumbbell", weightUnit: "lbs" }, lbs), "dumbbell");
+    assert.equal(loadingEquipment({ equipment: "barbell", weightUnit: null }, lbs), "barbell");
+  });
+
+  it("treats exercises in the other unit as other equipment", () => {
+    assert.equal(loadingEquipment({ equipment: "barbell", weightUnit: "kg" }, lbs), "other");
+    assert.equal(loadingEquipment(null, lbs), null);
+  });
+});
+
+describe("loadPlates", () => {
+  it("loads the fewest plates per side", () => {
+    assert.deepEqual(loadPlates(225, 45, lbs.plates), { barWeight: 45, perSide: [45, 45], total: 225 });
+    assert.deepEqual(loadPlates(100, 45, lbs.plates), { barWeight: 45, perSide: [25, 2.5], total: 100 });
+  });
+
+  it("adds fractional plates exactly", () => {
+    assert.deepEqual(loadPlates(22.5, 20, kg.plates), { barWeight: 20, perSide: [1.25], total: 22.5 });
+  });
+
+  it("rounds to the nearest load, or up when asked", () => {
+    assert.equal(loadPlates(226, 45, lbs.plates).total, 225);
+    assert.equal(loadPlates(226, 45, lbs.plates, "up").total, 230);
+  });
+
+  it("loads the empty bar for weights under it or without plates", () => {
+    assert.deepEqual(loadPlates(30, 45, lbs.plates), { barWeight: 45, perSide: [], total: 45 });
+    assert.deepEqual(loadPlates(135, 45, []), { barWeight: 45, perSide: [], total: 45 });
+  });
+});
+
+describe("roundToLoadable", () => {
+  it("rounds barbell and plate-loaded weights to the plates", () => {
+    assert.equal(roundToLoadable(137, "barbell", lbs), 135);
+    assert.equal(roundToLoadable(92, "plate_loaded", lbs), 90);
+  });
+
+  it("rounds dumbbells and machines to their step, never below one step", () => {
+    assert.equal(roundToLoadable(52, "dumbbell", lbs), 50);
+    assert.equal(roundToLoadable(52, "dumbbell", lbs, "up"), 55);
+    assert.equal(roundToLoadable(1, "machine", lbs), 5);
+  });
+
+  it("leaves other equipment as it is", () => {
+    assert.equal(roundToLoadable(52.3, "bodyweight", lbs), 52.3);
+    assert.equal(roundToLoadable(52.3, "other", lbs), 52.3);
+    assert.equal(roundToLoadable(52.3, null, lbs), 52.3);
+  });
+});
+
+describe("lightestLoad", () => {
+  it("is the empty bar, smallest dumbbell or top of the stack", () => {
+    assert.equal(lightestLoad("barbell", kg), 20);
+    assert.equal(lightestLoad("dumbbell", kg), 2);
+    assert.equal(lightestLoad("machine", kg), 5);
+    assert.equal(lightestLoad("plate_loaded", kg), 0);
+  });
+});
+
+describe("formatPlates", () => {
+  it("lists the plates a side, or says the bar is empty", () => {
+    assert.equal(formatPlates(loadPlates(100, 45, lbs.plates)), "25 + 2.5 a side");
+    assert.equal(formatPlates(loadPlates(45, 45, lbs.plates)), "Empty bar");
+  });
+});
@@ -0,0 +1,152 @@
+import type { EquipmentType, Exercise, UserSettings, WeightUnit } from "./schema";
+
+// The bars, plates, dumbbells and weight stacks a user has to work with, in
+// the user's weight unit
+export interface EquipmentProfile {
+  unit: WeightUnit;
+  barWeights: number[];
+  plates: number[];
+  dumbbellIncrement: number;
+  machineStep: number;
+}
+
+export interface PlateLoad {
+  barWeight: number;
+  perSide: number[]; // Heaviest first
+  total: number;
+}
+
+// "up" never rounds below the target, so a small progression step still moves
+// the weight forward
+export type RoundMode = "nearest" | "up";
+
+// Plate math runs in hundredths so 2.5 and 1.25 plates add up exactly
+const SCALE = 100;
+
+// A typical commercial gym in each unit
+export const DEFAULT_EQUIPMENT: Record<WeightUnit, Omit<EquipmentProfile, "unit">> = {
+  lbs: { barWeights: [45], plates: [45, 35, 25, 10, 5, 2.5], dumbbellIncrement: 5, machineStep: 5 },
+  kg: { barWeights: [20], plates: [25, 20, 15, 10, 5, 2.5, 1.25], dumbbellIncrement: 2, machineStep: 5 },
+};
+
+export function getEquipmentProfile(
+  settings?: Pick<UserSettings, "weightUnit" | "barWeights" | "plates" | "dumbbellIncrement" | "machineStep"> | null,
+): EquipmentProfile {
+  const unit = settings?.weightUnit ?? "lbs";
+  const defaults = DEFAULT_EQUIPMENT[unit];
+  return {
+    unit,
+    barWeights: settings?.barWeights?.length ? settings.barWeights : defaults.barWeights,
+    plates: settings?.plates ?? defaults.plates,
+    dumbbellIncrement: Number(settings?.dumbbellIncrement ?? defaults.dumbbellIncrement),
+    machineStep: Number(settings?.machineStep ?? defaults.machineStep),
+  };
+}
+
+// The equipment to round an exercise's weights with. Exercises logged in a
+// different unit from the profile count as "other" and aren't rounded, since
+// the plates wouldn't match
+export function loadingEquipment(
+  exercise: Pick<Exercise, "equipment" | "weightUnit"> | null | undefined,
+  profile: EquipmentProfile,
+): EquipmentType | null {
+  if (!exercise) return null;
+  if ((exercise.weightUnit ?? "lbs") !== profile.unit) return "other";
+  return exercise.equipment;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Loads a bar as close to the weight as the plates allow, using the fewest
+// plates per side. Weights under the bar load as the empty bar
+export function loadPlates(weight: number, barWeight: number, plates: number[], mode: RoundMode = "nearest"): PlateLoad {
+  const sizes = plates.map(p => Math.round(p * SCALE)).filter(p => p > 0).sort((a, b) => b - a);
+  const target = (weight - barWeight) / 2 * SCALE;
+  if (sizes.length === 0 || target <= 0) return { barWeight, perSide: [], total: barWeight };
+
+  const unit = sizes.reduce(gcd);
+  const goal = target / unit;
+  const limit = Math.ceil(goal) + sizes[0] / unit;
+
+  // fewest[i]: fewest plates making i units a side; last[i]: the plate added to get there
+  const fewest = new Array<number>(limit + 1).fill(Infinity);
+  const last = new Array<number>(limit + 1).fill(0);
+  fewest[0] = 0;
+  for (let i = 1; i <= limit; i++) {
+    for (const size of sizes) {
+      const prev = i - size / unit;
+      if (prev >= 0 && fewest[prev] + 1 < fewest[i]) {
+        fewest[i] = fewest[prev] + 1;
+        last[i] = size / unit;
+      }
+    }
+  }
+
+  let best = 0;
+  for (let i = 1; i <= limit; i++) {
+    if (fewest[i] === Infinity) continue;
+    if (mode === "up") {
+      best = i;
+      if (i >= goal) break;
+    } else if (Math.abs(i - goal) < Math.abs(best - goal)) {
+      best = i;
+    }
+  }
+
+  const perSide: number[] = [];
+  for (let i = best; i > 0; i -= last[i]) {
+    perSide.push(last[i] * unit / SCALE);
+  }
+  perSide.sort((a, b) => b - a);
+  const total = barWeight + 2 * best * unit / SCALE;
+  return { barWeight, perSide, total: Math.round(total * 100) / 100 };
+}
+
+function roundToStep(weight: number, step: number, mode: RoundMode): number {
+  if (step <= 0) return weight;
+  const steps = mode === "up" ? Math.ceil(weight / step - 1e-9) : Math.round(weight / step);
+  return Math.round(Math.max(1, steps) * step * 100) / 100;
+}
+
+// The closest weight the equipment can make. Bodyweight, other and unset
+// equipment are left as they are
+export function roundToLoadable(
+  weight: number,
+  equipment: EquipmentType | null | undefined,
+  profile: EquipmentProfile,
+  mode: RoundMode = "nearest",
+): number {
+  switch (equipment) {
+    case "barbell":
+      return loadPlates(weight, profile.barWeights[0], profile.plates, mode).total;
+    case "plate_loaded":
+      return loadPlates(weight, 0, profile.plates, mode).total;
+    case "dumbbell":
+      return roundToStep(weight, profile.dumbbellIncrement, mode);
+    case "machine":
+      return roundToStep(weight, profile.machineStep, mode);
+    default:
+      return weight;
+  }
+}
+
+// The lightest load the equipment can make: the empty bar, the smallest
+// dumbbell or the top plate of the stack
+export function lightestLoad(equipment: EquipmentType | null | undefined, profile: EquipmentProfile): number {
+  switch (equipment) {
+    case "barbell":
+      return profile.barWeights[0];
+    case "dumbbell":
+      return profile.dumbbellIncrement;
+    case "machine":
+      return profile.machineStep;
+    default:
+      return 0;
+  }
+}
+
+export function formatPlates(load: PlateLoad): string {
+  return load.perSide.length > 0 ? `${load.perSide.join(" + ")} a side` : "Empty bar";
+}
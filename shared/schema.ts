@@ -9,6 +9,39 @@ export * from "./models/auth";
 // Enums
 export const scheduleStatusEnum = pgEnum("schedule_status", ["planned", "completed", "skipped"]);
 export const supplementScheduleTypeEnum = pgEnum("supplement_schedule_type", ["daily", "weekly", "custom"]);
+export const scheduleRecurrenceEnum = pgEnum("schedule_recurrence", ["weekly", "interval"]);
+export const progressionTypeEnum = pgEnum("progression_type", ["linear", "double"]);
+export const progressionOutcomeEnum = pgEnum("progression_outcome", ["progressed", "reset"]);
+
+// Muscle taxonomy for exercises' primary/secondary muscles and weekly set counts
+export const muscleGroups = [
+  "chest", "front_delts", "side_delts", "rear_delts",
+  "lats", "upper_back", "traps", "lower_back",
+  "biceps", "triceps", "forearms",
+  "abs", "obliques",
+  "quads", "hamstrings", "glutes", "adductors", "calves",
+] as const;
+export type MuscleGroup = typeof muscleGroups[number];
+export const muscleGroupEnum = pgEnum("muscle_group", muscleGroups);
+
+// Set types for planned and performed sets. Drop sets continue from a parent
+// set at a lower weight; rest-pause and cluster sets log the reps of all their
+// mini-sets as one set
+export const setTypes = ["normal", "warmup", "drop", "amrap", "rest_pause", "cluster", "failure"] as const;
+export type SetType = typeof setTypes[number];
+export const setTypeEnum = pgEnum("set_type", setTypes);
+
+// Weight units. Each exercise is logged in its own unit; analytics, exports
+// and body weight display in the user's preferred one
+export const weightUnits = ["lbs", "kg"] as const;
+export type WeightUnit = typeof weightUnits[number];
+
+// What an exercise is loaded with, which decides how target weights round to
+// something the user's equipment can actually make. Plate-loaded machines take
+// plates in pairs with no bar
+export const equipmentTypes = ["barbell", "plate_loaded", "dumbbell", "machine", "bodyweight", "other"] as const;
+export type EquipmentType = typeof equipmentTypes[number];
+export const equipmentTypeEnum = pgEnum("equipment_type", equipmentTypes);
 
 // Exercises table - user's exercise bank
 export const exercises = pgTable("exercises", {
@@ -17,11 +50,14 @@ export const exercises = pgTable("exercises", {
   name: text("name").notNull(),
   category: text("category"),
   defaultTracking: jsonb("default_tracking").$type<{ weight: boolean; reps: boolean; time: boolean; distance: boolean }>().default({ weight: true, reps: true, time: false, distance: false }),
-  weightUnit: text("weight_unit").default("lbs"),
+  weightUnit: text("weight_unit", { enum: weightUnits }).default("lbs"),
   distanceUnit: text("distance_unit").default("mi"),
   timeUnit: text("time_unit").default("sec"),
   notes: text("notes"),
   url: text("url"),
+  primaryMuscles: muscleGroupEnum("primary_muscles").array(),
+  secondaryMuscles: muscleGroupEnum("secondary_muscles").array(), // Get partial credit in weekly set counts
+  equipment: equipmentTypeEnum("equipment"),
   isSystem: boolean("is_system").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -38,6 +74,12 @@ export const hiddenSystemExercises = pgTable("hidden_system_exercises", {
   index("hidden_exercises_user_idx").on(table.userId),
 ]);
 
+// How a circuit is run. Standard circuits move on when each exercise is done;
+// EMOM starts the next exercise on every interval, Tabata alternates work and
+// rest intervals, and AMRAP cycles through the exercises until the time cap
+export const circuitFormats = ["standard", "emom", "tabata", "amrap"] as const;
+export type CircuitFormat = typeof circuitFormats[number];
+
 // Circuits table - reusable exercise groups
 export const circuits = pgTable("circuits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -48,6 +90,9 @@ export const circuits = pgTable("circuits", {
   isSystem: boolean("is_system").notNull().default(false),
   restBetweenExercisesSeconds: integer("rest_between_exercises_seconds"),
   restBetweenRoundsSeconds: integer("rest_between_rounds_seconds"),
+  format: text("format", { enum: circuitFormats }).notNull().default("standard"),
+  intervalSeconds: integer("interval_seconds"), // EMOM interval or Tabata work interval
+  timeCapSeconds: integer("time_cap_seconds"), // AMRAP duration
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -119,14 +164,87 @@ export const plannedSets = pgTable("planned_sets", {
   setNumber: integer("set_number").notNull(),
   targetReps: integer("target_reps"),
   targetWeight: numeric("target_weight"),
+  targetPercent: numeric("target_percent"), // % of the exercise's training max; resolved to a weight when a session starts
   targetTimeSeconds: integer("target_time_seconds"),
   targetDistance: numeric("target_distance"),
+  targetRpe: numeric("target_rpe"), // Rate of perceived exertion, 1-10 in half steps
+  targetRir: integer("target_rir"), // Reps in reserve
+  targetTempo: varchar("target_tempo"), // e.g. "3-1-1-0": eccentric, bottom pause, concentric, top pause
   restSeconds: integer("rest_seconds"),
-  isWarmup: boolean("is_warmup").default(false),
+  isWarmup: boolean("is_warmup").default(false), // Kept in step with setType === "warmup"
+  setType: setTypeEnum("set_type").notNull().default("normal"),
+  parentSetId: varchar("parent_set_id"), // Drop sets: the planned set they drop from
 }, (table) => [
   index("planned_sets_template_exercise_idx").on(table.templateExerciseId, table.setNumber),
 ]);
 
+// Training maxes - per-user, per-exercise base for percentage-based planned sets
+export const trainingMaxes = pgTable("training_maxes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  exerciseId: varchar("exercise_id").notNull(),
+  weight: numeric("weight").notNull(),
+  roundingIncrement: numeric("rounding_increment").notNull().default("5"), // Resolved weights round to the nearest multiple
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("training_maxes_user_exercise_unique").on(table.userId, table.exerciseId),
+]);
+
+// Muscle targets - per-user weekly hard-set range for a muscle (defaults apply when absent)
+export const muscleTargets = pgTable("muscle_targets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  muscle: muscleGroupEnum("muscle").notNull(),
+  minSets: integer("min_sets").notNull(),
+  maxSets: integer("max_sets").notNull(),
+}, (table) => [
+  unique("muscle_targets_user_muscle_unique").on(table.userId, table.muscle),
+]);
+
+// Progression rules - how a template exercise's planned sets advance after a session
+export const progressionRules = pgTable("progression_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  templateExerciseId: varchar("template_exercise_id").notNull(),
+  type: progressionTypeEnum("type").notNull(),
+  weightIncrement: numeric("weight_increment").notNull().default("5"),
+  minReps: integer("min_reps"), // Double progression: bottom of the rep range
+  maxReps: integer("max_reps"), // Double progression: top of the rep range
+  failuresBeforeReset: integer("failures_before_reset"), // Null never resets
+  resetPercent: integer("reset_percent").notNull().default(10), // Weight drop on reset
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("progression_rules_template_exercise_unique").on(table.templateExerciseId),
+]);
+
+// Progression log - changelog of target changes made by progression rules
+// The working-set targets and failure count a progression replaced, so
+// deleting the session that caused it can put them back
+export type ProgressionSnapshot = {
+  consecutiveFailures: number;
+  sets: { plannedSetId: string; targetWeight: string | null; targetReps: number | null }[];
+};
+
+export const progressionLog = pgTable("progression_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  templateId: varchar("template_id").notNull(),
+  templateExerciseId: varchar("template_exercise_id").notNull(),
+  exerciseId: varchar("exercise_id").notNull(),
+  sessionId: varchar("session_id").notNull(),
+  outcome: progressionOutcomeEnum("outcome").notNull(),
+  previousWeight: numeric("previous_weight"),
+  newWeight: numeric("new_weight"),
+  previousReps: integer("previous_reps"),
+  newReps: integer("new_reps"),
+  previousTargets: jsonb("previous_targets").$type<ProgressionSnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("progression_log_template_idx").on(table.templateId, table.createdAt),
+]);
+
 // Workout schedule - assign templates to specific days
 export const workoutSchedule = pgTable("workout_schedule", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -134,13 +252,81 @@ export const workoutSchedule = pgTable("workout_schedule", {
   templateId: varchar("template_id").notNull(),
   scheduledDate: date("scheduled_date").notNull(),
   status: scheduleStatusEnum("status").default("planned"),
+  skipReason: text("skip_reason"), // Set when skipped manually; null for auto-detected skips
+  seriesId: varchar("series_id"), // Set when generated from a recurring series
+  programRunId: varchar("program_run_id"), // Set when generated by starting a program
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("schedule_user_date_idx").on(table.userId, table.scheduledDate),
   index("schedule_template_idx").on(table.templateId),
+  index("schedule_series_idx").on(table.seriesId, table.scheduledDate),
+  index("schedule_program_run_idx").on(table.programRunId, table.scheduledDate),
+]);
+
+// Workout schedule series - recurrence rules expanded into workout_schedule rows
+export const workoutScheduleSeries = pgTable("workout_schedule_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  templateId: varchar("template_id").notNull(),
+  recurrence: scheduleRecurrenceEnum("recurrence").notNull(),
+  daysOfWeek: integer("days_of_week").array(), // Weekly: 0 = Sunday
+  intervalDays: integer("interval_days"), // Interval: every N days from startDate
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"), // Inclusive; null repeats indefinitely
+  generatedThrough: date("generated_through"), // Last date rows have been created for
+  excludedDates: text("excluded_dates").array().notNull().default(sql`'{}'`), // YYYY-MM-DD occurrences the user moved or deleted, never generated again
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("schedule_series_user_idx").on(table.userId),
+]);
+
+// Programs - multi-week sequences of templates (mesocycles)
+export const programs = pgTable("programs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  notes: text("notes"),
+  weekCount: integer("week_count").notNull().default(4),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("programs_user_idx").on(table.userId),
+]);
+
+// Program workouts - which template to train on each day of each program week
+export const programWorkouts = pgTable("program_workouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  programId: varchar("program_id").notNull(),
+  weekNumber: integer("week_number").notNull(), // 1-based
+  dayNumber: integer("day_number").notNull(), // 1-7, counted from the day the program starts
+  templateId: varchar("template_id").notNull(),
+}, (table) => [
+  index("program_workouts_program_idx").on(table.programId, table.weekNumber, table.dayNumber),
+]);
+
+// Program runs - a program started on a date; its workouts are filled into workout_schedule
+export const programRuns = pgTable("program_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  programId: varchar("program_id").notNull(),
+  startDate: date("start_date").notNull(), // Day 1 of week 1
+  endedAt: timestamp("ended_at"), // Set when ended early; null while running or run to completion
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("program_runs_user_idx").on(table.userId, table.startDate),
 ]);
 
 // Workout sessions - performed workouts
+// A rest timer stored as an absolute end time, so it carries on across reloads
+// and devices. A paused timer has no end time and keeps what was left instead
+export type RestTimerState = {
+  endsAt: string | null;
+  durationSeconds: number;
+  pausedRemainingSeconds: number | null;
+};
+
 export const workoutSessions = pgTable("workout_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
@@ -148,6 +334,8 @@ export const workoutSessions = pgTable("workout_sessions", {
   scheduleId: varchar("schedule_id"),
   startedAt: timestamp("started_at").notNull(),
   endedAt: timestamp("ended_at"),
+  autoEndedAt: timestamp("auto_ended_at"), // Set when closed for inactivity; cleared once the user keeps or undoes it
+  restTimer: jsonb("rest_timer").$type<RestTimerState>(), // Running rest timer; cleared when the session ends
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
@@ -166,6 +354,9 @@ export const sessionExercises = pgTable("session_exercises", {
   circuitRound: integer("circuit_round"),
   circuitRounds: integer("circuit_rounds"),
   notes: text("notes"),
+  templateExerciseId: varchar("template_exercise_id"), // Source of the planned sets; kept when the exercise is substituted
+  substitutedExerciseId: varchar("substituted_exercise_id"), // Exercise the template planned, when swapped for another
+  resolvedWeights: jsonb("resolved_weights").$type<Record<string, string>>(), // Planned set id -> weight to load, resolved from the training max and equipment at session start
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("session_exercises_session_idx").on(table.sessionId, table.position),
@@ -180,16 +371,36 @@ export const performedSets = pgTable("performed_sets", {
   setNumber: integer("set_number").notNull(),
   actualReps: integer("actual_reps"),
   actualWeight: numeric("actual_weight"),
+  weightUnit: text("weight_unit", { enum: weightUnits }), // Unit actualWeight was logged in; older sets use their exercise's unit
   actualTimeSeconds: integer("actual_time_seconds"),
   actualDistance: numeric("actual_distance"),
+  actualRpe: numeric("actual_rpe"),
+  actualRir: integer("actual_rir"),
+  actualTempo: varchar("actual_tempo"),
   restSeconds: integer("rest_seconds"),
-  isWarmup: boolean("is_warmup").default(false),
+  isWarmup: boolean("is_warmup").default(false), // Kept in step with setType === "warmup"
+  setType: setTypeEnum("set_type").notNull().default("normal"),
+  parentSetId: varchar("parent_set_id"), // Drop sets: the performed set they drop from
+  completedAt: timestamp("completed_at"), // When the set was done, which can be before it synced; null for older sets
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("performed_sets_session_exercise_idx").on(table.sessionExerciseId, table.setNumber),
   index("performed_sets_user_created_idx").on(table.userId, table.createdAt),
 ]);
 
+// Idempotency keys - stored responses for mutations replayed by the offline sync queue
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  key: varchar("key").notNull(),
+  statusCode: integer("status_code"), // Null while the first request with this key is still running
+  response: jsonb("response"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("idempotency_keys_user_key_unique").on(table.userId, table.key),
+  index("idempotency_keys_created_idx").on(table.createdAt),
+]);
+
 // Supplements table
 export const supplements = pgTable("supplements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -212,6 +423,8 @@ export const supplementSchedule = pgTable("supplement_schedule", {
   scheduleType: supplementScheduleTypeEnum("schedule_type").default("daily"),
   timeOfDay: text("time_of_day"),
   daysOfWeek: integer("days_of_week").array(),
+  intervalDays: integer("interval_days"), // Custom schedules: every N days from startDate
+  startDate: date("start_date"),
   dose: text("dose"),
   active: boolean("active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
@@ -233,12 +446,33 @@ export const supplementLogs = pgTable("supplement_logs", {
   index("supplement_logs_supplement_idx").on(table.supplementId, table.takenAt),
 ]);
 
+// One step of a warm-up ramp: a percentage of the working weight for some reps
+export type WarmupStep = { percent: number; reps: number };
+
+// User settings - per-user preferences, created with defaults on first read
+export const userSettings = pgTable("user_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique(),
+  autoEndAfterHours: integer("auto_end_after_hours"), // Hours without a logged set before a session is ended; null (the default) is off
+  weightUnit: text("weight_unit", { enum: weightUnits }).notNull().default("lbs"), // Unit for analytics, exports, body weight and the equipment profile
+  // Warm-up ramp as percentages of the working weight (0 = empty bar)
+  warmupScheme: jsonb("warmup_scheme").$type<WarmupStep[]>().default([
+    { percent: 0, reps: 10 }, { percent: 40, reps: 5 }, { percent: 60, reps: 3 }, { percent: 80, reps: 1 },
+  ]),
+  // Equipment profile: target weights round to what these can load
+  barWeights: jsonb("bar_weights").$type<number[]>().default([45]), // First bar is the default
+  plates: jsonb("plates").$type<number[]>().default([45, 35, 25, 10, 5, 2.5]), // Plate sizes on hand, loaded in pairs
+  dumbbellIncrement: numeric("dumbbell_increment").default("5"),
+  machineStep: numeric("machine_step").default("5"), // Weight stack step
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Body weight logs
 export const bodyWeightLogs = pgTable("body_weight_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   loggedAt: timestamp("logged_at").defaultNow(),
-  weightLbs: numeric("weight_lbs").notNull(),
+  weightLbs: numeric("weight_lbs").notNull(), // Stored in pounds whatever the user's unit; the client converts
   notes: text("notes"),
 }, (table) => [
   index("body_weight_logs_user_logged_idx").on(table.userId, table.loggedAt),
@@ -284,6 +518,13 @@ export const workoutTemplateExercisesRelations = relations(workoutTemplateExerci
   plannedSets: many(plannedSets),
 }));
 
+export const progressionRulesRelations = relations(progressionRules, ({ one }) => ({
+  templateExercise: one(workoutTemplateExercises, {
+    fields: [progressionRules.templateExerciseId],
+    references: [workoutTemplateExercises.id],
+  }),
+}));
+
 export const plannedSetsRelations = relations(plannedSets, ({ one }) => ({
   templateExercise: one(workoutTemplateExercises, {
     fields: [plannedSets.templateExerciseId],
@@ -296,6 +537,46 @@ export const workoutScheduleRelations = relations(workoutSchedule, ({ one }) =>
     fields: [workoutSchedule.templateId],
     references: [workoutTemplates.id],
   }),
+  series: one(workoutScheduleSeries, {
+    fields: [workoutSchedule.seriesId],
+    references: [workoutScheduleSeries.id],
+  }),
+  programRun: one(programRuns, {
+    fields: [workoutSchedule.programRunId],
+    references: [programRuns.id],
+  }),
+}));
+
+export const workoutScheduleSeriesRelations = relations(workoutScheduleSeries, ({ one, many }) => ({
+  template: one(workoutTemplates, {
+    fields: [workoutScheduleSeries.templateId],
+    references: [workoutTemplates.id],
+  }),
+  occurrences: many(workoutSchedule),
+}));
+
+export const programsRelations = relations(programs, ({ many }) => ({
+  workouts: many(programWorkouts),
+  runs: many(programRuns),
+}));
+
+export const programWorkoutsRelations = relations(programWorkouts, ({ one }) => ({
+  program: one(programs, {
+    fields: [programWorkouts.programId],
+    references: [programs.id],
+  }),
+  template: one(workoutTemplates, {
+    fields: [programWorkouts.templateId],
+    references: [workoutTemplates.id],
+  }),
+}));
+
+export const programRunsRelations = relations(programRuns, ({ one, many }) => ({
+  program: one(programs, {
+    fields: [programRuns.programId],
+    references: [programs.id],
+  }),
+  occurrences: many(workoutSchedule),
 }));
 
 export const workoutSessionsRelations = relations(workoutSessions, ({ one, many }) => ({
@@ -355,7 +636,15 @@ export const insertExerciseSchema = createInsertSchema(exercises).omit({ id: tru
 export const insertWorkoutTemplateSchema = createInsertSchema(workoutTemplates).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertWorkoutTemplateExerciseSchema = createInsertSchema(workoutTemplateExercises).omit({ id: true, createdAt: true });
 export const insertPlannedSetSchema = createInsertSchema(plannedSets).omit({ id: true });
+export const insertTrainingMaxSchema = createInsertSchema(trainingMaxes).omit({ id: true, updatedAt: true });
+export const insertMuscleTargetSchema = createInsertSchema(muscleTargets).omit({ id: true });
+export const insertProgressionRuleSchema = createInsertSchema(progressionRules).omit({ id: true, createdAt: true, updatedAt: true, consecutiveFailures: true });
+export const insertProgressionLogSchema = createInsertSchema(progressionLog).omit({ id: true, createdAt: true });
 export const insertWorkoutScheduleSchema = createInsertSchema(workoutSchedule).omit({ id: true, createdAt: true });
+export const insertWorkoutScheduleSeriesSchema = createInsertSchema(workoutScheduleSeries).omit({ id: true, createdAt: true, updatedAt: true, generatedThrough: true, excludedDates: true });
+export const insertProgramSchema = createInsertSchema(programs).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertProgramWorkoutSchema = createInsertSchema(programWorkouts).omit({ id: true });
+export const insertProgramRunSchema = createInsertSchema(programRuns).omit({ id: true, createdAt: true, endedAt: true });
 export const insertWorkoutSessionSchema = createInsertSchema(workoutSessions).omit({ id: true, createdAt: true });
 export const insertSessionExerciseSchema = createInsertSchema(sessionExercises).omit({ id: true, createdAt: true });
 export const insertPerformedSetSchema = createInsertSchema(performedSets).omit({ id: true, createdAt: true });
@@ -363,6 +652,7 @@ export const insertSupplementSchema = createInsertSchema(supplements).omit({ id:
 export const insertSupplementScheduleSchema = createInsertSchema(supplementSchedule).omit({ id: true, createdAt: true });
 export const insertSupplementLogSchema = createInsertSchema(supplementLogs).omit({ id: true });
 export const insertBodyWeightLogSchema = createInsertSchema(bodyWeightLogs).omit({ id: true, loggedAt: true });
+export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({ id: true, updatedAt: true });
 
 // Types
 export type Circuit = typeof circuits.$inferSelect;
@@ -377,8 +667,25 @@ export type WorkoutTemplateExercise = typeof workoutTemplateExercises.$inferSele
 export type InsertWorkoutTemplateExercise = z.infer<typeof insertWorkoutTemplateExerciseSchema>;
 export type PlannedSet = typeof plannedSets.$inferSelect;
 export type InsertPlannedSet = z.infer<typeof insertPlannedSetSchema>;
+export type TrainingMax = typeof trainingMaxes.$inferSelect;
+export type InsertTrainingMax = z.infer<typeof insertTrainingMaxSchema>;
+export type IdempotencyRecord = typeof idempotencyKeys.$inferSelect;
+export type MuscleTarget = typeof muscleTargets.$inferSelect;
+export type InsertMuscleTarget = z.infer<typeof insertMuscleTargetSchema>;
+export type ProgressionRule = typeof progressionRules.$inferSelect;
+export type InsertProgressionRule = z.infer<typeof insertProgressionRuleSchema>;
+export type ProgressionLogEntry = typeof progressionLog.$inferSelect;
+export type InsertProgressionLogEntry = z.infer<typeof insertProgressionLogSchema>;
 export type WorkoutScheduleItem = typeof workoutSchedule.$inferSelect;
 export type InsertWorkoutSchedule = z.infer<typeof insertWorkoutScheduleSchema>;
+export type WorkoutScheduleSeries = typeof workoutScheduleSeries.$inferSelect;
+export type InsertWorkoutScheduleSeries = z.infer<typeof insertWorkoutScheduleSeriesSchema>;
+export type Program = typeof programs.$inferSelect;
+export type InsertProgram = z.infer<typeof insertProgramSchema>;
+export type ProgramWorkout = typeof programWorkouts.$inferSelect;
+export type InsertProgramWorkout = z.infer<typeof insertProgramWorkoutSchema>;
+export type ProgramRun = typeof programRuns.$inferSelect;
+export type InsertProgramRun = z.infer<typeof insertProgramRunSchema>;
 export type WorkoutSession = typeof workoutSessions.$inferSelect;
 export type InsertWorkoutSession = z.infer<typeof insertWorkoutSessionSchema>;
 export type SessionExercise = typeof sessionExercises.$inferSelect;
@@ -393,3 +700,5 @@ export type SupplementLog = typeof supplementLogs.$inferSelect;
 export type InsertSupplementLog = z.infer<typeof insertSupplementLogSchema>;
 export type BodyWeightLog = typeof bodyWeightLogs.$inferSelect;
 export type InsertBodyWeightLog = z.infer<typeof insertBodyWeightLogSchema>;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
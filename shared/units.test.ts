@@ -0,0 +1,28 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LBS_PER_KG, convertWeight, roundWeight } from "./units";
+
+describe("convertWeight", () => {
+  it("converts between kg and lbs", () => {
+    assert.equal(convertWeight(100, "kg", "lbs"), 100 * LBS_PER_KG);
+    assert.equal(convertWeight(LBS_PER_KG * 20, "lbs", "kg"), 20);
+  });
+
+  it("leaves weights already in the unit alone", () => {
+    assert.equal(convertWeight(135, "lbs", "lbs"), 135);
+    assert.equal(convertWeight(60, "kg", "kg"), 60);
+  });
+
+  it("reads a missing unit as lbs", () => {
+    assert.equal(convertWeight(135, null, "lbs"), 135);
+    assert.equal(convertWeight(135, undefined, "kg"), 135 / LBS_PER_KG);
+  });
+});
+
+describe("roundWeight", () => {
+  it("rounds to a tenth", () => {
+    assert.equal(roundWeight(convertWeight(45, "lbs", "kg")), 20.4);
+    assert.equal(roundWeight(convertWeight(20, "kg", "lbs")), 44.1);
+    assert.equal(roundWeight(100), 100);
+  });
+});
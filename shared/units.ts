@@ -0,0 +1,15 @@
+import type { WeightUnit } from "./schema";
+
+export const LBS_PER_KG = 2.20462;
+
+// Missing units are pounds, the app's original unit
+export function convertWeight(value: number, from: string | null | undefined, to: WeightUnit): number {
+  const source: WeightUnit = from === "kg" ? "kg" : "lbs";
+  if (source === to) return value;
+  return to === "kg" ? value / LBS_PER_KG : value * LBS_PER_KG;
+}
+
+// Converted weights are shown to a tenth, which is finer than any plate
+export function roundWeight(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateWarmupSets } from "./warmup";
+import { getEquipmentProfile } from "./equipment";
+import type { WarmupStep } from "./schema";
+
+const lbs = getEquipmentProfile(null);
+const scheme: WarmupStep[] = [
+  { percent: 0, reps: 10 },
+  { percent: 50, reps: 5 },
+  { percent: 70, reps: 3 },
+  { percent: 85, reps: 2 },
+];
+
+describe("generateWarmupSets", () => {
+  it("builds up from the empty bar in loadable steps", () => {
+    assert.deepEqual(generateWarmupSets(225, scheme, "barbell", lbs), [
+      { weight: 45, reps: 10 },
+      { weight: 110, reps: 5 },
+      { weight: 155, reps: 3 },
+      { weight: 190, reps: 2 },
+    ]);
+  });
+
+  it("sorts the scheme by percent", () => {
+    const shuffled = [scheme[2], scheme[0], scheme[3], scheme[1]];
+    assert.deepEqual(generateWarmupSets(225, shuffled, "barbell", lbs), generateWarmupSets(225, scheme, "barbell", lbs));
+  });
+
+  it("drops steps that reach the working weight or repeat the step before", () => {
+    // 50% and 70% of 65 both load as the empty bar
+    assert.deepEqual(generateWarmupSets(65, scheme, "barbell", lbs), [
+      { weight: 45, reps: 10 },
+      { weight: 55, reps: 2 },
+    ]);
+    assert.deepEqual(generateWarmupSets(45, scheme, "barbell", lbs), []);
+  });
+
+  it("warms up exercises without equipment as barbell lifts", () => {
+    assert.deepEqual(generateWarmupSets(225, scheme, null, lbs), generateWarmupSets(225, scheme, "barbell", lbs));
+  });
+
+  it("rounds dumbbell steps to the dumbbell increment", () => {
+    assert.deepEqual(generateWarmupSets(80, scheme, "dumbbell", lbs), [
+      { weight: 5, reps: 10 },
+      { weight: 40, reps: 5 },
+      { weight: 55, reps: 3 },
+      { weight: 70, reps: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import type { EquipmentType, WarmupStep } from "./schema";
+import { lightestLoad, roundToLoadable, type EquipmentProfile } from "./equipment";
+
+export interface WarmupSet {
+  weight: number;
+  reps: number;
+}
+
+// Builds the warm-up sets leading up to a working weight. Each step is rounded
+// to what the equipment can load, and 0% means the lightest load (the empty
+// bar for barbells). Exercises with no equipment set warm up as barbell lifts.
+// Steps that land on the working weight or on the step before them are dropped
+export function generateWarmupSets(
+  workingWeight: number,
+  scheme: WarmupStep[],
+  equipment: EquipmentType | null | undefined,
+  profile: EquipmentProfile,
+): WarmupSet[] {
+  const kind = equipment ?? "barbell";
+  const lightest = lightestLoad(kind, profile);
+  const steps = [...scheme].sort((a, b) => a.percent - b.percent);
+  const sets: WarmupSet[] = [];
+
+  for (const step of steps) {
+    const target = step.percent === 0 ? lightest : workingWeight * step.percent / 100;
+    const weight = Math.round(Math.max(lightest, roundToLoadable(target, kind, profile)) * 100) / 100;
+    if (weight <= 0 || weight >= workingWeight) continue;
+    if (sets.length > 0 && weight <= sets[sets.length - 1].weight) continue;
+    sets.push({ weight, reps: step.reps });
+  }
+
+  return sets;
+}